@@ -0,0 +1,78 @@
+// ActiveWindow.ts
+
+import { execFile } from "node:child_process"
+
+// The focused window as the system reports it; the id is the native handle where one is available
+export interface ActiveWindow {
+  id?: number
+  title?: string
+}
+
+const COMMAND_TIMEOUT_MS = 3000
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: COMMAND_TIMEOUT_MS, windowsHide: true }, (error, stdout) => {
+      if (error) reject(error)
+      else resolve(stdout.trim())
+    })
+  })
+}
+
+const FOREGROUND_WINDOW_SCRIPT = `Add-Type -Name Window -Namespace Native -MemberDefinition '[DllImport("user32.dll")] public static extern IntPtr GetForegroundWindow();'; [Native.Window]::GetForegroundWindow().ToInt64()`
+
+// macOS only reports the title, which needs the Accessibility permission
+async function getMacActiveWindow(): Promise<ActiveWindow | null> {
+  const title = await run("osascript", [
+    "-e",
+    'tell application "System Events" to get name of front window of (first application process whose frontmost is true)'
+  ])
+  return title ? { title } : null
+}
+
+async function getWindowsActiveWindow(): Promise<ActiveWindow | null> {
+  const id = Number(await run("powershell.exe", ["-NoProfile", "-NonInteractive", "-Command", FOREGROUND_WINDOW_SCRIPT]))
+  return id > 0 ? { id } : null
+}
+
+// X11 only: xdotool when installed, otherwise the window manager's _NET_ACTIVE_WINDOW
+async function getLinuxActiveWindow(): Promise<ActiveWindow | null> {
+  try {
+    const id = Number(await run("xdotool", ["getactivewindow"]))
+    if (id > 0) return { id }
+  } catch {
+    // Not installed, or not running on X11
+  }
+  const output = await run("xprop", ["-root", "_NET_ACTIVE_WINDOW"])
+  const match = output.match(/window id # (0x[0-9a-f]+)/i)
+  const id = match ? parseInt(match[1], 16) : 0
+  return id > 0 ? { id } : null
+}
+
+/**
+ * Asks the system which window has the keyboard focus. Resolves to null when
+ * that cannot be told, e.g. on Wayland or without the needed permission.
+ */
+export async function getActiveWindow(): Promise<ActiveWindow | null> {
+  try {
+    switch (process.platform) {
+      case "darwin":
+        return await getMacActiveWindow()
+      case "win32":
+        return await getWindowsActiveWindow()
+      case "linux":
+        return await getLinuxActiveWindow()
+      default:
+        return null
+    }
+  } catch (error) {
+    console.warn("[ActiveWindow] Could not find the focused window:", error)
+    return null
+  }
+}
+
+// desktopCapturer window sources have ids of the form "window:<native handle>:<n>"
+export function getSourceWindowId(sourceId: string): number | undefined {
+  const match = sourceId.match(/^window:(\d+):/)
+  return match ? Number(match[1]) : undefined
+}
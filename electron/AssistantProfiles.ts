@@ -0,0 +1,108 @@
+// AssistantProfiles.ts
+
+import { ProviderId } from "./LLMProvider"
+import { DEFAULT_PROFILE_ID, PromptTemplateId, PromptTemplateOverride, TRANSCRIPT_SECTION } from "./PromptTemplateHelper"
+
+export { DEFAULT_PROFILE_ID }
+
+/**
+ * "code" runs the structured pipeline (extract the problem, then a solution
+ * with code and complexity); "answer" streams a free-text answer.
+ */
+export type ProfileLayout = "code" | "answer"
+
+export interface AssistantProfile {
+  id: string
+  name: string
+  description: string
+  layout: ProfileLayout
+  // Switched to when the profile is activated; the user can still switch afterwards
+  provider?: ProviderId
+  model?: string
+  // Default for {{language}}
+  language?: string
+  // Replaces the built-in templates while the profile is active
+  templates?: Partial<Record<PromptTemplateId, PromptTemplateOverride>>
+}
+
+const CODING_SOLUTION_TEMPLATE = `{{system}}${TRANSCRIPT_SECTION}
+
+Given this coding problem:
+{{problem}}
+
+Solve it{{#language}} in {{language}}{{/language}} and reply in this JSON format:
+{
+  "solution": {
+    "code": "The complete, runnable solution.",
+    "language": "The programming language of the code.",
+    "thoughts": ["Key insight behind the approach", "..."],
+    "time_complexity": "Big-O time complexity with a one-line justification.",
+    "space_complexity": "Big-O space complexity with a one-line justification."
+  }
+}
+Important: Return ONLY the JSON object, without any markdown formatting or code blocks.`
+
+export const BUILT_IN_PROFILES: AssistantProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: "General",
+    description: "Helpful answers for any kind of problem or situation",
+    layout: "answer"
+  },
+  {
+    id: "coding-interview",
+    name: "Coding interview",
+    description: "Solves the coding problem on screen with code and complexity",
+    layout: "code",
+    language: "Python",
+    templates: {
+      system: {
+        body: `You are an expert competitive programmer helping in a live coding interview. Read the problem carefully, pick the most efficient correct approach, and explain it briefly the way a strong candidate would say it out loud.{{#language}} Write all code in {{language}}.{{/language}}`
+      },
+      "generate-solution": { body: CODING_SOLUTION_TEMPLATE }
+    }
+  },
+  {
+    id: "meeting",
+    name: "Meeting",
+    description: "Summaries, action items and things to say next",
+    layout: "answer",
+    templates: {
+      system: {
+        body: "You are a discreet meeting assistant. Summarize what is being discussed in a few bullet points, list decisions and action items with owners when they are mentioned, and suggest one or two concise things the user could say or ask next."
+      }
+    }
+  },
+  {
+    id: "sales",
+    name: "Sales call",
+    description: "Objection handling and next steps for sales conversations",
+    layout: "answer",
+    templates: {
+      system: {
+        body: "You are a sales coach listening in on a call. Identify the prospect's needs, concerns and objections, and suggest short, natural responses that address them, ask good discovery questions and move toward a clear next step. Never invent product facts."
+      }
+    }
+  },
+  {
+    id: "support",
+    name: "Customer support",
+    description: "Troubleshooting steps and customer-ready replies",
+    layout: "answer",
+    templates: {
+      system: {
+        body: "You are a customer support specialist. Work out what the customer is trying to do and what went wrong, give the most likely fixes as numbered troubleshooting steps, and draft a friendly, concise reply the user can send to the customer."
+      }
+    }
+  }
+]
+
+// Built-in profiles followed by the user's own; a custom profile with a built-in id replaces it
+export function listProfiles(customProfiles: AssistantProfile[] = []): AssistantProfile[] {
+  const customIds = new Set(customProfiles.map((profile) => profile.id))
+  return [...BUILT_IN_PROFILES.filter((profile) => !customIds.has(profile.id)), ...customProfiles]
+}
+
+export function findProfile(id: string, customProfiles: AssistantProfile[] = []): AssistantProfile | undefined {
+  return listProfiles(customProfiles).find((profile) => profile.id === id)
+}
@@ -0,0 +1,74 @@
+// CaptureDisplays.ts
+
+import { Display, Point, screen } from "electron"
+import screenshot from "screenshot-desktop"
+
+// Which display screenshots are taken of: the one under the mouse cursor,
+// the primary one, or a specific display by its Electron id
+export type CaptureDisplay = "cursor" | "primary" | number
+
+// screenshot-desktop reports a position on Linux (offsetX/Y) and Windows
+// (left/top) in physical pixels, and only names on macOS
+interface ScreenshotDisplay extends screenshot.Display {
+  offsetX?: number
+  offsetY?: number
+  left?: number
+  top?: number
+}
+
+function byOrigin(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  return a.x - b.x || a.y - b.y
+}
+
+export function isOnAnyDisplay(point: Point): boolean {
+  return screen.getAllDisplays().some(({ workArea }) =>
+    point.x >= workArea.x && point.x < workArea.x + workArea.width &&
+    point.y >= workArea.y && point.y < workArea.y + workArea.height
+  )
+}
+
+// A chosen display that has been unplugged falls back to the one under the cursor
+export function resolveCaptureDisplay(target: CaptureDisplay): Display {
+  if (target === "primary") return screen.getPrimaryDisplay()
+  if (typeof target === "number") {
+    const display = screen.getAllDisplays().find(({ id }) => id === target)
+    if (display) return display
+    console.warn(`Display ${target} is not connected, capturing the display under the cursor instead`)
+  }
+  return screen.getDisplayNearestPoint(screen.getCursorScreenPoint())
+}
+
+export function describeDisplay(display: Display, index: number): string {
+  const name = display.label || `Display ${index + 1}`
+  return `${name} (${display.size.width}×${display.size.height})`
+}
+
+/**
+ * Finds the screenshot-desktop screen id of an Electron display. The two
+ * number displays differently, so they are matched by position where the
+ * platform reports one, and primary-first order on macOS. Returns undefined
+ * (the library's default screen) when there is only one display or the
+ * lists disagree.
+ */
+export async function getScreenshotScreenId(display: Display): Promise<screenshot.DisplayID | undefined> {
+  const displays = screen.getAllDisplays()
+  if (displays.length <= 1) return undefined
+
+  const screens: ScreenshotDisplay[] = await screenshot.listDisplays()
+  if (screens.length !== displays.length) {
+    console.warn(`Found ${displays.length} displays but can capture ${screens.length}; capturing the default screen`)
+    return undefined
+  }
+
+  if (screens.every((entry) => entry.offsetX !== undefined || entry.left !== undefined)) {
+    const sortedScreens = screens
+      .map((entry) => ({ id: entry.id, x: entry.offsetX ?? entry.left ?? 0, y: entry.offsetY ?? entry.top ?? 0 }))
+      .sort(byOrigin)
+    const sortedDisplays = displays.map((entry) => ({ id: entry.id, ...entry.bounds })).sort(byOrigin)
+    return sortedScreens[sortedDisplays.findIndex(({ id }) => id === display.id)]?.id
+  }
+
+  const primary = screen.getPrimaryDisplay()
+  const ordered = [primary, ...displays.filter(({ id }) => id !== primary.id)]
+  return screens[ordered.findIndex(({ id }) => id === display.id)]?.id
+}
@@ -0,0 +1,197 @@
+// ConversationHelper.ts
+
+import { v4 as uuidv4 } from "uuid"
+import { ChatMessage } from "./LLMProvider"
+
+// Rough context budget in characters (~4 characters per token)
+const MAX_CONTEXT_CHARS = 24000
+// Messages always sent verbatim, even when older ones are summarized
+const RECENT_MESSAGES_TO_KEEP = 6
+const TITLE_LENGTH = 40
+
+export interface ConversationMessage {
+  role: "user" | "assistant"
+  content: string
+  timestamp: number
+}
+
+export interface Conversation {
+  id: string
+  title: string
+  messages: ConversationMessage[]
+  // Summary of messages[0..summarizedCount), sent in place of those messages
+  summary?: string
+  summarizedCount: number
+  parentId?: string
+  createdAt: number
+  updatedAt: number
+}
+
+export interface ConversationInfo {
+  id: string
+  title: string
+  messageCount: number
+  parentId?: string
+  updatedAt: number
+}
+
+/**
+ * Keeps the Queue chat conversations in memory and decides which part of a
+ * conversation is sent to the model on each turn.
+ */
+export class ConversationHelper {
+  private conversations: Map<string, Conversation> = new Map()
+  private activeConversationId: string | null = null
+
+  public createConversation(): Conversation {
+    const now = Date.now()
+    const conversation: Conversation = {
+      id: uuidv4(),
+      title: "New conversation",
+      messages: [],
+      summarizedCount: 0,
+      createdAt: now,
+      updatedAt: now
+    }
+    this.conversations.set(conversation.id, conversation)
+    this.activeConversationId = conversation.id
+    return conversation
+  }
+
+  public getConversation(id: string): Conversation | undefined {
+    return this.conversations.get(id)
+  }
+
+  // Returns the active conversation, starting one if there is none yet
+  public getActiveConversation(): Conversation {
+    const active = this.activeConversationId ? this.conversations.get(this.activeConversationId) : undefined
+    return active || this.createConversation()
+  }
+
+  public setActiveConversation(id: string): Conversation {
+    const conversation = this.requireConversation(id)
+    this.activeConversationId = id
+    return conversation
+  }
+
+  public listConversations(): ConversationInfo[] {
+    return Array.from(this.conversations.values())
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map((conversation) => ({
+        id: conversation.id,
+        title: conversation.title,
+        messageCount: conversation.messages.length,
+        parentId: conversation.parentId,
+        updatedAt: conversation.updatedAt
+      }))
+  }
+
+  public clearConversation(id: string): Conversation {
+    const conversation = this.requireConversation(id)
+    conversation.messages = []
+    conversation.summary = undefined
+    conversation.summarizedCount = 0
+    conversation.title = "New conversation"
+    conversation.updatedAt = Date.now()
+    return conversation
+  }
+
+  /**
+   * Copies a conversation (up to and including `messageIndex`, or all of it)
+   * into a new active conversation so an alternative follow-up can be explored.
+   */
+  public forkConversation(id: string, messageIndex?: number): Conversation {
+    const source = this.requireConversation(id)
+    const count = messageIndex === undefined
+      ? source.messages.length
+      : Math.max(0, Math.min(messageIndex + 1, source.messages.length))
+    // The summary only stays valid if every summarized message is kept
+    const keepSummary = source.summarizedCount <= count
+
+    const now = Date.now()
+    const fork: Conversation = {
+      id: uuidv4(),
+      title: `${source.title} (fork)`,
+      messages: source.messages.slice(0, count).map((message) => ({ ...message })),
+      summary: keepSummary ? source.summary : undefined,
+      summarizedCount: keepSummary ? source.summarizedCount : 0,
+      parentId: source.id,
+      createdAt: now,
+      updatedAt: now
+    }
+    this.conversations.set(fork.id, fork)
+    this.activeConversationId = fork.id
+    return fork
+  }
+
+  public addExchange(id: string, userMessage: string, assistantMessage: string): Conversation {
+    const conversation = this.requireConversation(id)
+    const now = Date.now()
+    if (conversation.messages.length === 0) {
+      conversation.title = userMessage.length > TITLE_LENGTH
+        ? `${userMessage.slice(0, TITLE_LENGTH).trim()}…`
+        : userMessage
+    }
+    conversation.messages.push(
+      { role: "user", content: userMessage, timestamp: now },
+      { role: "assistant", content: assistantMessage, timestamp: now }
+    )
+    conversation.updatedAt = now
+    return conversation
+  }
+
+  /**
+   * Messages that should be folded into the summary before the next turn, or an
+   * empty list while the unsummarized history still fits the context budget.
+   */
+  public getMessagesToSummarize(id: string, pendingMessage: string): ConversationMessage[] {
+    const conversation = this.requireConversation(id)
+    const unsummarized = conversation.messages.slice(conversation.summarizedCount)
+    if (unsummarized.length <= RECENT_MESSAGES_TO_KEEP) return []
+    if (this.countChars(conversation, unsummarized) + pendingMessage.length <= MAX_CONTEXT_CHARS) return []
+    return unsummarized.slice(0, unsummarized.length - RECENT_MESSAGES_TO_KEEP)
+  }
+
+  public applySummary(id: string, summary: string, summarizedMessages: number): void {
+    const conversation = this.requireConversation(id)
+    conversation.summary = summary
+    conversation.summarizedCount += summarizedMessages
+  }
+
+  /**
+   * Builds the messages sent to the model: the summary of older turns, the
+   * remaining history and the new user message. If the history still exceeds
+   * the budget (e.g. summarizing failed) the oldest messages are dropped.
+   */
+  public buildContext(id: string, pendingMessage: string): ChatMessage[] {
+    const conversation = this.requireConversation(id)
+    let history = conversation.messages.slice(conversation.summarizedCount)
+    while (history.length > 0 && this.countChars(conversation, history) + pendingMessage.length > MAX_CONTEXT_CHARS) {
+      history = history.slice(1)
+    }
+    // Keep the history starting on a user turn
+    if (history[0]?.role === "assistant") {
+      history = history.slice(1)
+    }
+
+    const messages: ChatMessage[] = []
+    if (conversation.summary) {
+      messages.push({ role: "system", content: `Summary of the earlier conversation:\n${conversation.summary}` })
+    }
+    history.forEach((message) => messages.push({ role: message.role, content: message.content }))
+    messages.push({ role: "user", content: pendingMessage })
+    return messages
+  }
+
+  private countChars(conversation: Conversation, messages: ConversationMessage[]): number {
+    return (conversation.summary?.length || 0) + messages.reduce((total, message) => total + message.content.length, 0)
+  }
+
+  private requireConversation(id: string): Conversation {
+    const conversation = this.conversations.get(id)
+    if (!conversation) {
+      throw new Error(`Conversation ${id} not found`)
+    }
+    return conversation
+  }
+}
@@ -0,0 +1,194 @@
+// CredentialsHelper.ts
+
+import { app, safeStorage } from "electron"
+import crypto from "node:crypto"
+import fs from "node:fs"
+import path from "node:path"
+import { ProviderId } from "./LLMProvider"
+
+// Providers that authenticate with an API key
+export const API_KEY_PROVIDERS: ProviderId[] = ["gemini", "openai-compatible"]
+
+const ENV_API_KEYS: Partial<Record<ProviderId, string>> = {
+  gemini: "GEMINI_API_KEY",
+  "openai-compatible": "OPENAI_COMPATIBLE_API_KEY"
+}
+
+type CredentialBackend = "safeStorage" | "file"
+
+interface StoredCredential {
+  backend: CredentialBackend
+  // Base64 ciphertext; for the file backend it is iv + auth tag + ciphertext
+  data: string
+  updatedAt: number
+}
+
+export interface ApiKeyStatus {
+  provider: ProviderId
+  // Masked for display, e.g. "AIza••••9Qk2"; the full key never leaves the main process
+  masked: string | null
+  source: "stored" | "env" | null
+  updatedAt?: number
+}
+
+export function maskApiKey(key: string): string {
+  if (key.length <= 8) return "••••••••"
+  return `${key.slice(0, 4)}••••${key.slice(-4)}`
+}
+
+/**
+ * API keys encrypted with Electron safeStorage (the OS keychain). Where that is
+ * unavailable, e.g. headless Linux without a keyring, or CREDENTIALS_STORE=file,
+ * keys are encrypted with a random key kept in a user-only file next to them.
+ * safeStorage needs the app to be ready, so create this after the ready event.
+ */
+export class CredentialsHelper {
+  private readonly credentialsPath: string
+  private readonly fileKeyPath: string
+  private readonly backend: CredentialBackend
+  private credentials: Partial<Record<ProviderId, StoredCredential>> = {}
+
+  constructor() {
+    const userData = app.getPath("userData")
+    this.credentialsPath = path.join(userData, "credentials.json")
+    this.fileKeyPath = path.join(userData, "credentials.key")
+    this.backend = this.selectBackend()
+    console.log(`[CredentialsHelper] Storing API keys with ${this.backend === "safeStorage" ? "the OS keychain" : "the file fallback"}`)
+
+    if (fs.existsSync(this.credentialsPath)) {
+      this.load()
+    } else {
+      this.importFromEnv()
+    }
+  }
+
+  private selectBackend(): CredentialBackend {
+    if (process.env.CREDENTIALS_STORE === "file") return "file"
+    if (!safeStorage.isEncryptionAvailable()) return "file"
+    // Without a keyring Linux falls back to a hard-coded password, which is no better than the file
+    if (process.platform === "linux" && safeStorage.getSelectedStorageBackend() === "basic_text") return "file"
+    return "safeStorage"
+  }
+
+  private load(): void {
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.credentialsPath, "utf8"))
+      this.credentials = raw.keys || {}
+    } catch (error) {
+      console.error("[CredentialsHelper] Could not read stored API keys:", error)
+      this.credentials = {}
+    }
+  }
+
+  // Keys already in .env are encrypted on first run so they can be removed from it
+  private importFromEnv(): void {
+    for (const provider of API_KEY_PROVIDERS) {
+      const key = this.getEnvKey(provider)
+      if (key) this.setKey(provider, key)
+    }
+    this.save()
+  }
+
+  private save(): void {
+    try {
+      const tempPath = `${this.credentialsPath}.tmp`
+      fs.writeFileSync(tempPath, JSON.stringify({ version: 1, keys: this.credentials }, null, 2), { mode: 0o600 })
+      fs.renameSync(tempPath, this.credentialsPath)
+    } catch (error) {
+      console.error("[CredentialsHelper] Failed to save API keys:", error)
+    }
+  }
+
+  private getEnvKey(provider: ProviderId): string | undefined {
+    const name = ENV_API_KEYS[provider]
+    return (name && process.env[name]) || undefined
+  }
+
+  private getFileKey(): Buffer {
+    if (fs.existsSync(this.fileKeyPath)) {
+      return Buffer.from(fs.readFileSync(this.fileKeyPath, "utf8"), "base64")
+    }
+    const key = crypto.randomBytes(32)
+    fs.writeFileSync(this.fileKeyPath, key.toString("base64"), { mode: 0o600 })
+    return key
+  }
+
+  private encrypt(plainText: string): StoredCredential {
+    if (this.backend === "safeStorage") {
+      return { backend: "safeStorage", data: safeStorage.encryptString(plainText).toString("base64"), updatedAt: Date.now() }
+    }
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.getFileKey(), iv)
+    const encrypted = Buffer.concat([cipher.update(plainText, "utf8"), cipher.final()])
+    return { backend: "file", data: Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64"), updatedAt: Date.now() }
+  }
+
+  private decrypt(credential: StoredCredential): string {
+    const data = Buffer.from(credential.data, "base64")
+    if (credential.backend === "safeStorage") {
+      return safeStorage.decryptString(data)
+    }
+    const decipher = crypto.createDecipheriv("aes-256-gcm", this.getFileKey(), data.subarray(0, 12))
+    decipher.setAuthTag(data.subarray(12, 28))
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString("utf8")
+  }
+
+  private getStoredKey(provider: ProviderId): string | undefined {
+    const credential = this.credentials[provider]
+    if (!credential) return undefined
+    try {
+      return this.decrypt(credential)
+    } catch (error) {
+      console.error(`[CredentialsHelper] Could not decrypt the ${provider} API key:`, error)
+      return undefined
+    }
+  }
+
+  /**
+   * The key to use for a provider: the stored one, otherwise the one in .env.
+   * With SETTINGS_ENV_OVERRIDE=true the .env key wins.
+   */
+  public getKey(provider: ProviderId): string | undefined {
+    if (process.env.SETTINGS_ENV_OVERRIDE === "true") {
+      return this.getEnvKey(provider) || this.getStoredKey(provider)
+    }
+    return this.getStoredKey(provider) || this.getEnvKey(provider)
+  }
+
+  public setKey(provider: ProviderId, key: string): void {
+    if (!API_KEY_PROVIDERS.includes(provider)) {
+      throw new Error(`${provider} does not use an API key`)
+    }
+    const trimmed = key.trim()
+    if (!trimmed) {
+      throw new Error("The API key is empty")
+    }
+    this.credentials[provider] = this.encrypt(trimmed)
+    this.save()
+  }
+
+  public deleteKey(provider: ProviderId): void {
+    delete this.credentials[provider]
+    this.save()
+  }
+
+  public getStatus(provider: ProviderId): ApiKeyStatus {
+    const key = this.getKey(provider)
+    if (!key) return { provider, masked: null, source: null }
+    const stored = this.getStoredKey(provider) === key
+    return {
+      provider,
+      masked: maskApiKey(key),
+      source: stored ? "stored" : "env",
+      updatedAt: stored ? this.credentials[provider]?.updatedAt : undefined
+    }
+  }
+
+  public listStatuses(): ApiKeyStatus[] {
+    return API_KEY_PROVIDERS.map((provider) => this.getStatus(provider))
+  }
+
+  public isUsingKeychain(): boolean {
+    return this.backend === "safeStorage"
+  }
+}
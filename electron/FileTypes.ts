@@ -0,0 +1,141 @@
+// FileTypes.ts
+
+import fs from "node:fs"
+import path from "node:path"
+
+// How a queued file reaches the model: images and PDFs are attached, audio is
+// answered on its own and text files are read into the prompt
+export type QueuedFileKind = "image" | "pdf" | "audio" | "text"
+
+export interface FileType {
+  mimeType: string
+  kind: QueuedFileKind
+  // Extension of the copy kept in the queue
+  extension: string
+}
+
+interface KnownFileType extends FileType {
+  // Other extensions of the format, recognized when the content cannot tell
+  aliases?: string[]
+  // Recognizes the format by its first bytes; text formats have no signature
+  matches?: (header: Buffer) => boolean
+}
+
+// Larger files are refused when they are added
+export const MAX_FILE_SIZES: Record<QueuedFileKind, number> = {
+  image: 10 * 1024 * 1024,
+  pdf: 20 * 1024 * 1024,
+  audio: 20 * 1024 * 1024,
+  text: 1024 * 1024
+}
+
+// Enough to recognize every format below and to tell text from binary data
+const HEADER_BYTES = 4096
+
+const startsWith = (header: Buffer, signature: string, offset: number = 0): boolean =>
+  header.subarray(offset, offset + signature.length).toString("latin1") === signature
+
+const KNOWN_FILE_TYPES: KnownFileType[] = [
+  { mimeType: "image/png", kind: "image", extension: ".png", matches: (header) => startsWith(header, "\x89PNG\r\n\x1a\n") },
+  { mimeType: "image/jpeg", kind: "image", extension: ".jpg", aliases: [".jpeg"], matches: (header) => startsWith(header, "\xff\xd8\xff") },
+  { mimeType: "image/gif", kind: "image", extension: ".gif", matches: (header) => startsWith(header, "GIF87a") || startsWith(header, "GIF89a") },
+  { mimeType: "image/webp", kind: "image", extension: ".webp", matches: (header) => startsWith(header, "RIFF") && startsWith(header, "WEBP", 8) },
+  { mimeType: "application/pdf", kind: "pdf", extension: ".pdf", matches: (header) => startsWith(header, "%PDF-") },
+  {
+    mimeType: "audio/mpeg",
+    kind: "audio",
+    extension: ".mp3",
+    // An ID3 tag, or an MPEG audio frame (layer bits set, which rules out AAC)
+    matches: (header) => startsWith(header, "ID3") || (header[0] === 0xff && (header[1] & 0xe0) === 0xe0 && (header[1] & 0x06) !== 0)
+  },
+  { mimeType: "audio/wav", kind: "audio", extension: ".wav", matches: (header) => startsWith(header, "RIFF") && startsWith(header, "WAVE", 8) },
+  { mimeType: "audio/ogg", kind: "audio", extension: ".ogg", aliases: [".oga", ".opus"], matches: (header) => startsWith(header, "OggS") },
+  { mimeType: "audio/flac", kind: "audio", extension: ".flac", matches: (header) => startsWith(header, "fLaC") },
+  { mimeType: "audio/mp4", kind: "audio", extension: ".m4a", matches: (header) => startsWith(header, "ftypM4A", 4) },
+  { mimeType: "audio/webm", kind: "audio", extension: ".webm", matches: (header) => startsWith(header, "\x1a\x45\xdf\xa3") },
+  { mimeType: "text/markdown", kind: "text", extension: ".md", aliases: [".markdown"] },
+  { mimeType: "text/csv", kind: "text", extension: ".csv" },
+  { mimeType: "application/json", kind: "text", extension: ".json" },
+  {
+    mimeType: "text/plain",
+    kind: "text",
+    extension: ".txt",
+    aliases: [
+      ".log", ".py", ".js", ".jsx", ".ts", ".tsx", ".java", ".c", ".h", ".cc", ".cpp", ".hpp", ".cs", ".go",
+      ".rs", ".rb", ".php", ".swift", ".kt", ".scala", ".sql", ".sh", ".html", ".css", ".xml", ".yaml", ".yml", ".toml"
+    ]
+  }
+]
+
+const PLAIN_TEXT = KNOWN_FILE_TYPES[KNOWN_FILE_TYPES.length - 1]
+
+const toFileType = ({ mimeType, kind, extension }: KnownFileType): FileType => ({ mimeType, kind, extension })
+
+const hasExtension = (fileType: KnownFileType, extension: string): boolean =>
+  fileType.extension === extension || !!fileType.aliases?.includes(extension)
+
+// Extensions offered in the file-open dialog, without the dot
+export const SUPPORTED_EXTENSIONS = KNOWN_FILE_TYPES.flatMap((fileType) =>
+  [fileType.extension, ...(fileType.aliases || [])].map((extension) => extension.slice(1))
+)
+
+// UTF-8 without NUL bytes; a character cut off at the end of the header is allowed
+function isText(header: Buffer): boolean {
+  if (header.includes(0)) return false
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(header, { stream: true })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Works out what a file holds from its first bytes, so a renamed file is still
+ * sent with the right MIME type. Text has no signature: it is recognized by
+ * extension, or as plain text when the content reads as UTF-8. Resolves to
+ * null for anything else.
+ */
+export async function detectFileType(filePath: string): Promise<FileType | null> {
+  const handle = await fs.promises.open(filePath, "r")
+  let header: Buffer
+  try {
+    const buffer = Buffer.alloc(HEADER_BYTES)
+    const { bytesRead } = await handle.read(buffer, 0, HEADER_BYTES, 0)
+    header = buffer.subarray(0, bytesRead)
+  } finally {
+    await handle.close()
+  }
+
+  const byContent = KNOWN_FILE_TYPES.find((fileType) => fileType.matches?.(header))
+  if (byContent) return toFileType(byContent)
+  if (!isText(header)) return null
+  const extension = path.extname(filePath).toLowerCase()
+  const byExtension = KNOWN_FILE_TYPES.find((fileType) => fileType.kind === "text" && hasExtension(fileType, extension))
+  return toFileType(byExtension || PLAIN_TEXT)
+}
+
+/**
+ * The type of a file going by its extension alone. Meant for files in the
+ * queue, whose extension was set from their content when they were added.
+ */
+export function getFileType(filePath: string): FileType | undefined {
+  const extension = path.extname(filePath).toLowerCase()
+  const fileType = KNOWN_FILE_TYPES.find((candidate) => hasExtension(candidate, extension))
+  return fileType && toFileType(fileType)
+}
+
+export function getFileKind(filePath: string): QueuedFileKind | undefined {
+  return getFileType(filePath)?.kind
+}
+
+// Screenshots are PNG files, which is also assumed for anything unrecognized
+export function getMimeType(filePath: string): string {
+  return getFileType(filePath)?.mimeType || "image/png"
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, "")} MB`
+}
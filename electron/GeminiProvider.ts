@@ -0,0 +1,225 @@
+// GeminiProvider.ts
+
+import { GoogleGenerativeAI, GenerativeModel, GenerationConfig, InputContent, Part } from "@google/generative-ai"
+import { LLMProvider, ProviderConfig, ConnectionTestResult, ChatMessage, RequestOptions, StreamOptions, readFileAsBase64, throwIfAborted, withAbort } from "./LLMProvider"
+import { getMimeType } from "./FileTypes"
+import { JsonSchema } from "./StructuredOutput"
+
+const DEFAULT_GEMINI_MODEL = "gemini-2.0-flash"
+
+// Gemini's schema dialect uses upper-case OpenAPI type names
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  const base = { type: schema.type.toUpperCase(), ...(schema.description ? { description: schema.description } : {}) }
+  switch (schema.type) {
+    case "array":
+      return { ...base, items: toGeminiSchema(schema.items) }
+    case "object":
+      return {
+        ...base,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        ),
+        ...(schema.required ? { required: schema.required } : {})
+      }
+    default:
+      return base
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  public readonly id = "gemini" as const
+  public readonly displayName = "Gemini"
+
+  private model: GenerativeModel
+  private modelName: string
+  private apiKey: string
+  // Set once the API rejects JSON mode, so later calls skip it
+  private jsonModeUnsupported = false
+
+  constructor(config: ProviderConfig) {
+    if (!config.apiKey) {
+      throw new Error("No Gemini API key provided")
+    }
+    this.apiKey = config.apiKey
+    this.modelName = config.model || DEFAULT_GEMINI_MODEL
+    const genAI = new GoogleGenerativeAI(this.apiKey)
+    this.model = genAI.getGenerativeModel({ model: this.modelName })
+    console.log(`[GeminiProvider] Using Google Gemini: ${this.modelName}`)
+  }
+
+  public getModel(): string {
+    return this.modelName
+  }
+
+  public getConfig(): ProviderConfig {
+    return { model: this.modelName, apiKey: this.apiKey }
+  }
+
+  // Images and PDFs are both sent inline
+  private async fileToGenerativePart(filePath: string) {
+    return {
+      inlineData: {
+        data: await readFileAsBase64(filePath),
+        mimeType: getMimeType(filePath)
+      }
+    }
+  }
+
+  /**
+   * Runs generateContent, requesting JSON output when a schema is given. Older
+   * API versions reject the JSON fields; the call is then retried without them.
+   */
+  private async generate(parts: Array<string | Part>, options: RequestOptions): Promise<string> {
+    const request = {
+      contents: [{
+        role: "user",
+        parts: parts.map((part) => (typeof part === "string" ? { text: part } : part))
+      }]
+    }
+    if (options.responseSchema && !this.jsonModeUnsupported) {
+      const generationConfig = {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(options.responseSchema)
+      } as GenerationConfig
+      try {
+        const result = await withAbort(this.model.generateContent({ ...request, generationConfig }), options.signal)
+        return (await result.response).text()
+      } catch (error) {
+        if (!/response_?(mime_?type|schema)/i.test(error.message || "")) throw error
+        console.warn("[GeminiProvider] JSON mode not supported by this API version, falling back to plain text")
+        this.jsonModeUnsupported = true
+      }
+    }
+    const result = await withAbort(this.model.generateContent(request), options.signal)
+    const response = await result.response
+    return response.text()
+  }
+
+  public async generateText(prompt: string, options: RequestOptions = {}): Promise<string> {
+    return this.generate([prompt], options)
+  }
+
+  public async generateWithImages(prompt: string, imagePaths: string[], options: RequestOptions = {}): Promise<string> {
+    const imageParts = await Promise.all(imagePaths.map(path => this.fileToGenerativePart(path)))
+    return this.generate([prompt, ...imageParts], options)
+  }
+
+  public async generateWithAudio(prompt: string, data: string, mimeType: string, options: RequestOptions = {}): Promise<string> {
+    const audioPart = {
+      inlineData: {
+        data,
+        mimeType
+      }
+    }
+    const result = await withAbort(this.model.generateContent([prompt, audioPart]), options.signal)
+    const response = await result.response
+    return response.text()
+  }
+
+  public async streamText(prompt: string, onChunk: (chunk: string) => void, options: StreamOptions = {}): Promise<string> {
+    const imageParts = await Promise.all((options.imagePaths || []).map(path => this.fileToGenerativePart(path)))
+    throwIfAborted(options.signal)
+    const result = await withAbort(
+      this.model.generateContentStream(imageParts.length > 0 ? [prompt, ...imageParts] : prompt),
+      options.signal
+    )
+    let fullText = ""
+    // The SDK has no abort support, so stop consuming the stream once cancelled
+    for await (const chunk of result.stream) {
+      throwIfAborted(options.signal)
+      const text = chunk.text()
+      if (text) {
+        fullText += text
+        onChunk(text)
+      }
+    }
+    return fullText
+  }
+
+  /**
+   * Gemini has no system role and expects alternating user/model turns starting
+   * with the user, so system text is folded into the first user turn and
+   * consecutive turns from the same side are merged.
+   */
+  private toGeminiChat(messages: ChatMessage[]): { history: InputContent[]; message: string } {
+    const systemText = messages.filter(m => m.role === "system").map(m => m.content).join("\n\n")
+    const turns: Array<{ role: "user" | "model"; text: string }> = []
+    for (const message of messages) {
+      if (message.role === "system") continue
+      const role = message.role === "assistant" ? "model" : "user"
+      const previous = turns[turns.length - 1]
+      if (previous && previous.role === role) {
+        previous.text += `\n\n${message.content}`
+      } else {
+        turns.push({ role, text: message.content })
+      }
+    }
+
+    const last = turns.pop()
+    if (!last || last.role !== "user") {
+      throw new Error("The last chat message must come from the user")
+    }
+    if (systemText) {
+      if (turns.length > 0 && turns[0].role === "user") {
+        turns[0].text = `${systemText}\n\n${turns[0].text}`
+      } else if (turns.length > 0) {
+        turns.unshift({ role: "user", text: systemText })
+      } else {
+        last.text = `${systemText}\n\n${last.text}`
+      }
+    }
+
+    return {
+      history: turns.map(turn => ({ role: turn.role, parts: turn.text })),
+      message: last.text
+    }
+  }
+
+  public async chat(messages: ChatMessage[], options: RequestOptions = {}): Promise<string> {
+    const { history, message } = this.toGeminiChat(messages)
+    const session = this.model.startChat({ history })
+    const result = await withAbort(session.sendMessage(message), options.signal)
+    const response = await result.response
+    return response.text()
+  }
+
+  public async streamChat(messages: ChatMessage[], onChunk: (chunk: string) => void, options: RequestOptions = {}): Promise<string> {
+    const { history, message } = this.toGeminiChat(messages)
+    const session = this.model.startChat({ history })
+    const result = await withAbort(session.sendMessageStream(message), options.signal)
+    let fullText = ""
+    for await (const chunk of result.stream) {
+      throwIfAborted(options.signal)
+      const text = chunk.text()
+      if (text) {
+        fullText += text
+        onChunk(text)
+      }
+    }
+    return fullText
+  }
+
+  public async listModels(): Promise<string[]> {
+    return [this.modelName]
+  }
+
+  public async supportsVision(): Promise<boolean> {
+    return true
+  }
+
+  public supportsAudio(): boolean {
+    return true
+  }
+
+  public async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      const text = await this.generateText("Hello")
+      if (text) {
+        return { success: true }
+      }
+      return { success: false, error: "Empty response from Gemini" }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  }
+}
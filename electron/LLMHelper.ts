@@ -1,165 +1,301 @@
-import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai"
+import { LLMProvider, ProviderId, ProviderConfig, ConnectionTestResult, ChatMessage, RequestOptions, isAbortError } from "./LLMProvider"
+import { RetryOptions, getRetryOptionsFromEnv, withRetry } from "./LLMRetry"
+import { JsonSchema, StructuredOutputError, parseStructuredOutput } from "./StructuredOutput"
+import { ExtractedProblem, SolutionPayload, DebugPayload } from "./LLMSchemas"
+import { PromptTemplateHelper, PromptTemplateId, PromptVariables } from "./PromptTemplateHelper"
+import { GeminiProvider } from "./GeminiProvider"
+import { OllamaProvider } from "./OllamaProvider"
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider"
+import { SpeechToTextSettings, TranscriptionProvider } from "./TranscriptionProvider"
+import { WhisperTranscriptionProvider } from "./WhisperTranscriptionProvider"
+import { MockTranscriptionProvider } from "./MockTranscriptionProvider"
+import { getFileType } from "./FileTypes"
 import fs from "fs"
+import path from "path"
 
-interface OllamaResponse {
-  response: string
-  done: boolean
+export const PROVIDER_IDS: ProviderId[] = ["gemini", "ollama", "openai-compatible"]
+
+// How many times a reply that fails validation is sent back for correction
+const MAX_JSON_REPAIR_ATTEMPTS = 2
+
+export function createLLMProvider(id: ProviderId, config: ProviderConfig): LLMProvider {
+  switch (id) {
+    case "gemini":
+      return new GeminiProvider(config)
+    case "ollama":
+      return new OllamaProvider(config)
+    case "openai-compatible":
+      return new OpenAICompatibleProvider(config)
+    default:
+      throw new Error(`Unknown LLM provider: ${id}`)
+  }
+}
+
+// Speech-to-text used when audio is not sent to the model itself; none in "model" mode
+export function createTranscriptionProvider(settings: SpeechToTextSettings): TranscriptionProvider | null {
+  switch (settings.engine) {
+    case "model":
+      return null
+    case "mock":
+      return new MockTranscriptionProvider()
+    default:
+      return new WhisperTranscriptionProvider(settings.whisper)
+  }
+}
+
+function getAudioMimeType(filePath: string): string {
+  const fileType = getFileType(filePath)
+  if (fileType?.kind !== "audio") {
+    throw new Error(`Unsupported audio file: ${path.basename(filePath)}. Use an .mp3, .wav, .m4a, .ogg, .flac or .webm file`)
+  }
+  return fileType.mimeType
+}
+
+// A text file from the queue, sent inside the prompt
+export interface TextAttachment {
+  name: string
+  text: string
+}
+
+function withTextAttachments(prompt: string, textFiles: TextAttachment[] = []): string {
+  if (textFiles.length === 0) return prompt
+  const blocks = textFiles.map(({ name, text }) => `--- ${name} ---\n${text.trim() || "(empty file)"}`)
+  return `${prompt}\n\nThe user also attached these text files, which are part of the content:\n\n${blocks.join("\n\n")}`
+}
+
+// Audio sent as a speech-to-text transcript replaces the clip in the request
+function withAudioTranscript(prompt: string, transcript: string): string {
+  return `${prompt}\n\nThe audio clip is given as a transcript made with speech-to-text, which may contain recognition errors:\n\n${transcript.trim() || "(no speech found)"}`
+}
+
+// Screenshots sent as OCR text replace the images in the request
+function withScreenshotTexts(prompt: string, screenshotTexts: string[]): string {
+  const blocks = screenshotTexts.map((text, index) => `--- Screenshot ${index + 1} ---\n${text.trim() || "(no text found)"}`)
+  return `${prompt}\n\nThe screenshots are given as text read from them with OCR, which may contain recognition errors:\n\n${blocks.join("\n\n")}`
+}
+
+export interface ProviderUsage {
+  operation: string
+  providerId: ProviderId
+  model: string
+  // True when the active provider failed and a fallback answered
+  fallback: boolean
+}
+
+export interface LLMHelperOptions {
+  // Providers tried in order when the active one fails
+  fallbackProviders?: ProviderId[]
+  // Known settings for the other providers, used for fallbacks and switching
+  providerConfigs?: Partial<Record<ProviderId, ProviderConfig>>
+  retry?: RetryOptions
+  // Defaults to the built-in templates
+  promptTemplates?: PromptTemplateHelper
+  // Preferred programming language, passed to the templates as {{language}}
+  language?: string
+  // Recent live transcript, passed to the templates as {{transcript}}
+  getTranscript?: () => string
+  // Defaults to the model for audio when it takes audio, a local whisper server otherwise
+  speechToText?: SpeechToTextSettings
+  onProviderUsed?: (usage: ProviderUsage) => void
 }
 
 export class LLMHelper {
-  private model: GenerativeModel | null = null
-  private readonly systemPrompt = `You are Wingman AI, a helpful, proactive assistant for any kind of problem or situation (not just coding). For any user input, analyze the situation, provide a clear problem statement, relevant context, and suggest several possible responses or actions the user could take next. Always explain your reasoning. Present your suggestions as a list of options or next steps.`
-  private useOllama: boolean = false
-  private ollamaModel: string = "llama3.2"
-  private ollamaUrl: string = "http://localhost:11434"
-
-  constructor(apiKey?: string, useOllama: boolean = false, ollamaModel?: string, ollamaUrl?: string) {
-    this.useOllama = useOllama
-    
-    if (useOllama) {
-      this.ollamaUrl = ollamaUrl || "http://localhost:11434"
-      this.ollamaModel = ollamaModel || "gemma:latest" // Default fallback
-      console.log(`[LLMHelper] Using Ollama with model: ${this.ollamaModel}`)
-      
-      // Auto-detect and use first available model if specified model doesn't exist
-      this.initializeOllamaModel()
-    } else if (apiKey) {
-      const genAI = new GoogleGenerativeAI(apiKey)
-      this.model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" })
-      console.log("[LLMHelper] Using Google Gemini")
-    } else {
-      throw new Error("Either provide Gemini API key or enable Ollama mode")
-    }
+  private provider: LLMProvider
+  // Last configuration used per provider, so switching back can reuse e.g. an API key
+  private providerConfigs: Partial<Record<ProviderId, ProviderConfig>> = {}
+  private fallbackProviderIds: ProviderId[]
+  // Fallback instances are created (and initialized) on first use
+  private fallbackProviders: Map<ProviderId, Promise<LLMProvider | null>> = new Map()
+  private retryOptions: RetryOptions
+  private onProviderUsed?: (usage: ProviderUsage) => void
+  private promptTemplates: PromptTemplateHelper
+  private language?: string
+  private getTranscript?: () => string
+  private speechToText: SpeechToTextSettings
+  private transcriptionProvider: TranscriptionProvider | null
+
+  constructor(providerId: ProviderId, config: ProviderConfig = {}, options: LLMHelperOptions = {}) {
+    this.provider = createLLMProvider(providerId, config)
+    this.providerConfigs = { ...options.providerConfigs, [providerId]: config }
+    this.fallbackProviderIds = options.fallbackProviders || []
+    this.retryOptions = options.retry || getRetryOptionsFromEnv()
+    this.onProviderUsed = options.onProviderUsed
+    this.promptTemplates = options.promptTemplates || new PromptTemplateHelper()
+    this.language = options.language
+    this.getTranscript = options.getTranscript
+    this.speechToText = options.speechToText || { engine: "auto", whisper: { url: "", api: "whisper.cpp", model: "", language: "" } }
+    this.transcriptionProvider = createTranscriptionProvider(this.speechToText)
+    console.log(`[LLMHelper] Using ${this.provider.displayName}${this.fallbackProviderIds.length > 0 ? ` (fallbacks: ${this.fallbackProviderIds.join(", ")})` : ""}`)
+
+    // Auto-detect models etc. in the background; failures are logged by the provider
+    this.provider.initialize?.().catch((error) => {
+      console.error(`[LLMHelper] Failed to initialize ${this.provider.displayName}:`, error)
+    })
   }
 
-  private async fileToGenerativePart(imagePath: string) {
-    const imageData = await fs.promises.readFile(imagePath)
-    return {
-      inlineData: {
-        data: imageData.toString("base64"),
-        mimeType: "image/png"
-      }
+  private getFallbackProvider(id: ProviderId): Promise<LLMProvider | null> {
+    let pending = this.fallbackProviders.get(id)
+    if (!pending) {
+      pending = (async () => {
+        try {
+          const provider = createLLMProvider(id, this.providerConfigs[id] || {})
+          await provider.initialize?.()
+          return provider
+        } catch (error) {
+          console.warn(`[LLMHelper] Fallback provider ${id} is unavailable:`, error.message)
+          return null
+        }
+      })()
+      this.fallbackProviders.set(id, pending)
     }
+    return pending
   }
 
-  private cleanJsonResponse(text: string): string {
-    // Remove markdown code block syntax if present
-    text = text.replace(/^```(?:json)?\n/, '').replace(/\n```$/, '');
-    // Remove any leading/trailing whitespace
-    text = text.trim();
-    return text;
+  private async getProviderChain(): Promise<LLMProvider[]> {
+    const fallbacks = await Promise.all(
+      this.fallbackProviderIds
+        .filter((id) => id !== this.provider.id)
+        .map((id) => this.getFallbackProvider(id))
+    )
+    return [this.provider, ...fallbacks.filter((provider): provider is LLMProvider => provider !== null)]
   }
 
-  private async callOllama(prompt: string): Promise<string> {
-    try {
-      const response = await fetch(`${this.ollamaUrl}/api/generate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: this.ollamaModel,
-          prompt: prompt,
-          stream: false,
-          options: {
-            temperature: 0.7,
-            top_p: 0.9,
-          }
-        }),
-      })
-
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`)
+  /**
+   * Runs `call` against the active provider with retries, then against each
+   * fallback provider in order, and reports which provider answered.
+   * `canRetry` lets streaming calls stop retrying once text has been shown.
+   */
+  private async runWithFallback<T>(
+    operation: string,
+    call: (provider: LLMProvider) => Promise<T>,
+    signal?: AbortSignal,
+    canRetry: () => boolean = () => true
+  ): Promise<T> {
+    const chain = await this.getProviderChain()
+    let lastError: any
+    for (let index = 0; index < chain.length; index++) {
+      const provider = chain[index]
+      try {
+        const result = await withRetry(() => call(provider), this.retryOptions, signal, canRetry)
+        this.onProviderUsed?.({ operation, providerId: provider.id, model: provider.getModel(), fallback: index > 0 })
+        return result
+      } catch (error) {
+        if (isAbortError(error) || !canRetry()) throw error
+        lastError = error
+        if (index < chain.length - 1) {
+          console.warn(`[LLMHelper] ${provider.displayName} failed for ${operation}, falling back to ${chain[index + 1].displayName}:`, error.message)
+        }
       }
-
-      const data: OllamaResponse = await response.json()
-      return data.response
-    } catch (error) {
-      console.error("[LLMHelper] Error calling Ollama:", error)
-      throw new Error(`Failed to connect to Ollama: ${error.message}. Make sure Ollama is running on ${this.ollamaUrl}`)
     }
+    throw lastError
   }
 
-  private async checkOllamaAvailable(): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.ollamaUrl}/api/tags`)
-      return response.ok
-    } catch {
-      return false
+  // Streams through runWithFallback, retrying only until the first chunk arrives
+  private async runStreamWithFallback(
+    operation: string,
+    onChunk: (chunk: string) => void,
+    call: (provider: LLMProvider, onChunk: (chunk: string) => void) => Promise<string>,
+    signal?: AbortSignal
+  ): Promise<string> {
+    let emitted = false
+    const forward = (chunk: string) => {
+      emitted = true
+      onChunk(chunk)
     }
+    return this.runWithFallback(operation, (provider) => call(provider, forward), signal, () => !emitted)
   }
 
-  private async initializeOllamaModel(): Promise<void> {
-    try {
-      const availableModels = await this.getOllamaModels()
-      if (availableModels.length === 0) {
-        console.warn("[LLMHelper] No Ollama models found")
-        return
-      }
-
-      // Check if current model exists, if not use the first available
-      if (!availableModels.includes(this.ollamaModel)) {
-        this.ollamaModel = availableModels[0]
-        console.log(`[LLMHelper] Auto-selected first available model: ${this.ollamaModel}`)
-      }
-
-      // Test the selected model works
-      const testResult = await this.callOllama("Hello")
-      console.log(`[LLMHelper] Successfully initialized with model: ${this.ollamaModel}`)
-    } catch (error) {
-      console.error(`[LLMHelper] Failed to initialize Ollama model: ${error.message}`)
-      // Try to use first available model as fallback
+  /**
+   * Runs a request that must return JSON matching `schema`. Replies are parsed
+   * tolerantly; if one still fails validation the error is sent back to the
+   * model, up to MAX_JSON_REPAIR_ATTEMPTS times, before giving up.
+   */
+  private async generateStructured<T>(
+    schema: JsonSchema,
+    generate: (options: RequestOptions) => Promise<string>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    let reply = await generate({ signal, responseSchema: schema })
+    for (let attempt = 1; ; attempt++) {
       try {
-        const models = await this.getOllamaModels()
-        if (models.length > 0) {
-          this.ollamaModel = models[0]
-          console.log(`[LLMHelper] Fallback to: ${this.ollamaModel}`)
+        return parseStructuredOutput<T>(reply, schema)
+      } catch (error) {
+        if (!(error instanceof StructuredOutputError)) throw error
+        if (attempt > MAX_JSON_REPAIR_ATTEMPTS) {
+          throw new StructuredOutputError(`The model did not return usable JSON after ${attempt} attempts. ${error.message}`)
         }
-      } catch (fallbackError) {
-        console.error(`[LLMHelper] Fallback also failed: ${fallbackError.message}`)
+        console.warn(`[LLMHelper] Invalid structured reply (attempt ${attempt}), asking for a correction:`, error.message)
+        const repairPrompt = `Your previous reply could not be used: ${error.message}\n\nIt must be a single JSON object matching this JSON schema:\n${JSON.stringify(schema, null, 2)}\n\nYour previous reply was:\n${reply}\n\nReturn ONLY the corrected JSON object, without any markdown formatting or code blocks.`
+        reply = await this.runWithFallback("repair-json", (provider) => provider.generateText(repairPrompt, { signal, responseSchema: schema }), signal)
       }
     }
   }
 
-  public async extractProblemFromImages(imagePaths: string[]) {
+  private renderPrompt(id: PromptTemplateId, variables: PromptVariables = {}): string {
+    return this.promptTemplates.render(id, { language: this.language, transcript: this.getTranscript?.(), ...variables })
+  }
+
+  /**
+   * Runs a template in its configured output format: JSON replies are parsed
+   * and validated against the template's schema, free-text replies are turned
+   * into the same shape with `fromText`.
+   */
+  private async generateFromTemplate<T>(
+    id: PromptTemplateId,
+    variables: PromptVariables,
+    generate: (prompt: string, options: RequestOptions) => Promise<string>,
+    fromText: (text: string) => T,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const template = this.promptTemplates.get(id)
+    const prompt = this.renderPrompt(id, variables)
+    if (template.outputFormat === "json" && template.schema) {
+      return this.generateStructured<T>(template.schema, (options) => generate(prompt, options), signal)
+    }
+    return fromText((await generate(prompt, { signal })).trim())
+  }
+
+  /**
+   * Sends a prompt with screenshots, as images or, when `screenshotTexts` is
+   * given, as their OCR text in a text-only request. `imagePaths` may also
+   * hold PDFs; `textFiles` are added to the prompt either way.
+   */
+  private generateWithScreenshots(operation: string, prompt: string, imagePaths: string[], options: RequestOptions, signal?: AbortSignal, screenshotTexts?: string[], textFiles?: TextAttachment[]): Promise<string> {
+    const fullPrompt = withTextAttachments(prompt, textFiles)
+    if (screenshotTexts || imagePaths.length === 0) {
+      const textPrompt = screenshotTexts ? withScreenshotTexts(fullPrompt, screenshotTexts) : fullPrompt
+      return this.runWithFallback(operation, (provider) => provider.generateText(textPrompt, options), signal)
+    }
+    return this.runWithFallback(operation, (provider) => provider.generateWithImages(fullPrompt, imagePaths, options), signal)
+  }
+
+  // `screenshotTexts` (one per image) sends the OCR text instead of the images
+  public async extractProblemFromImages(imagePaths: string[], signal?: AbortSignal, screenshotTexts?: string[], textFiles?: TextAttachment[]): Promise<ExtractedProblem> {
     try {
-      const imageParts = await Promise.all(imagePaths.map(path => this.fileToGenerativePart(path)))
-      
-      const prompt = `${this.systemPrompt}\n\nYou are a wingman. Please analyze these images and extract the following information in JSON format:\n{
-  "problem_statement": "A clear statement of the problem or situation depicted in the images.",
-  "context": "Relevant background or context from the images.",
-  "suggested_responses": ["First possible answer or action", "Second possible answer or action", "..."],
-  "reasoning": "Explanation of why these suggestions are appropriate."
-}\nImportant: Return ONLY the JSON object, without any markdown formatting or code blocks.`
-
-      const result = await this.model.generateContent([prompt, ...imageParts])
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
-      return JSON.parse(text)
+      return await this.generateFromTemplate<ExtractedProblem>(
+        "extract-problem",
+        { screenshotCount: imagePaths.length, multipleScreenshots: imagePaths.length > 1 },
+        (prompt, options) => this.generateWithScreenshots("extract-problem", prompt, imagePaths, options, signal, screenshotTexts, textFiles),
+        (text) => ({ problem_statement: text, suggested_responses: [] }),
+        signal
+      )
     } catch (error) {
       console.error("Error extracting problem from images:", error)
       throw error
     }
   }
 
-  public async generateSolution(problemInfo: any) {
-    const prompt = `${this.systemPrompt}\n\nGiven this problem or situation:\n${JSON.stringify(problemInfo, null, 2)}\n\nPlease provide your response in the following JSON format:\n{
-  "solution": {
-    "code": "The code or main answer here.",
-    "problem_statement": "Restate the problem or situation.",
-    "context": "Relevant background/context.",
-    "suggested_responses": ["First possible answer or action", "Second possible answer or action", "..."],
-    "reasoning": "Explanation of why these suggestions are appropriate."
-  }
-}\nImportant: Return ONLY the JSON object, without any markdown formatting or code blocks.`
-
-    console.log("[LLMHelper] Calling Gemini LLM for solution...");
+  // `language` asks for the code in that language instead of the preferred one
+  public async generateSolution(problemInfo: any, signal?: AbortSignal, language?: string): Promise<SolutionPayload> {
+    console.log(`[LLMHelper] Calling ${this.provider.displayName} for solution...`);
     try {
-      const result = await this.model.generateContent(prompt)
-      console.log("[LLMHelper] Gemini LLM returned result.");
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
-      const parsed = JSON.parse(text)
+      const parsed = await this.generateFromTemplate<SolutionPayload>(
+        "generate-solution",
+        { problem: JSON.stringify(problemInfo, null, 2), ...(language ? { language } : {}) },
+        (prompt, options) => this.runWithFallback("generate-solution", (provider) => provider.generateText(prompt, options), signal),
+        (text) => ({ solution: { code: text } }),
+        signal
+      )
       console.log("[LLMHelper] Parsed LLM response:", parsed)
       return parsed
     } catch (error) {
@@ -168,24 +304,27 @@ export class LLMHelper {
     }
   }
 
-  public async debugSolutionWithImages(problemInfo: any, currentCode: string, debugImagePaths: string[]) {
+  /**
+   * Revises the current answer using the debug screenshots. `codeRevisions`
+   * lists the answers shown so far, oldest first; the last one is the answer
+   * being debugged. `screenshotTexts` sends the screenshots' OCR text instead.
+   */
+  public async debugSolutionWithImages(problemInfo: any, codeRevisions: string[], debugImagePaths: string[], signal?: AbortSignal, screenshotTexts?: string[], textFiles?: TextAttachment[]): Promise<DebugPayload> {
     try {
-      const imageParts = await Promise.all(debugImagePaths.map(path => this.fileToGenerativePart(path)))
-      
-      const prompt = `${this.systemPrompt}\n\nYou are a wingman. Given:\n1. The original problem or situation: ${JSON.stringify(problemInfo, null, 2)}\n2. The current response or approach: ${currentCode}\n3. The debug information in the provided images\n\nPlease analyze the debug information and provide feedback in this JSON format:\n{
-  "solution": {
-    "code": "The code or main answer here.",
-    "problem_statement": "Restate the problem or situation.",
-    "context": "Relevant background/context.",
-    "suggested_responses": ["First possible answer or action", "Second possible answer or action", "..."],
-    "reasoning": "Explanation of why these suggestions are appropriate."
-  }
-}\nImportant: Return ONLY the JSON object, without any markdown formatting or code blocks.`
-
-      const result = await this.model.generateContent([prompt, ...imageParts])
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
-      const parsed = JSON.parse(text)
+      const earlierRevisions = codeRevisions.slice(0, -1)
+      const parsed = await this.generateFromTemplate<DebugPayload>(
+        "debug-solution",
+        {
+          problem: JSON.stringify(problemInfo, null, 2),
+          current: codeRevisions[codeRevisions.length - 1] || "",
+          history: earlierRevisions.map((code, index) => `--- Version ${index + 1} ---\n${code}`).join("\n"),
+          screenshotCount: debugImagePaths.length,
+          multipleScreenshots: debugImagePaths.length > 1
+        },
+        (prompt, options) => this.generateWithScreenshots("debug-solution", prompt, debugImagePaths, options, signal, screenshotTexts, textFiles),
+        (text) => ({ solution: { code: text } }),
+        signal
+      )
       console.log("[LLMHelper] Parsed debug LLM response:", parsed)
       return parsed
     } catch (error) {
@@ -194,19 +333,11 @@ export class LLMHelper {
     }
   }
 
-  public async analyzeAudioFile(audioPath: string) {
+  public async analyzeAudioFile(audioPath: string, signal?: AbortSignal) {
     try {
+      const mimeType = getAudioMimeType(audioPath);
       const audioData = await fs.promises.readFile(audioPath);
-      const audioPart = {
-        inlineData: {
-          data: audioData.toString("base64"),
-          mimeType: "audio/mp3"
-        }
-      };
-      const prompt = `${this.systemPrompt}\n\nDescribe this audio clip in a short, concise answer. In addition to your main answer, suggest several possible actions or responses the user could take next based on the audio. Do not return a structured JSON object, just answer naturally as you would to a user.`;
-      const result = await this.model.generateContent([prompt, audioPart]);
-      const response = await result.response;
-      const text = response.text();
+      const text = await this.analyzeAudio(audioData.toString("base64"), mimeType, signal);
       return { text, timestamp: Date.now() };
     } catch (error) {
       console.error("Error analyzing audio file:", error);
@@ -214,18 +345,9 @@ export class LLMHelper {
     }
   }
 
-  public async analyzeAudioFromBase64(data: string, mimeType: string) {
+  public async analyzeAudioFromBase64(data: string, mimeType: string, signal?: AbortSignal) {
     try {
-      const audioPart = {
-        inlineData: {
-          data,
-          mimeType
-        }
-      };
-      const prompt = `${this.systemPrompt}\n\nDescribe this audio clip in a short, concise answer. In addition to your main answer, suggest several possible actions or responses the user could take next based on the audio. Do not return a structured JSON object, just answer naturally as you would to a user and be concise.`;
-      const result = await this.model.generateContent([prompt, audioPart]);
-      const response = await result.response;
-      const text = response.text();
+      const text = await this.analyzeAudio(data, mimeType, signal);
       return { text, timestamp: Date.now() };
     } catch (error) {
       console.error("Error analyzing audio from base64:", error);
@@ -233,19 +355,57 @@ export class LLMHelper {
     }
   }
 
-  public async analyzeImageFile(imagePath: string) {
+  /**
+   * Answers an audio clip. Providers that take audio get the clip itself;
+   * for the others it is transcribed once, on first need, and the transcript
+   * is sent as text, so a fallback without audio support can still answer.
+   */
+  private async analyzeAudio(data: string, mimeType: string, signal?: AbortSignal): Promise<string> {
+    const prompt = this.renderPrompt("analyze-audio");
+    let transcript: Promise<string> | undefined;
+    const getClipTranscript = (speechToText: TranscriptionProvider) => {
+      if (!transcript) {
+        transcript = speechToText.transcribe(data, mimeType, { signal });
+        // A failed transcription is redone when the request is retried
+        transcript.catch((): void => { transcript = undefined; });
+      }
+      return transcript;
+    };
+    return this.runWithFallback("analyze-audio", async (provider) => {
+      const speechToText = this.getSpeechToText(provider);
+      if (!speechToText) return provider.generateWithAudio(prompt, data, mimeType, { signal });
+      return provider.generateText(withAudioTranscript(prompt, await getClipTranscript(speechToText)), { signal });
+    }, signal);
+  }
+
+  /**
+   * Transcribes one chunk of a live capture word for word. `previousText` is
+   * the end of the transcript so far, so words cut at the chunk boundary can
+   * be completed. Silence transcribes to an empty string.
+   */
+  public async transcribeAudio(data: string, mimeType: string, previousText: string, signal?: AbortSignal): Promise<string> {
+    const speechToText = this.getSpeechToText(this.provider);
+    if (speechToText) {
+      return (await withRetry(() => speechToText.transcribe(data, mimeType, { prompt: previousText, signal }), this.retryOptions, signal)).trim();
+    }
+    const prompt = `Transcribe the speech in this audio clip word for word. Reply with the transcript only, without timestamps, speaker names or comments. If nobody speaks, reply with nothing.${previousText ? `\n\nThe clip continues this transcript, for context only (do not repeat it):\n${previousText}` : ""}`;
+    return (await this.runWithFallback("transcribe", (provider) => provider.generateWithAudio(prompt, data, mimeType, { signal }), signal)).trim();
+  }
+
+  // The speech-to-text provider audio goes through for this model, or null to send the audio itself
+  private getSpeechToText(provider: LLMProvider): TranscriptionProvider | null {
+    if (this.speechToText.engine === "auto" && provider.supportsAudio()) return null;
+    return this.transcriptionProvider;
+  }
+
+  private getImageAnalysisPrompt(imageCount: number = 1): string {
+    return this.renderPrompt("analyze-image", { screenshotCount: imageCount, multipleScreenshots: imageCount > 1 });
+  }
+
+  // `screenshotText` sends the image's OCR text instead of the image
+  public async analyzeImageFile(imagePath: string, signal?: AbortSignal, screenshotText?: string) {
     try {
-      const imageData = await fs.promises.readFile(imagePath);
-      const imagePart = {
-        inlineData: {
-          data: imageData.toString("base64"),
-          mimeType: "image/png"
-        }
-      };
-      const prompt = `${this.systemPrompt}\n\nDescribe the content of this image in a short, concise answer. In addition to your main answer, suggest several possible actions or responses the user could take next based on the image. Do not return a structured JSON object, just answer naturally as you would to a user. Be concise and brief.`;
-      const result = await this.model.generateContent([prompt, imagePart]);
-      const response = await result.response;
-      const text = response.text();
+      const text = await this.generateWithScreenshots("analyze-image", this.getImageAnalysisPrompt(), [imagePath], { signal }, signal, screenshotText === undefined ? undefined : [screenshotText]);
       return { text, timestamp: Date.now() };
     } catch (error) {
       console.error("Error analyzing image file:", error);
@@ -253,108 +413,173 @@ export class LLMHelper {
     }
   }
 
-  public async chatWithGemini(message: string): Promise<string> {
+  /**
+   * Answers the last message of a conversation, sending the earlier turns as
+   * history so follow-up questions keep their context.
+   */
+  public async chat(messages: ChatMessage[], signal?: AbortSignal): Promise<string> {
     try {
-      if (this.useOllama) {
-        return this.callOllama(message);
-      } else if (this.model) {
-        const result = await this.model.generateContent(message);
-        const response = await result.response;
-        return response.text();
-      } else {
-        throw new Error("No LLM provider configured");
-      }
+      return await this.runWithFallback("chat", (provider) => provider.chat(messages, { signal }), signal);
     } catch (error) {
-      console.error("[LLMHelper] Error in chatWithGemini:", error);
+      console.error("[LLMHelper] Error in chat:", error);
       throw error;
     }
   }
 
-  public async chat(message: string): Promise<string> {
-    return this.chatWithGemini(message);
+  /**
+   * Condenses older conversation turns (plus any earlier summary) into a short
+   * summary that replaces them in later requests.
+   */
+  public async summarizeConversation(previousSummary: string | undefined, messages: ChatMessage[], signal?: AbortSignal): Promise<string> {
+    const transcript = messages
+      .map((message) => `${message.role === "assistant" ? "Assistant" : "User"}: ${message.content}`)
+      .join("\n\n");
+    const prompt = `Summarize the following conversation between a user and an assistant so it can be continued later. Keep facts, decisions, code identifiers and open questions; drop greetings and repetition. Reply with the summary only.\n\n${previousSummary ? `Summary so far:\n${previousSummary}\n\n` : ""}Conversation:\n${transcript}`;
+    return (await this.runWithFallback("summarize", (provider) => provider.generateText(prompt, { signal }), signal)).trim();
   }
 
-  public isUsingOllama(): boolean {
-    return this.useOllama;
+  /**
+   * Streams the same analysis as analyzeImageFile for one or more images (sent
+   * together, in order), calling onChunk for each piece of text as it arrives.
+   * `screenshotTexts` sends the images' OCR text instead of the images, and
+   * `textFiles` are added to the prompt.
+   */
+  public async streamImageAnalysis(imagePaths: string[], onChunk: (chunk: string) => void, signal?: AbortSignal, screenshotTexts?: string[], textFiles?: TextAttachment[]) {
+    const prompt = withTextAttachments(this.getImageAnalysisPrompt(imagePaths.length), textFiles);
+    const text = await this.runStreamWithFallback("analyze-image", onChunk, (provider, forward) =>
+      screenshotTexts
+        ? provider.streamText(withScreenshotTexts(prompt, screenshotTexts), forward, { signal })
+        : provider.streamText(prompt, forward, { imagePaths, signal }),
+      signal
+    );
+    return { text, timestamp: Date.now() };
   }
 
-  public async getOllamaModels(): Promise<string[]> {
-    if (!this.useOllama) return [];
-    
-    try {
-      const response = await fetch(`${this.ollamaUrl}/api/tags`);
-      if (!response.ok) throw new Error('Failed to fetch models');
-      
-      const data = await response.json();
-      return data.models?.map((model: any) => model.name) || [];
-    } catch (error) {
-      console.error("[LLMHelper] Error fetching Ollama models:", error);
-      return [];
-    }
+  public async streamChat(messages: ChatMessage[], onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<string> {
+    return this.runStreamWithFallback("chat", onChunk, (provider, forward) => provider.streamChat(messages, forward, { signal }), signal);
   }
 
-  public getCurrentProvider(): "ollama" | "gemini" {
-    return this.useOllama ? "ollama" : "gemini";
+  public getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  public getCurrentProvider(): ProviderId {
+    return this.provider.id;
   }
 
   public getCurrentModel(): string {
-    return this.useOllama ? this.ollamaModel : "gemini-2.0-flash";
-  }
-
-  public async switchToOllama(model?: string, url?: string): Promise<void> {
-    this.useOllama = true;
-    if (url) this.ollamaUrl = url;
-    
-    if (model) {
-      this.ollamaModel = model;
-    } else {
-      // Auto-detect first available model
-      await this.initializeOllamaModel();
+    return this.provider.getModel();
+  }
+
+  /**
+   * Whether the given model (default: the active one) accepts image input.
+   * Pass a provider id to ask about a provider other than the active one.
+   */
+  public async supportsVision(model?: string, providerId: ProviderId = this.provider.id, url?: string): Promise<boolean> {
+    if (providerId === this.provider.id && (!url || url === this.provider.getConfig().url)) {
+      return this.provider.supportsVision(model);
     }
-    
-    console.log(`[LLMHelper] Switched to Ollama: ${this.ollamaModel} at ${this.ollamaUrl}`);
+    if (providerId === "gemini") return true;
+    const config = { ...this.providerConfigs[providerId], ...(url ? { url } : {}) };
+    return createLLMProvider(providerId, config).supportsVision(model);
   }
 
-  public async switchToGemini(apiKey?: string): Promise<void> {
-    if (apiKey) {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      this.model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+  /**
+   * Lists models for a provider. Gemini needs no probe; the other providers are
+   * queried at `url` (or their last known URL) without switching to them.
+   */
+  public async getAvailableModels(providerId: ProviderId = this.provider.id, url?: string): Promise<string[]> {
+    if (providerId === this.provider.id && (!url || url === this.provider.getConfig().url)) {
+      return this.provider.listModels();
+    }
+    if (providerId === "gemini") {
+      return [this.providerConfigs.gemini?.model || "gemini-2.0-flash"];
     }
-    
-    if (!this.model && !apiKey) {
+    const config = { ...this.providerConfigs[providerId], ...(url ? { url } : {}) };
+    return createLLMProvider(providerId, config).listModels();
+  }
+
+  public async switchProvider(providerId: ProviderId, config: ProviderConfig = {}): Promise<void> {
+    // Drop empty values so they don't overwrite remembered settings
+    const overrides = Object.fromEntries(
+      Object.entries(config).filter(([, value]) => value !== undefined && value !== "")
+    ) as ProviderConfig;
+    const mergedConfig: ProviderConfig = { ...this.providerConfigs[providerId], ...overrides };
+
+    if (providerId === "gemini" && !mergedConfig.apiKey) {
       throw new Error("No Gemini API key provided and no existing model instance");
     }
-    
-    this.useOllama = false;
-    console.log("[LLMHelper] Switched to Gemini");
+
+    const provider = createLLMProvider(providerId, mergedConfig);
+    if (!overrides.model) {
+      await provider.initialize?.();
+    }
+
+    this.provider = provider;
+    this.providerConfigs[providerId] = mergedConfig;
+    // Fallbacks are rebuilt so they pick up the new settings
+    this.fallbackProviders.clear();
+    console.log(`[LLMHelper] Switched to ${provider.displayName}: ${provider.getModel()}`);
   }
 
-  public async testConnection(): Promise<{ success: boolean; error?: string }> {
-    try {
-      if (this.useOllama) {
-        const available = await this.checkOllamaAvailable();
-        if (!available) {
-          return { success: false, error: `Ollama not available at ${this.ollamaUrl}` };
-        }
-        // Test with a simple prompt
-        await this.callOllama("Hello");
-        return { success: true };
-      } else {
-        if (!this.model) {
-          return { success: false, error: "No Gemini model configured" };
-        }
-        // Test with a simple prompt
-        const result = await this.model.generateContent("Hello");
-        const response = await result.response;
-        const text = response.text(); // Ensure the response is valid
-        if (text) {
-          return { success: true };
-        } else {
-          return { success: false, error: "Empty response from Gemini" };
-        }
+  public getProviderConfig(providerId: ProviderId): ProviderConfig {
+    return this.providerConfigs[providerId] || {};
+  }
+
+  // Updates the remembered settings of the inactive providers; use switchProvider for the active one
+  public setProviderConfigs(configs: Partial<Record<ProviderId, ProviderConfig>>): void {
+    this.providerConfigs = { ...configs, [this.provider.id]: this.providerConfigs[this.provider.id] };
+    this.fallbackProviders.clear();
+  }
+
+  /**
+   * Replaces (or with no key removes) a provider's API key. The active provider
+   * is recreated with the new key; Gemini cannot run without one.
+   */
+  public setApiKey(providerId: ProviderId, apiKey?: string): void {
+    const { apiKey: _previous, ...config } = this.providerConfigs[providerId] || {};
+    const nextConfig: ProviderConfig = apiKey ? { ...config, apiKey } : config;
+    if (providerId === this.provider.id) {
+      if (providerId === "gemini" && !apiKey) {
+        throw new Error("Gemini is the active provider. Switch to another provider before deleting its API key");
       }
+      this.provider = createLLMProvider(providerId, { ...nextConfig, model: this.provider.getModel() });
+    }
+    this.providerConfigs[providerId] = nextConfig;
+    this.fallbackProviders.clear();
+  }
+
+  // Checks a key (or the current one) against the provider without switching to it
+  public async testApiKey(providerId: ProviderId, apiKey?: string): Promise<ConnectionTestResult> {
+    const config = { ...this.providerConfigs[providerId], ...(apiKey ? { apiKey } : {}) };
+    try {
+      const provider = createLLMProvider(providerId, config);
+      await provider.initialize?.();
+      return await provider.testConnection();
     } catch (error) {
       return { success: false, error: error.message };
     }
   }
-} 
\ No newline at end of file
+
+  public setFallbackProviders(providerIds: ProviderId[]): void {
+    this.fallbackProviderIds = providerIds;
+  }
+
+  public setRetryOptions(options: RetryOptions): void {
+    this.retryOptions = options;
+  }
+
+  public setLanguage(language?: string): void {
+    this.language = language || undefined;
+  }
+
+  public setSpeechToText(settings: SpeechToTextSettings): void {
+    if (JSON.stringify(settings) === JSON.stringify(this.speechToText)) return;
+    this.speechToText = settings;
+    this.transcriptionProvider = createTranscriptionProvider(settings);
+  }
+
+  public async testConnection(): Promise<ConnectionTestResult> {
+    return this.provider.testConnection();
+  }
+}
@@ -0,0 +1,159 @@
+// LLMProvider.ts
+
+import fs from "fs"
+import { JsonSchema } from "./StructuredOutput"
+
+export type ProviderId = "gemini" | "ollama" | "openai-compatible"
+
+export interface ProviderConfig {
+  model?: string
+  url?: string
+  apiKey?: string
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  // Ask for JSON matching this schema; used by generateText and generateWithImages
+  // on providers with a JSON mode and ignored elsewhere
+  responseSchema?: JsonSchema
+}
+
+export interface StreamOptions extends RequestOptions {
+  imagePaths?: string[]
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface ConnectionTestResult {
+  success: boolean
+  error?: string
+}
+
+/**
+ * Common surface every LLM backend implements. LLMHelper builds the prompts and
+ * parses the results; providers only move text, images and audio to a model.
+ */
+export interface LLMProvider {
+  readonly id: ProviderId
+  readonly displayName: string
+
+  getModel(): string
+  getConfig(): ProviderConfig
+
+  // Optional async setup (e.g. auto-selecting an installed model)
+  initialize?(): Promise<void>
+
+  generateText(prompt: string, options?: RequestOptions): Promise<string>
+  generateWithImages(prompt: string, imagePaths: string[], options?: RequestOptions): Promise<string>
+  generateWithAudio(prompt: string, data: string, mimeType: string, options?: RequestOptions): Promise<string>
+  streamText(prompt: string, onChunk: (chunk: string) => void, options?: StreamOptions): Promise<string>
+
+  // Multi-turn chat; the last message is the one being answered
+  chat(messages: ChatMessage[], options?: RequestOptions): Promise<string>
+  streamChat(messages: ChatMessage[], onChunk: (chunk: string) => void, options?: RequestOptions): Promise<string>
+
+  listModels(): Promise<string[]>
+  supportsVision(model?: string): Promise<boolean>
+  supportsAudio(): boolean
+  testConnection(): Promise<ConnectionTestResult>
+}
+
+export async function readFileAsBase64(filePath: string): Promise<string> {
+  const data = await fs.promises.readFile(filePath)
+  return data.toString("base64")
+}
+
+export function createAbortError(): Error {
+  const error = new Error("Request cancelled")
+  error.name = "AbortError"
+  return error
+}
+
+/**
+ * HTTP or connection failure talking to a model server. `retryable` marks
+ * failures worth retrying even without a status (e.g. connection refused).
+ */
+export class LLMRequestError extends Error {
+  public readonly status?: number
+  public readonly retryAfterMs?: number
+  public readonly retryable?: boolean
+
+  constructor(message: string, details: { status?: number; retryAfterMs?: number; retryable?: boolean } = {}) {
+    super(message)
+    this.name = "LLMRequestError"
+    this.status = details.status
+    this.retryAfterMs = details.retryAfterMs
+    this.retryable = details.retryable
+  }
+}
+
+// Parses a Retry-After header, given either in seconds or as an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === "AbortError"
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError()
+  }
+}
+
+/**
+ * Rejects with an AbortError as soon as the signal fires, for SDK calls that
+ * cannot be cancelled themselves. The underlying request is left to finish.
+ */
+export function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  throwIfAborted(signal)
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError())
+    signal.addEventListener("abort", onAbort, { once: true })
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort)
+        resolve(value)
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort)
+        reject(error)
+      }
+    )
+  })
+}
+
+/**
+ * Reads a streamed HTTP body line by line, as used by Ollama's NDJSON and the
+ * OpenAI server-sent events formats.
+ */
+export async function readStreamLines(body: ReadableStream<Uint8Array>, onLine: (line: string) => void): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split("\n")
+      buffer = lines.pop() || ""
+      lines.forEach(onLine)
+    }
+    onLine(buffer)
+  } catch (error) {
+    // A line the caller rejects ends the request
+    reader.cancel().catch(() => {})
+    throw error
+  }
+}
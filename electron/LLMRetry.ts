@@ -0,0 +1,96 @@
+// LLMRetry.ts
+
+import { LLMRequestError, createAbortError, isAbortError } from "./LLMProvider"
+
+export interface RetryOptions {
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504])
+
+export function getRetryOptionsFromEnv(): RetryOptions {
+  const readNumber = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value)
+    return value !== undefined && value !== "" && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+  }
+  return {
+    maxRetries: readNumber(process.env.LLM_MAX_RETRIES, 2),
+    baseDelayMs: readNumber(process.env.LLM_RETRY_BASE_DELAY_MS, 500),
+    maxDelayMs: readNumber(process.env.LLM_RETRY_MAX_DELAY_MS, 8000)
+  }
+}
+
+// The Gemini SDK only reports the status inside the message, e.g. "[429 Too Many Requests]"
+function getErrorStatus(error: any): number | undefined {
+  if (error instanceof LLMRequestError) return error.status
+  const match = /\[(\d{3})[^\]]*\]/.exec(error?.message || "")
+  return match ? Number(match[1]) : undefined
+}
+
+function getRetryAfterMs(error: any): number | undefined {
+  if (error instanceof LLMRequestError && error.retryAfterMs !== undefined) return error.retryAfterMs
+  // Gemini includes a RetryInfo detail such as "retryDelay":"30s"
+  const match = /retry_?delay"?\s*:\s*"?(\d+(?:\.\d+)?)s/i.exec(error?.message || "")
+  return match ? Number(match[1]) * 1000 : undefined
+}
+
+export function isRetryableError(error: any): boolean {
+  if (isAbortError(error)) return false
+  if (error instanceof LLMRequestError && error.retryable !== undefined) return error.retryable
+  const status = getErrorStatus(error)
+  if (status !== undefined) return RETRYABLE_STATUSES.has(status)
+  return /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket hang up|network/i.test(error?.message || "")
+}
+
+/**
+ * Exponential backoff with full jitter, stretched to any retry-after hint the
+ * server gave (capped at maxDelayMs).
+ */
+export function getRetryDelay(error: any, attempt: number, options: RetryOptions): number {
+  const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt)
+  const jittered = Math.random() * backoff
+  const retryAfter = getRetryAfterMs(error)
+  return Math.min(options.maxDelayMs, Math.max(jittered, retryAfter ?? 0))
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(createAbortError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Runs `run`, retrying transient failures. `canRetry` lets callers refuse a
+ * retry, e.g. once a stream has already delivered text.
+ */
+export async function withRetry<T>(
+  run: () => Promise<T>,
+  options: RetryOptions,
+  signal?: AbortSignal,
+  canRetry: () => boolean = () => true
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run()
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isRetryableError(error) || !canRetry()) throw error
+      const delay = getRetryDelay(error, attempt, options)
+      console.warn(`[LLMRetry] Attempt ${attempt + 1} failed (${error.message}), retrying in ${Math.round(delay)}ms`)
+      await sleep(delay, signal)
+    }
+  }
+}
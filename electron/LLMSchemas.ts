@@ -0,0 +1,84 @@
+// LLMSchemas.ts
+
+import { JsonSchema } from "./StructuredOutput"
+
+export interface ExtractedProblem {
+  problem_statement: string
+  context?: string
+  suggested_responses: string[]
+  reasoning?: string
+}
+
+export interface SolutionPayload {
+  solution: {
+    code: string
+    // Language the code is written in, as the model names it (e.g. "python")
+    language?: string
+    problem_statement?: string
+    context?: string
+    suggested_responses?: string[]
+    reasoning?: string
+    // Asked for by the coding profile's templates
+    thoughts?: string[]
+    time_complexity?: string
+    space_complexity?: string
+  }
+}
+
+export interface DebugPayload {
+  solution: SolutionPayload["solution"] & {
+    changes?: string[]
+  }
+}
+
+const stringList: JsonSchema = { type: "array", items: { type: "string" } }
+
+export const PROBLEM_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    problem_statement: { type: "string", description: "A clear statement of the problem or situation." },
+    context: { type: "string", description: "Relevant background or context." },
+    suggested_responses: { ...stringList, description: "Possible answers or actions." },
+    reasoning: { type: "string", description: "Why these suggestions are appropriate." }
+  },
+  required: ["problem_statement", "suggested_responses"]
+}
+
+const solutionProperties: Record<string, JsonSchema> = {
+  code: { type: "string", description: "The code or main answer." },
+  language: { type: "string", description: "Programming language of the code, e.g. python; empty if it is not code." },
+  problem_statement: { type: "string", description: "The problem or situation, restated." },
+  context: { type: "string", description: "Relevant background or context." },
+  suggested_responses: { ...stringList, description: "Possible answers or actions." },
+  reasoning: { type: "string", description: "Why these suggestions are appropriate." },
+  thoughts: { ...stringList, description: "Key insights behind the approach." },
+  time_complexity: { type: "string", description: "Time complexity of the code, if any." },
+  space_complexity: { type: "string", description: "Space complexity of the code, if any." }
+}
+
+export const SOLUTION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    solution: {
+      type: "object",
+      properties: solutionProperties,
+      required: ["code"]
+    }
+  },
+  required: ["solution"]
+}
+
+export const DEBUG_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    solution: {
+      type: "object",
+      properties: {
+        ...solutionProperties,
+        changes: { ...stringList, description: "Changes made to the current response and why." }
+      },
+      required: ["code"]
+    }
+  },
+  required: ["solution"]
+}
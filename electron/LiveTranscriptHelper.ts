@@ -0,0 +1,261 @@
+// LiveTranscriptHelper.ts
+
+import { v4 as uuidv4 } from "uuid"
+
+// Transcript segments kept in memory; older ones are only in the session history
+const MAX_SEGMENTS = 500
+// Rough budget for the transcript sent with a request (~4 characters per token)
+const MAX_CONTEXT_CHARS = 8000
+// Text of the previous segments given to the transcriber so sentences continue
+const PREVIOUS_TEXT_CHARS = 300
+
+// Who spoke a chunk: "me" is the microphone, "them" the system audio (the other side
+// of a call). Unset when only the microphone is recorded, as it hears both sides.
+export type Speaker = "me" | "them"
+
+export const SPEAKER_LABELS: Record<Speaker, string> = {
+  me: "Me",
+  them: "Them"
+}
+
+export interface LiveTranscriptionSettings {
+  // Length of each recorded audio chunk
+  chunkSeconds: number
+  // How far back the transcript is sent along with chat and solve requests
+  contextMinutes: number
+  // Also record what the computer plays, so the transcript tells the two sides apart
+  systemAudio: boolean
+}
+
+export interface AudioChunk {
+  // Base64 encoded audio
+  data: string
+  mimeType: string
+  startedAt: number
+  endedAt: number
+  // Set on the chunk recorded up to a pause after speech, or to the release of push-to-talk
+  endsUtterance?: boolean
+  speaker?: Speaker
+}
+
+export interface TranscriptSegment {
+  id: string
+  text: string
+  startedAt: number
+  endedAt: number
+  speaker?: Speaker
+}
+
+export interface LiveTranscriptState {
+  active: boolean
+  segments: TranscriptSegment[]
+  // Chunks received but not transcribed yet
+  pendingChunks: number
+  // Why the last chunk could not be transcribed, cleared by the next success
+  error: string | null
+}
+
+// `previousText` is the end of the same speaker's transcript
+export type Transcriber = (chunk: AudioChunk, previousText: string, signal: AbortSignal) => Promise<string>
+
+export type LiveTranscriptListener = (state: LiveTranscriptState, segment?: TranscriptSegment) => void
+
+// Called with everything one speaker said since their previous utterance ended
+// (empty when it was silence) and when the recording of its last chunk ended
+export type UtteranceListener = (text: string, endedAt: number, speaker?: Speaker) => void
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" })
+}
+
+export function formatSegmentText(segment: Pick<TranscriptSegment, "text" | "speaker">): string {
+  return segment.speaker ? `${SPEAKER_LABELS[segment.speaker]}: ${segment.text}` : segment.text
+}
+
+/**
+ * Keeps the rolling transcript of a continuous capture. The renderer records
+ * audio in short chunks; each one is transcribed in order and appended as a
+ * timestamped segment, and the recent part is offered as context to requests.
+ */
+export class LiveTranscriptHelper {
+  private readonly transcribe: Transcriber
+  private settings: LiveTranscriptionSettings
+  private active = false
+  // Chunks recorded before this time still belong to the capture that was stopped
+  private stoppedAt = 0
+  private segments: TranscriptSegment[] = []
+  private pendingChunks = 0
+  private error: string | null = null
+  // Chunks are transcribed one at a time so segments stay in order
+  private queue: Promise<void> = Promise.resolve()
+  private controller = new AbortController()
+  private listeners: Set<LiveTranscriptListener> = new Set()
+  // Text of each speaker's utterance in progress, one entry per transcribed chunk
+  private utterances: Map<Speaker | undefined, string[]> = new Map()
+  private utteranceListeners: Set<UtteranceListener> = new Set()
+
+  constructor(transcribe: Transcriber, settings: LiveTranscriptionSettings) {
+    this.transcribe = transcribe
+    this.settings = settings
+  }
+
+  public getSettings(): LiveTranscriptionSettings {
+    return this.settings
+  }
+
+  public setSettings(settings: LiveTranscriptionSettings): void {
+    this.settings = settings
+  }
+
+  public isActive(): boolean {
+    return this.active
+  }
+
+  public start(): void {
+    if (this.active) return
+    this.active = true
+    this.error = null
+    this.notify()
+  }
+
+  // Chunks still being recorded when capture stops are transcribed when they arrive
+  public stop(): void {
+    if (!this.active) return
+    this.active = false
+    this.stoppedAt = Date.now()
+    this.notify()
+  }
+
+  public toggle(): void {
+    if (this.active) {
+      this.stop()
+    } else {
+      this.start()
+    }
+  }
+
+  public addChunk(chunk: AudioChunk): void {
+    if (!this.active && chunk.startedAt > this.stoppedAt) {
+      throw new Error("Live transcription is not running")
+    }
+    this.pendingChunks++
+    this.notify()
+    const signal = this.controller.signal
+    this.queue = this.queue.then(async () => {
+      let segment: TranscriptSegment | undefined
+      try {
+        const text = (await this.transcribe(chunk, this.getPreviousText(chunk.speaker), signal)).trim()
+        if (signal.aborted) return
+        this.error = null
+        // Silence transcribes to nothing
+        if (!text) return
+        segment = { id: uuidv4(), text, startedAt: chunk.startedAt, endedAt: chunk.endedAt, speaker: chunk.speaker }
+        this.utterances.set(chunk.speaker, [...(this.utterances.get(chunk.speaker) || []), text])
+        this.insertSegment(segment)
+        if (this.segments.length > MAX_SEGMENTS) {
+          this.segments = this.segments.slice(-MAX_SEGMENTS)
+        }
+      } catch (error) {
+        if (signal.aborted) return
+        console.error("[LiveTranscriptHelper] Could not transcribe an audio chunk:", error)
+        this.error = error.message
+      } finally {
+        this.pendingChunks--
+        this.notify(segment)
+        if (chunk.endsUtterance && !signal.aborted) this.endUtterance(chunk.endedAt, chunk.speaker)
+      }
+    })
+  }
+
+  // Both sides are recorded at once, so segments are kept in the order they were spoken
+  private insertSegment(segment: TranscriptSegment): void {
+    let index = this.segments.length
+    while (index > 0 && this.segments[index - 1].startedAt > segment.startedAt) index--
+    this.segments.splice(index, 0, segment)
+  }
+
+  private endUtterance(endedAt: number, speaker?: Speaker): void {
+    const text = (this.utterances.get(speaker) || []).join(" ")
+    this.utterances.delete(speaker)
+    this.utteranceListeners.forEach((listener) => {
+      try {
+        listener(text, endedAt, speaker)
+      } catch (error) {
+        console.error("[LiveTranscriptHelper] Utterance listener failed:", error)
+      }
+    })
+  }
+
+  // Drops the transcript and any chunk still waiting to be transcribed
+  public clear(): void {
+    this.controller.abort()
+    this.controller = new AbortController()
+    this.segments = []
+    this.utterances.clear()
+    this.error = null
+    this.notify()
+  }
+
+  public getState(): LiveTranscriptState {
+    return {
+      active: this.active,
+      segments: [...this.segments],
+      pendingChunks: this.pendingChunks,
+      error: this.error
+    }
+  }
+
+  /**
+   * The transcript of the last `contextMinutes` as timestamped lines, labelled
+   * "Me:" or "Them:" when the speaker is known, trimmed from the oldest line to
+   * fit the context budget. Empty when there is none.
+   */
+  public getContext(): string {
+    const since = Date.now() - this.settings.contextMinutes * 60_000
+    const lines: string[] = []
+    let length = 0
+    for (let index = this.segments.length - 1; index >= 0; index--) {
+      const segment = this.segments[index]
+      if (segment.endedAt < since) break
+      const line = `[${formatTime(segment.startedAt)}] ${formatSegmentText(segment)}`
+      if (length + line.length > MAX_CONTEXT_CHARS) break
+      lines.unshift(line)
+      length += line.length + 1
+    }
+    return lines.join("\n")
+  }
+
+  private getPreviousText(speaker?: Speaker): string {
+    return this.segments
+      .filter((segment) => segment.speaker === speaker)
+      .slice(-10)
+      .map((segment) => segment.text)
+      .join(" ")
+      .slice(-PREVIOUS_TEXT_CHARS)
+  }
+
+  public subscribe(listener: LiveTranscriptListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  public onUtterance(listener: UtteranceListener): () => void {
+    this.utteranceListeners.add(listener)
+    return () => {
+      this.utteranceListeners.delete(listener)
+    }
+  }
+
+  private notify(segment?: TranscriptSegment): void {
+    const state = this.getState()
+    this.listeners.forEach((listener) => {
+      try {
+        listener(state, segment)
+      } catch (error) {
+        console.error("[LiveTranscriptHelper] Listener failed:", error)
+      }
+    })
+  }
+}
@@ -0,0 +1,32 @@
+// MockTranscriptionProvider.ts
+
+import { throwIfAborted } from "./LLMProvider"
+import { TranscriptionProvider, TranscriptionOptions } from "./TranscriptionProvider"
+
+const DEFAULT_MOCK_TRANSCRIPT = "How would you reverse a linked list in place?"
+
+/**
+ * Returns a fixed transcript without a speech-to-text server, for tests and
+ * for trying the audio flow offline. MOCK_TRANSCRIPT overrides the text and
+ * MOCK_API_WAIT_TIME the simulated delay.
+ */
+export class MockTranscriptionProvider implements TranscriptionProvider {
+  public readonly id = "mock" as const
+  public readonly displayName = "Mock transcription"
+
+  private readonly transcript: string
+  private readonly delayMs: number
+
+  constructor(transcript = process.env.MOCK_TRANSCRIPT ?? DEFAULT_MOCK_TRANSCRIPT, delayMs = Number(process.env.MOCK_API_WAIT_TIME) || 0) {
+    this.transcript = transcript
+    this.delayMs = delayMs
+  }
+
+  public async transcribe(_data: string, _mimeType: string, options: TranscriptionOptions = {}): Promise<string> {
+    if (this.delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.delayMs))
+    }
+    throwIfAborted(options.signal)
+    return this.transcript
+  }
+}
@@ -0,0 +1,208 @@
+// OcrHelper.ts
+
+import { app } from "electron"
+import fs from "node:fs"
+import path from "node:path"
+import { Worker } from "node:worker_threads"
+
+// When screenshots are sent as OCR text instead of images:
+// "auto" when the model cannot read images, "always" to keep images on this machine
+export type OcrMode = "off" | "auto" | "always"
+
+export interface OcrSettings {
+  mode: OcrMode
+  // Tesseract language code(s), e.g. "eng" or "eng+deu"
+  language: string
+  // Folder with <language>.traineddata(.gz) files; empty uses the English data shipped with the app
+  langPath: string
+}
+
+// Language data found for the configured languages
+interface LanguageData {
+  langPath: string
+  // Whether the files are the .traineddata.gz variant
+  gzip: boolean
+}
+
+// English data from the @tesseract.js-data/eng package, so OCR never needs a download
+function getBundledLangPath(): string {
+  try {
+    return path.join(path.dirname(require.resolve("@tesseract.js-data/eng/package.json")), "4.0.0_best_int")
+  } catch {
+    return ""
+  }
+}
+
+interface PendingRequest {
+  resolve: (value: any) => void
+  reject: (error: Error) => void
+}
+
+// The OCR text of a screenshot is kept next to it, e.g. <id>.png -> <id>.ocr.txt
+export function getOcrCachePath(imagePath: string): string {
+  return path.join(path.dirname(imagePath), `${path.basename(imagePath, path.extname(imagePath))}.ocr.txt`)
+}
+
+export async function deleteOcrCache(imagePath: string): Promise<void> {
+  await fs.promises.rm(getOcrCachePath(imagePath), { force: true }).catch((error) => {
+    console.error(`[OcrHelper] Could not delete OCR text for ${imagePath}:`, error)
+  })
+}
+
+/**
+ * Reads text from screenshots with tesseract.js, off the main thread in the
+ * worker-script worker. Results are cached next to each screenshot, and the
+ * cached text can be edited before it is sent to the model.
+ */
+export class OcrHelper {
+  private settings: OcrSettings
+  // Where downloaded language data is kept
+  private readonly cacheDir: string
+  private worker: Worker | null = null
+  private pending: Map<number, PendingRequest> = new Map()
+  private nextRequestId = 1
+  // One recognition per screenshot at a time; later callers share the result
+  private inFlight: Map<string, Promise<string>> = new Map()
+
+  constructor(settings: OcrSettings) {
+    this.settings = settings
+    this.cacheDir = path.join(app.getPath("userData"), "ocr")
+  }
+
+  public getSettings(): OcrSettings {
+    return this.settings
+  }
+
+  public setSettings(settings: OcrSettings): void {
+    this.settings = settings
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker
+
+    const worker = new Worker(path.join(app.getAppPath(), "worker-script", "node", "index.js"))
+    worker.on("message", (message: { type: string; id?: number; data?: any; error?: string }) => {
+      const request = message.id !== undefined ? this.pending.get(message.id) : undefined
+      if (!request) {
+        if (message.type === "error") console.error("[OcrHelper] Worker error:", message.error)
+        return
+      }
+      this.pending.delete(message.id!)
+      if (message.type === "error") {
+        request.reject(new Error(message.error || "OCR failed"))
+      } else {
+        request.resolve(message.data)
+      }
+    })
+    // A crashed worker fails its requests; the next request starts a new one
+    const fail = (error: Error) => {
+      this.pending.forEach((request) => request.reject(error))
+      this.pending.clear()
+      if (this.worker === worker) this.worker = null
+    }
+    worker.on("error", fail)
+    worker.on("exit", (code) => fail(new Error(`OCR worker stopped (exit code ${code})`)))
+
+    this.worker = worker
+    return worker
+  }
+
+  /**
+   * Finds the data for the configured languages in `langPath`, or in the
+   * English data shipped with the app. Nothing is downloaded: a language
+   * without data is an error that says where to put it.
+   */
+  private getLanguageData(): LanguageData {
+    const { language, langPath: configuredPath } = this.settings
+    const languages = language.split("+").filter(Boolean)
+    const langPath = configuredPath || getBundledLangPath()
+    const has = (name: string, suffix: string) => !!langPath && fs.existsSync(path.join(langPath, `${name}${suffix}`))
+    if (languages.every((name) => has(name, ".traineddata.gz"))) return { langPath, gzip: true }
+    if (languages.every((name) => has(name, ".traineddata"))) return { langPath, gzip: false }
+
+    const missing = languages.filter((name) => !has(name, ".traineddata.gz") && !has(name, ".traineddata"))
+    if (missing.length === 0) {
+      throw new Error(`The OCR language files in ${langPath} must all be .traineddata or all .traineddata.gz files`)
+    }
+    const files = missing.map((name) => `${name}.traineddata`).join(", ")
+    throw new Error(configuredPath
+      ? `No OCR language data for ${missing.join(", ")} in ${configuredPath}. Add ${files} to that folder`
+      : `Only English OCR data comes with the app. Put ${files} in a folder and set ocr.langPath to it`)
+  }
+
+  private request<T>(type: string, data?: any): Promise<T> {
+    const worker = this.getWorker()
+    const id = this.nextRequestId++
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+      worker.postMessage({ type, id, data })
+    })
+  }
+
+  /**
+   * Returns the text of a screenshot: the cached (possibly edited) text if
+   * there is one, otherwise the result of running OCR on it.
+   */
+  public async getText(imagePath: string): Promise<string> {
+    const cachePath = getOcrCachePath(imagePath)
+    try {
+      return await fs.promises.readFile(cachePath, "utf8")
+    } catch {
+      // Not recognized yet
+    }
+
+    let pending = this.inFlight.get(imagePath)
+    if (!pending) {
+      pending = (async () => {
+        const languageData = this.getLanguageData()
+        await fs.promises.mkdir(this.cacheDir, { recursive: true })
+        const { text, confidence } = await this.request<{ text: string; confidence: number }>("ocr", {
+          imagePath,
+          language: this.settings.language,
+          cachePath: this.cacheDir,
+          ...languageData
+        })
+        console.log(`[OcrHelper] Read ${text.length} characters from ${path.basename(imagePath)} (confidence ${Math.round(confidence)}%)`)
+        await fs.promises.writeFile(cachePath, text, "utf8")
+        return text
+      })().finally(() => this.inFlight.delete(imagePath))
+      this.inFlight.set(imagePath, pending)
+    }
+    return pending
+  }
+
+  public async getTexts(imagePaths: string[]): Promise<string[]> {
+    const texts: string[] = []
+    // One at a time: the worker recognizes images sequentially anyway
+    for (const imagePath of imagePaths) {
+      texts.push(await this.getText(imagePath))
+    }
+    return texts
+  }
+
+  // Replaces a screenshot's text with the user's correction
+  public async setText(imagePath: string, text: string): Promise<void> {
+    // A recognition still running would otherwise overwrite the correction
+    await this.inFlight.get(imagePath)?.catch((): void => undefined)
+    await fs.promises.writeFile(getOcrCachePath(imagePath), text, "utf8")
+  }
+
+  // Starts OCR in the background so the text is ready when it is needed
+  public prefetch(imagePath: string): void {
+    this.getText(imagePath).catch((error) => {
+      console.error(`[OcrHelper] OCR failed for ${imagePath}:`, error)
+    })
+  }
+
+  public async terminate(): Promise<void> {
+    if (!this.worker) return
+    const worker = this.worker
+    try {
+      await this.request("shutdown")
+    } catch {
+      // Already stopped
+    }
+    await worker.terminate()
+    this.worker = null
+  }
+}
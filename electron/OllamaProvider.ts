@@ -0,0 +1,338 @@
+// OllamaProvider.ts
+
+import { LLMProvider, ProviderConfig, ConnectionTestResult, ChatMessage, RequestOptions, StreamOptions, readFileAsBase64, readStreamLines, isAbortError, LLMRequestError, parseRetryAfter } from "./LLMProvider"
+import { getFileKind } from "./FileTypes"
+
+// Failures after the HTTP status was sent, e.g. the model crashing mid-stream, come as `error`
+interface OllamaResponse {
+  response: string
+  done: boolean
+  error?: string
+}
+
+interface OllamaChatResponse {
+  message?: { role: string; content: string }
+  done: boolean
+  error?: string
+}
+
+const DEFAULT_OLLAMA_URL = "http://localhost:11434"
+const DEFAULT_OLLAMA_MODEL = "gemma:latest"
+
+// Model families known to accept images when /api/show does not report capabilities
+const OLLAMA_VISION_MODEL_PATTERNS = [
+  /llava/i,
+  /bakllava/i,
+  /vision/i,
+  /moondream/i,
+  /minicpm-v/i,
+  /qwen2\.5vl/i,
+  /gemma3/i
+]
+
+export class OllamaProvider implements LLMProvider {
+  public readonly id = "ollama" as const
+  public readonly displayName = "Ollama"
+
+  private ollamaModel: string
+  private ollamaUrl: string
+  private visionCache: Map<string, boolean> = new Map()
+
+  constructor(config: ProviderConfig) {
+    this.ollamaUrl = config.url || DEFAULT_OLLAMA_URL
+    this.ollamaModel = config.model || DEFAULT_OLLAMA_MODEL
+    console.log(`[OllamaProvider] Using Ollama with model: ${this.ollamaModel}`)
+  }
+
+  public getModel(): string {
+    return this.ollamaModel
+  }
+
+  public getConfig(): ProviderConfig {
+    return { model: this.ollamaModel, url: this.ollamaUrl }
+  }
+
+  private buildGenerateBody(prompt: string, stream: boolean, images?: string[], json: boolean = false) {
+    return JSON.stringify({
+      model: this.ollamaModel,
+      prompt: prompt,
+      ...(images && images.length > 0 ? { images } : {}),
+      ...(json ? { format: "json" } : {}),
+      stream,
+      options: {
+        temperature: 0.7,
+        top_p: 0.9,
+      }
+    })
+  }
+
+  private async callOllama(prompt: string, images?: string[], options: RequestOptions = {}): Promise<string> {
+    try {
+      const response = await fetch(`${this.ollamaUrl}/api/generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: this.buildGenerateBody(prompt, false, images, !!options.responseSchema),
+        signal: options.signal,
+      })
+
+      if (!response.ok) {
+        throw this.createResponseError(response)
+      }
+
+      const data: OllamaResponse = await response.json()
+      if (data.error) throw this.createModelError(data.error)
+      return data.response
+    } catch (error) {
+      if (isAbortError(error) || error instanceof LLMRequestError) throw error
+      console.error("[OllamaProvider] Error calling Ollama:", error)
+      throw this.createConnectionError(error)
+    }
+  }
+
+  private createResponseError(response: Response): LLMRequestError {
+    return new LLMRequestError(`Ollama API error: ${response.status} ${response.statusText}`, {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get("retry-after"))
+    })
+  }
+
+  private createModelError(message: string): LLMRequestError {
+    return new LLMRequestError(`Ollama error: ${message}`)
+  }
+
+  private createConnectionError(error: Error): LLMRequestError {
+    return new LLMRequestError(
+      `Failed to connect to Ollama: ${error.message}. Make sure Ollama is running on ${this.ollamaUrl}`,
+      { retryable: true }
+    )
+  }
+
+  private async checkOllamaAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.ollamaUrl}/api/tags`)
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+
+  public async initialize(): Promise<void> {
+    try {
+      const availableModels = await this.listModels()
+      if (availableModels.length === 0) {
+        console.warn("[OllamaProvider] No Ollama models found")
+        return
+      }
+
+      // Check if current model exists, if not use the first available
+      if (!availableModels.includes(this.ollamaModel)) {
+        this.ollamaModel = availableModels[0]
+        console.log(`[OllamaProvider] Auto-selected first available model: ${this.ollamaModel}`)
+      }
+
+      // Test the selected model works
+      await this.callOllama("Hello")
+      console.log(`[OllamaProvider] Successfully initialized with model: ${this.ollamaModel}`)
+    } catch (error) {
+      console.error(`[OllamaProvider] Failed to initialize Ollama model: ${error.message}`)
+      // Try to use first available model as fallback
+      try {
+        const models = await this.listModels()
+        if (models.length > 0) {
+          this.ollamaModel = models[0]
+          console.log(`[OllamaProvider] Fallback to: ${this.ollamaModel}`)
+        }
+      } catch (fallbackError) {
+        console.error(`[OllamaProvider] Fallback also failed: ${fallbackError.message}`)
+      }
+    }
+  }
+
+  public async generateText(prompt: string, options: RequestOptions = {}): Promise<string> {
+    return this.callOllama(prompt, undefined, options)
+  }
+
+  // Ollama takes images only, and only with a vision model
+  private async readImages(imagePaths: string[]): Promise<string[]> {
+    if (imagePaths.some((path) => getFileKind(path) === "pdf")) {
+      throw new Error("Ollama models cannot read PDF files. Remove the PDF from the queue or switch to a provider that reads PDFs")
+    }
+    if (!(await this.supportsVision())) {
+      throw new Error(`The selected Ollama model "${this.ollamaModel}" does not support images. Pull a vision model such as llava or llama3.2-vision.`)
+    }
+    return Promise.all(imagePaths.map(path => readFileAsBase64(path)))
+  }
+
+  public async generateWithImages(prompt: string, imagePaths: string[], options: RequestOptions = {}): Promise<string> {
+    return this.callOllama(prompt, await this.readImages(imagePaths), options)
+  }
+
+  public async generateWithAudio(): Promise<string> {
+    throw new Error("Ollama models cannot process audio directly")
+  }
+
+  public async streamText(prompt: string, onChunk: (chunk: string) => void, options: StreamOptions = {}): Promise<string> {
+    let images: string[] | undefined
+    if (options.imagePaths && options.imagePaths.length > 0) {
+      images = await this.readImages(options.imagePaths)
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${this.ollamaUrl}/api/generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: this.buildGenerateBody(prompt, true, images),
+        signal: options.signal,
+      })
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      throw this.createConnectionError(error)
+    }
+
+    if (!response.ok || !response.body) {
+      throw this.createResponseError(response)
+    }
+
+    // Ollama streams newline-delimited JSON objects
+    let fullText = ""
+    await readStreamLines(response.body, (line) => {
+      if (!line.trim()) return
+      const data: OllamaResponse = JSON.parse(line)
+      if (data.error) throw this.createModelError(data.error)
+      if (data.response) {
+        fullText += data.response
+        onChunk(data.response)
+      }
+    })
+
+    return fullText
+  }
+
+  private async postChat(messages: ChatMessage[], stream: boolean, signal?: AbortSignal): Promise<Response> {
+    let response: Response
+    try {
+      response = await fetch(`${this.ollamaUrl}/api/chat`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.ollamaModel,
+          messages,
+          stream,
+          options: {
+            temperature: 0.7,
+            top_p: 0.9,
+          }
+        }),
+        signal,
+      })
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      throw this.createConnectionError(error)
+    }
+
+    if (!response.ok) {
+      throw this.createResponseError(response)
+    }
+    return response
+  }
+
+  public async chat(messages: ChatMessage[], options: RequestOptions = {}): Promise<string> {
+    const response = await this.postChat(messages, false, options.signal)
+    const data: OllamaChatResponse = await response.json()
+    if (data.error) throw this.createModelError(data.error)
+    return data.message?.content || ""
+  }
+
+  public async streamChat(messages: ChatMessage[], onChunk: (chunk: string) => void, options: RequestOptions = {}): Promise<string> {
+    const response = await this.postChat(messages, true, options.signal)
+    if (!response.body) {
+      throw new Error("Ollama returned an empty stream")
+    }
+
+    let fullText = ""
+    await readStreamLines(response.body, (line) => {
+      if (!line.trim()) return
+      const data: OllamaChatResponse = JSON.parse(line)
+      if (data.error) throw this.createModelError(data.error)
+      const text = data.message?.content
+      if (text) {
+        fullText += text
+        onChunk(text)
+      }
+    })
+
+    return fullText
+  }
+
+  public async listModels(): Promise<string[]> {
+    try {
+      const response = await fetch(`${this.ollamaUrl}/api/tags`)
+      if (!response.ok) throw new Error('Failed to fetch models')
+
+      const data = await response.json()
+      return data.models?.map((model: any) => model.name) || []
+    } catch (error) {
+      console.error("[OllamaProvider] Error fetching Ollama models:", error)
+      return []
+    }
+  }
+
+  /**
+   * Uses the capabilities reported by /api/show, falling back to the model name
+   * for older Ollama versions that do not report them. Only answers from Ollama
+   * are cached, so a guess made while it is unreachable is tried again later.
+   */
+  public async supportsVision(model: string = this.ollamaModel): Promise<boolean> {
+    const cached = this.visionCache.get(model)
+    if (cached !== undefined) return cached
+
+    let supportsVision = OLLAMA_VISION_MODEL_PATTERNS.some(pattern => pattern.test(model))
+    try {
+      const response = await fetch(`${this.ollamaUrl}/api/show`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model })
+      })
+      if (response.ok) {
+        const data = await response.json()
+        if (Array.isArray(data.capabilities)) {
+          supportsVision = data.capabilities.includes("vision")
+        } else if (Array.isArray(data.details?.families)) {
+          supportsVision = supportsVision || data.details.families.includes("clip")
+        }
+        this.visionCache.set(model, supportsVision)
+      } else {
+        console.warn(`[OllamaProvider] Could not query capabilities for ${model}: HTTP ${response.status}`)
+      }
+    } catch (error) {
+      console.warn(`[OllamaProvider] Could not query capabilities for ${model}:`, error.message)
+    }
+
+    return supportsVision
+  }
+
+  public supportsAudio(): boolean {
+    return false
+  }
+
+  public async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      const available = await this.checkOllamaAvailable()
+      if (!available) {
+        return { success: false, error: `Ollama not available at ${this.ollamaUrl}` }
+      }
+      // Test with a simple prompt
+      await this.callOllama("Hello")
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  }
+}
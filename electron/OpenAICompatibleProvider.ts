@@ -0,0 +1,194 @@
+// OpenAICompatibleProvider.ts
+
+import { LLMProvider, ProviderConfig, ConnectionTestResult, ChatMessage, RequestOptions, StreamOptions, readFileAsBase64, readStreamLines, isAbortError, LLMRequestError, parseRetryAfter } from "./LLMProvider"
+import { getFileKind, getMimeType } from "./FileTypes"
+import path from "node:path"
+
+const DEFAULT_OPENAI_COMPATIBLE_URL = "http://localhost:8000/v1"
+
+// Servers rarely report modalities, so vision support is inferred from the model name
+const VISION_MODEL_PATTERNS = [/vision/i, /llava/i, /-vl/i, /vl-/i, /gpt-4o/i, /pixtral/i, /gemma-?3/i, /minicpm-v/i]
+
+type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "file"; file: { filename: string; file_data: string } }
+
+interface OpenAIChatMessage {
+  role: ChatMessage["role"]
+  content: string | ChatContentPart[]
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{ message?: { content?: string }; delta?: { content?: string } }>
+}
+
+/**
+ * Talks to any server exposing the OpenAI `/v1/chat/completions` API, such as
+ * vLLM, LM Studio or the llama.cpp server.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly id = "openai-compatible" as const
+  public readonly displayName = "OpenAI-compatible"
+
+  private baseUrl: string
+  private model: string
+  private apiKey?: string
+
+  constructor(config: ProviderConfig) {
+    this.baseUrl = (config.url || DEFAULT_OPENAI_COMPATIBLE_URL).replace(/\/+$/, "")
+    this.model = config.model || ""
+    this.apiKey = config.apiKey
+    console.log(`[OpenAICompatibleProvider] Using ${this.baseUrl} with model: ${this.model || "(auto)"}`)
+  }
+
+  public getModel(): string {
+    return this.model
+  }
+
+  public getConfig(): ProviderConfig {
+    return { model: this.model, url: this.baseUrl, apiKey: this.apiKey }
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" }
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`
+    }
+    return headers
+  }
+
+  public async initialize(): Promise<void> {
+    if (this.model) return
+    const models = await this.listModels()
+    if (models.length > 0) {
+      this.model = models[0]
+      console.log(`[OpenAICompatibleProvider] Auto-selected first available model: ${this.model}`)
+    }
+  }
+
+  private async postChat(messages: OpenAIChatMessage[], stream: boolean, signal?: AbortSignal): Promise<Response> {
+    let response: Response
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: this.getHeaders(),
+        body: JSON.stringify({
+          model: this.model,
+          messages,
+          temperature: 0.7,
+          stream
+        }),
+        signal
+      })
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      throw new LLMRequestError(`Failed to connect to ${this.baseUrl}: ${error.message}`, { retryable: true })
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "")
+      throw new LLMRequestError(`OpenAI-compatible API error: ${response.status} ${response.statusText} ${detail}`.trim(), {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after"))
+      })
+    }
+    return response
+  }
+
+  private async complete(messages: OpenAIChatMessage[], signal?: AbortSignal): Promise<string> {
+    const response = await this.postChat(messages, false, signal)
+    const data: ChatCompletionResponse = await response.json()
+    return data.choices?.[0]?.message?.content || ""
+  }
+
+  public async generateText(prompt: string, options: RequestOptions = {}): Promise<string> {
+    return this.complete([{ role: "user", content: prompt }], options.signal)
+  }
+
+  private async buildContent(prompt: string, imagePaths: string[] = []): Promise<string | ChatContentPart[]> {
+    if (imagePaths.length === 0) return prompt
+    const files = await Promise.all(imagePaths.map(async (filePath): Promise<ChatContentPart> => {
+      const url = `data:${getMimeType(filePath)};base64,${await readFileAsBase64(filePath)}`
+      // PDFs go as file parts, which servers that only take images reject
+      return getFileKind(filePath) === "pdf"
+        ? { type: "file", file: { filename: path.basename(filePath), file_data: url } }
+        : { type: "image_url", image_url: { url } }
+    }))
+    return [{ type: "text", text: prompt }, ...files]
+  }
+
+  public async generateWithImages(prompt: string, imagePaths: string[], options: RequestOptions = {}): Promise<string> {
+    return this.complete([{ role: "user", content: await this.buildContent(prompt, imagePaths) }], options.signal)
+  }
+
+  public async generateWithAudio(): Promise<string> {
+    throw new Error("The OpenAI-compatible provider does not support audio input")
+  }
+
+  public async streamText(prompt: string, onChunk: (chunk: string) => void, options: StreamOptions = {}): Promise<string> {
+    const content = await this.buildContent(prompt, options.imagePaths)
+    return this.streamMessages([{ role: "user", content }], onChunk, options.signal)
+  }
+
+  private async streamMessages(messages: OpenAIChatMessage[], onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<string> {
+    const response = await this.postChat(messages, true, signal)
+    if (!response.body) {
+      throw new Error("OpenAI-compatible server returned an empty stream")
+    }
+
+    // Server-sent events: `data: {...}` lines terminated by `data: [DONE]`
+    let fullText = ""
+    await readStreamLines(response.body, (line) => {
+      const trimmed = line.trim()
+      if (!trimmed.startsWith("data:")) return
+      const payload = trimmed.slice(5).trim()
+      if (!payload || payload === "[DONE]") return
+      const data: ChatCompletionResponse = JSON.parse(payload)
+      const text = data.choices?.[0]?.delta?.content
+      if (text) {
+        fullText += text
+        onChunk(text)
+      }
+    })
+
+    return fullText
+  }
+
+  public async chat(messages: ChatMessage[], options: RequestOptions = {}): Promise<string> {
+    return this.complete(messages, options.signal)
+  }
+
+  public async streamChat(messages: ChatMessage[], onChunk: (chunk: string) => void, options: RequestOptions = {}): Promise<string> {
+    return this.streamMessages(messages, onChunk, options.signal)
+  }
+
+  public async listModels(): Promise<string[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, { headers: this.getHeaders() })
+      if (!response.ok) throw new Error(`Failed to fetch models: ${response.status}`)
+      const data = await response.json()
+      return data.data?.map((model: any) => model.id) || []
+    } catch (error) {
+      console.error("[OpenAICompatibleProvider] Error fetching models:", error)
+      return []
+    }
+  }
+
+  public async supportsVision(model: string = this.model): Promise<boolean> {
+    return VISION_MODEL_PATTERNS.some(pattern => pattern.test(model))
+  }
+
+  public supportsAudio(): boolean {
+    return false
+  }
+
+  public async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      await this.generateText("Hello")
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  }
+}
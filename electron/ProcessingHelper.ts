@@ -1,8 +1,20 @@
 // ProcessingHelper.ts
 
+import { BrowserWindow } from "electron"
 import { AppState } from "./main"
-import { LLMHelper } from "./LLMHelper"
+import { LLMHelper, TextAttachment } from "./LLMHelper"
+import { ProviderId, ProviderConfig, ChatMessage, createAbortError, isAbortError } from "./LLMProvider"
+import { API_KEY_PROVIDERS } from "./CredentialsHelper"
+import { Speaker } from "./LiveTranscriptHelper"
+import { AppSettings } from "./SettingsHelper"
+import { findProfile } from "./AssistantProfiles"
+import { TRANSCRIPT_SECTION, hasSpeakerLabels, renderTemplate } from "./PromptTemplateHelper"
+import { SolutionPayload } from "./LLMSchemas"
+import { getFileKind } from "./FileTypes"
+import { v4 as uuidv4 } from "uuid"
 import dotenv from "dotenv"
+import fs from "node:fs"
+import path from "node:path"
 
 dotenv.config()
 
@@ -10,30 +22,147 @@ const isDev = process.env.NODE_ENV === "development"
 const isDevTest = process.env.IS_DEV_TEST === "true"
 const MOCK_API_WAIT_TIME = Number(process.env.MOCK_API_WAIT_TIME) || 500
 
+export type StreamSource = "chat" | "solution"
+
+function isSameConfig(a: ProviderConfig, b: ProviderConfig): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof ProviderConfig>
+  return Array.from(keys).every((key) => (a[key] || undefined) === (b[key] || undefined))
+}
+
+// The language set in the settings, otherwise the active profile's
+function getLanguage({ prompts, profiles }: AppSettings): string | undefined {
+  return prompts.language || findProfile(profiles.active, profiles.custom)?.language
+}
+
 export class ProcessingHelper {
   private appState: AppState
   private llmHelper: LLMHelper
   private currentProcessingAbortController: AbortController | null = null
   private currentExtraProcessingAbortController: AbortController | null = null
+  // Ids of the in-flight requests; results for any other id are stale and dropped
+  private currentProcessingRequestId: string | null = null
+  private currentExtraProcessingRequestId: string | null = null
+  private activeStreams: Map<string, AbortController> = new Map()
+  private pendingRequests: Set<AbortController> = new Set()
 
   constructor(appState: AppState) {
     this.appState = appState
     
-    // Check if user wants to use Ollama
-    const useOllama = process.env.USE_OLLAMA === "true"
-    const ollamaModel = process.env.OLLAMA_MODEL // Don't set default here, let LLMHelper auto-detect
-    const ollamaUrl = process.env.OLLAMA_URL || "http://localhost:11434"
-    
-    if (useOllama) {
-      console.log("[ProcessingHelper] Initializing with Ollama")
-      this.llmHelper = new LLMHelper(undefined, true, ollamaModel, ollamaUrl)
-    } else {
-      const apiKey = process.env.GEMINI_API_KEY
-      if (!apiKey) {
-        throw new Error("GEMINI_API_KEY not found in environment variables. Set GEMINI_API_KEY or enable Ollama with USE_OLLAMA=true")
+    const settingsHelper = this.appState.getSettingsHelper()
+    const settings = settingsHelper.get()
+    const { llm } = settings
+    const providerId = llm.provider
+    const providerConfigs = this.withApiKeys(llm.providers)
+    if (providerId === "gemini" && !providerConfigs.gemini?.apiKey) {
+      throw new Error("No Gemini API key configured. Set GEMINI_API_KEY, enable Ollama with USE_OLLAMA=true or pick another provider in settings.json")
+    }
+    console.log(`[ProcessingHelper] Initializing with ${providerId}`)
+    this.llmHelper = new LLMHelper(providerId, providerConfigs[providerId], {
+      fallbackProviders: llm.fallbackProviders,
+      providerConfigs,
+      retry: llm.retry,
+      promptTemplates: this.appState.getPromptTemplateHelper(),
+      language: getLanguage(settings),
+      getTranscript: () => this.appState.getLiveTranscriptHelper().getContext(),
+      speechToText: settings.speechToText,
+      onProviderUsed: (usage) => {
+        this.sendToRenderer(this.appState.PROCESSING_EVENTS.LLM_PROVIDER_USED, usage)
+        // Live captions transcribe every few seconds; their segments are recorded instead
+        if (usage.operation === "transcribe") return
+        this.appState.getSessionHistoryHelper().recordProviderUsage(this.appState.getActiveProfile().id, usage)
+      }
+    })
+
+    settingsHelper.subscribe((settings, previous) => {
+      const relevant = (value: AppSettings) => [value.llm, value.prompts, value.profiles, value.speechToText]
+      if (JSON.stringify(relevant(settings)) !== JSON.stringify(relevant(previous))) {
+        this.applySettings(settings)
       }
-      console.log("[ProcessingHelper] Initializing with Gemini")
-      this.llmHelper = new LLMHelper(apiKey, false)
+    })
+  }
+
+  // Adds the stored API keys to the provider settings
+  private withApiKeys(providers: AppSettings["llm"]["providers"]): Partial<Record<ProviderId, ProviderConfig>> {
+    const credentialsHelper = this.appState.getCredentialsHelper()
+    const configs: Partial<Record<ProviderId, ProviderConfig>> = { ...providers }
+    for (const id of API_KEY_PROVIDERS) {
+      const apiKey = credentialsHelper.getKey(id)
+      if (apiKey) configs[id] = { ...configs[id], apiKey }
+    }
+    return configs
+  }
+
+  // Brings the LLM helper in line with changed settings
+  private applySettings(settings: AppSettings): void {
+    const { llm } = settings
+    const providerConfigs = this.withApiKeys(llm.providers)
+    this.llmHelper.setProviderConfigs(providerConfigs)
+    this.llmHelper.setFallbackProviders(llm.fallbackProviders)
+    this.llmHelper.setRetryOptions(llm.retry)
+    this.llmHelper.setLanguage(getLanguage(settings))
+    this.llmHelper.setSpeechToText(settings.speechToText)
+
+    const config = providerConfigs[llm.provider] || {}
+    if (llm.provider !== this.llmHelper.getCurrentProvider() || !isSameConfig(config, this.llmHelper.getProviderConfig(llm.provider))) {
+      this.llmHelper.switchProvider(llm.provider, config).catch((error) => {
+        console.error(`[ProcessingHelper] Failed to switch to ${llm.provider} from settings:`, error)
+      })
+    }
+  }
+
+  /**
+   * Whether screenshots go to the model as OCR text: always in "always" mode,
+   * and in "auto" mode when the active model cannot read images.
+   */
+  private async shouldUseOcr(): Promise<boolean> {
+    const { mode } = this.appState.getOcrHelper().getSettings()
+    if (mode !== "auto") return mode === "always"
+    try {
+      return !(await this.llmHelper.supportsVision())
+    } catch (error) {
+      console.warn("[ProcessingHelper] Could not tell whether the model reads images, sending them as images:", error)
+      return false
+    }
+  }
+
+  // OCR text for each screenshot, or undefined to send the images themselves
+  private async getScreenshotTexts(imagePaths: string[]): Promise<string[] | undefined> {
+    if (imagePaths.length === 0 || !(await this.shouldUseOcr())) return undefined
+    if (imagePaths.some((filePath) => getFileKind(filePath) === "pdf")) {
+      throw new Error("PDFs cannot be sent while screenshots are read with OCR. Remove the PDF from the queue, or choose a model that reads images and set OCR to auto")
+    }
+    return this.appState.getOcrHelper().getTexts(imagePaths)
+  }
+
+  /**
+   * Splits queued files (other than audio) into images and PDFs, which are
+   * attached to the request, and text files, which are read into the prompt.
+   */
+  private async getAttachments(filePaths: string[]): Promise<{ imagePaths: string[]; textFiles: TextAttachment[] }> {
+    const screenshotHelper = this.appState.getScreenshotHelper()
+    const textFiles = await Promise.all(
+      filePaths
+        .filter((filePath) => getFileKind(filePath) === "text")
+        .map(async (filePath) => ({
+          name: screenshotHelper.getImportedFile(filePath)?.name || path.basename(filePath),
+          text: await fs.promises.readFile(filePath, "utf8")
+        }))
+    )
+    const imagePaths = filePaths.filter((filePath) => getFileKind(filePath) === "image" || getFileKind(filePath) === "pdf")
+    return { imagePaths, textFiles }
+  }
+
+  // Reads a new screenshot's text in the background when it will be needed
+  public prefetchScreenshotText(imagePath: string): void {
+    this.shouldUseOcr().then((useOcr) => {
+      if (useOcr) this.appState.getOcrHelper().prefetch(imagePath)
+    })
+  }
+
+  private sendToRenderer(channel: string, payload: any): void {
+    const mainWindow = this.appState.getMainWindow()
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(channel, payload)
     }
   }
 
@@ -44,40 +173,64 @@ export class ProcessingHelper {
     const view = this.appState.getView()
 
     if (view === "queue") {
-      const screenshotQueue = this.appState.getScreenshotHelper().getScreenshotQueue()
+      const screenshotQueue = this.appState.getScreenshotHelper().getIncludedScreenshotQueue()
       if (screenshotQueue.length === 0) {
         mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.NO_SCREENSHOTS)
         return
       }
 
-      // Check if last screenshot is an audio file
-      const allPaths = this.appState.getScreenshotHelper().getScreenshotQueue();
-      const lastPath = allPaths[allPaths.length - 1];
-      if (lastPath.endsWith('.mp3') || lastPath.endsWith('.wav')) {
+      // An audio file added last is answered on its own
+      const lastPath = screenshotQueue[screenshotQueue.length - 1];
+      const filePaths = screenshotQueue.filter((filePath) => getFileKind(filePath) !== "audio");
+
+      this.currentProcessingAbortController?.abort()
+      const requestId = uuidv4()
+      const controller = new AbortController()
+      this.currentProcessingAbortController = controller
+      this.currentProcessingRequestId = requestId
+
+      if (getFileKind(lastPath) === "audio") {
         mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.INITIAL_START);
         this.appState.setView('solutions');
         try {
-          const audioResult = await this.llmHelper.analyzeAudioFile(lastPath);
+          const audioResult = await this.llmHelper.analyzeAudioFile(lastPath, controller.signal);
+          if (this.isStaleRequest(requestId)) return;
+          this.recordAudioTranscript(audioResult.text);
           mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.PROBLEM_EXTRACTED, audioResult);
           this.appState.setProblemInfo({ problem_statement: audioResult.text, input_format: {}, output_format: {}, constraints: [], test_cases: [] });
+          this.appState.setInitialSolution({ code: audioResult.text, thoughts: [] });
           return;
         } catch (err: any) {
+          if (isAbortError(err) || this.isStaleRequest(requestId)) return;
           console.error('Audio processing error:', err);
           mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.INITIAL_SOLUTION_ERROR, err.message);
           return;
+        } finally {
+          this.finishProcessingRequest(requestId)
         }
       }
 
-      // NEW: Handle screenshot as plain text (like audio)
+      if (this.appState.getActiveProfile().layout === "code") {
+        await this.processCodeProblem(mainWindow, filePaths, requestId, controller)
+        return
+      }
+
+      // Handle the included screenshots (in capture order) as plain text, streamed into the Solutions view
       mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.INITIAL_START)
       this.appState.setView("solutions")
-      this.currentProcessingAbortController = new AbortController()
       try {
-        const imageResult = await this.llmHelper.analyzeImageFile(lastPath);
+        const { imagePaths, textFiles } = await this.getAttachments(filePaths)
+        const screenshotTexts = await this.getScreenshotTexts(imagePaths)
+        if (this.isStaleRequest(requestId)) return;
+        const text = await this.runStream(uuidv4(), "solution", controller, (onChunk) =>
+          this.llmHelper.streamImageAnalysis(imagePaths, onChunk, controller.signal, screenshotTexts, textFiles).then((result) => result.text)
+        )
+        if (this.isStaleRequest(requestId)) return;
+        const imageResult = { text, timestamp: Date.now() };
         const problemInfo = {
           problem_statement: imageResult.text,
-          input_format: { description: "Generated from screenshot", parameters: [] as any[] },
-          output_format: { description: "Generated from screenshot", type: "string", subtype: "text" },
+          input_format: { description: "Generated from screenshots", parameters: [] as any[] },
+          output_format: { description: "Generated from screenshots", type: "string", subtype: "text" },
           complexity: { time: "N/A", space: "N/A" },
           test_cases: [] as any[],
           validation_type: "manual",
@@ -85,11 +238,16 @@ export class ProcessingHelper {
         };
         mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.PROBLEM_EXTRACTED, problemInfo);
         this.appState.setProblemInfo(problemInfo);
+        this.appState.setInitialSolution({ code: imageResult.text, thoughts: [] });
       } catch (error: any) {
+        if (isAbortError(error) || this.isStaleRequest(requestId)) {
+          console.log("Image processing cancelled")
+          return
+        }
         console.error("Image processing error:", error)
         mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.INITIAL_SOLUTION_ERROR, error.message)
       } finally {
-        this.currentProcessingAbortController = null
+        this.finishProcessingRequest(requestId)
       }
       return;
     } else {
@@ -102,7 +260,11 @@ export class ProcessingHelper {
       }
 
       mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.DEBUG_START)
-      this.currentExtraProcessingAbortController = new AbortController()
+      this.currentExtraProcessingAbortController?.abort()
+      const requestId = uuidv4()
+      const controller = new AbortController()
+      this.currentExtraProcessingAbortController = controller
+      this.currentExtraProcessingRequestId = requestId
 
       try {
         // Get problem info and current solution
@@ -111,57 +273,387 @@ export class ProcessingHelper {
           throw new Error("No problem info available")
         }
 
-        // Get current solution from state
-        const currentSolution = await this.llmHelper.generateSolution(problemInfo)
-        const currentCode = currentSolution.solution.code
+        // Debug the solution the user is looking at, not a freshly generated one
+        const currentRevision = this.appState.getCurrentSolutionRevision()
+        if (!currentRevision) {
+          throw new Error("No solution available to debug")
+        }
+        const lineage = this.appState.getSolutionLineage()
 
-        // Debug the solution using vision model
+        const { imagePaths, textFiles } = await this.getAttachments(extraScreenshotQueue)
+        const screenshotTexts = await this.getScreenshotTexts(imagePaths)
+        if (this.isStaleRequest(requestId)) return
         const debugResult = await this.llmHelper.debugSolutionWithImages(
           problemInfo,
-          currentCode,
-          extraScreenshotQueue
+          lineage.map((revision) => revision.code),
+          imagePaths,
+          controller.signal,
+          screenshotTexts,
+          textFiles
         )
+        if (this.isStaleRequest(requestId)) return
+
+        const solution = debugResult.solution
+        const revision = this.appState.addSolutionRevision({
+          source: "debug",
+          code: solution.code,
+          language: solution.language || currentRevision.language,
+          thoughts: solution.changes && solution.changes.length > 0
+            ? solution.changes
+            : solution.reasoning ? [solution.reasoning] : [],
+          parentRevision: currentRevision.revision
+        })
 
         this.appState.setHasDebugged(true)
         mainWindow.webContents.send(
           this.appState.PROCESSING_EVENTS.DEBUG_SUCCESS,
-          debugResult
+          {
+            solution: {
+              old_code: currentRevision.code,
+              new_code: revision.code,
+              language: revision.language,
+              thoughts: revision.thoughts,
+              time_complexity: revision.time_complexity,
+              space_complexity: revision.space_complexity
+            },
+            revision: revision.revision,
+            revisions: this.appState.getSolutionRevisions()
+          }
         )
 
       } catch (error: any) {
+        if (isAbortError(error) || this.isStaleRequest(requestId)) {
+          console.log("Debug processing cancelled")
+          return
+        }
         console.error("Debug processing error:", error)
         mainWindow.webContents.send(
           this.appState.PROCESSING_EVENTS.DEBUG_ERROR,
           error.message
         )
       } finally {
-        this.currentExtraProcessingAbortController = null
+        this.finishProcessingRequest(requestId)
       }
     }
   }
 
+  /**
+   * Structured pipeline for profiles with the "code" layout: extracts the
+   * problem from the screenshots, then generates a solution with complexity.
+   */
+  private async processCodeProblem(mainWindow: BrowserWindow, filePaths: string[], requestId: string, controller: AbortController): Promise<void> {
+    mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.INITIAL_START)
+    this.appState.setView("solutions")
+    try {
+      const { imagePaths, textFiles } = await this.getAttachments(filePaths)
+      const screenshotTexts = await this.getScreenshotTexts(imagePaths)
+      if (this.isStaleRequest(requestId)) return
+      const extracted = await this.llmHelper.extractProblemFromImages(imagePaths, controller.signal, screenshotTexts, textFiles)
+      if (this.isStaleRequest(requestId)) return
+      const problemInfo = {
+        ...extracted,
+        input_format: {},
+        output_format: {},
+        constraints: [] as any[],
+        test_cases: [] as any[],
+        validation_type: "structured"
+      }
+      mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.PROBLEM_EXTRACTED, problemInfo)
+      this.appState.setProblemInfo(problemInfo)
+
+      const { solution } = await this.llmHelper.generateSolution(problemInfo, controller.signal)
+      if (this.isStaleRequest(requestId)) return
+      this.showInitialSolution(mainWindow, solution)
+    } catch (error: any) {
+      if (isAbortError(error) || this.isStaleRequest(requestId)) {
+        console.log("Problem solving cancelled")
+        return
+      }
+      console.error("Problem solving error:", error)
+      mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.INITIAL_SOLUTION_ERROR, error.message)
+    } finally {
+      this.finishProcessingRequest(requestId)
+    }
+  }
+
+  /**
+   * Asks for the current problem's solution again in another programming
+   * language. The new solution starts a fresh revision history.
+   */
+  public async regenerateSolution(language: string): Promise<void> {
+    const mainWindow = this.appState.getMainWindow()
+    if (!mainWindow) return
+    const problemInfo = this.appState.getProblemInfo()
+    if (!problemInfo) {
+      throw new Error("No problem info available")
+    }
+
+    this.currentProcessingAbortController?.abort()
+    const requestId = uuidv4()
+    const controller = new AbortController()
+    this.currentProcessingAbortController = controller
+    this.currentProcessingRequestId = requestId
+
+    try {
+      const { solution } = await this.llmHelper.generateSolution(problemInfo, controller.signal, language)
+      if (this.isStaleRequest(requestId)) return
+      this.showInitialSolution(mainWindow, { ...solution, language: solution.language || language })
+    } catch (error: any) {
+      if (isAbortError(error) || this.isStaleRequest(requestId)) {
+        console.log("Solution regeneration cancelled")
+        return
+      }
+      console.error("Solution regeneration error:", error)
+      mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.INITIAL_SOLUTION_ERROR, error.message)
+    } finally {
+      this.finishProcessingRequest(requestId)
+    }
+  }
+
+  private showInitialSolution(mainWindow: BrowserWindow, solution: SolutionPayload["solution"]): void {
+    const revision = this.appState.setInitialSolution({
+      code: solution.code,
+      language: solution.language || undefined,
+      thoughts: solution.thoughts && solution.thoughts.length > 0
+        ? solution.thoughts
+        : solution.reasoning ? [solution.reasoning] : [],
+      time_complexity: solution.time_complexity,
+      space_complexity: solution.space_complexity
+    })
+    mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.SOLUTION_SUCCESS, {
+      solution: {
+        code: revision.code,
+        language: revision.language,
+        thoughts: revision.thoughts,
+        time_complexity: revision.time_complexity,
+        space_complexity: revision.space_complexity
+      }
+    })
+  }
+
+  private isStaleRequest(requestId: string): boolean {
+    const isCurrent =
+      requestId === this.currentProcessingRequestId ||
+      requestId === this.currentExtraProcessingRequestId
+    if (!isCurrent) {
+      console.log(`Discarding result of cancelled request ${requestId}`)
+    }
+    return !isCurrent
+  }
+
+  // Clear the request's bookkeeping unless a newer request has already replaced it
+  private finishProcessingRequest(requestId: string): void {
+    if (this.currentProcessingRequestId === requestId) {
+      this.currentProcessingRequestId = null
+      this.currentProcessingAbortController = null
+    }
+    if (this.currentExtraProcessingRequestId === requestId) {
+      this.currentExtraProcessingRequestId = null
+      this.currentExtraProcessingAbortController = null
+    }
+  }
+
   public cancelOngoingRequests(): void {
+    const cancelledRequestIds = [
+      this.currentProcessingRequestId,
+      this.currentExtraProcessingRequestId
+    ].filter((requestId): requestId is string => requestId !== null)
+
     if (this.currentProcessingAbortController) {
       this.currentProcessingAbortController.abort()
       this.currentProcessingAbortController = null
     }
+    this.currentProcessingRequestId = null
 
     if (this.currentExtraProcessingAbortController) {
       this.currentExtraProcessingAbortController.abort()
       this.currentExtraProcessingAbortController = null
     }
+    this.currentExtraProcessingRequestId = null
+
+    this.activeStreams.forEach((controller) => controller.abort())
+    this.activeStreams.clear()
+    this.pendingRequests.forEach((controller) => controller.abort())
+    this.pendingRequests.clear()
 
     this.appState.setHasDebugged(false)
+
+    if (cancelledRequestIds.length > 0) {
+      const mainWindow = this.appState.getMainWindow()
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.PROCESSING_CANCELLED, {
+          requestIds: cancelledRequestIds
+        })
+      }
+    }
+  }
+
+  /**
+   * Runs a streaming LLM call, forwarding each chunk to the renderer tagged with
+   * the stream id and source. Resolves with the full text; rejects on error or
+   * cancellation after notifying the renderer.
+   */
+  private async runStream(
+    streamId: string,
+    source: StreamSource,
+    controller: AbortController,
+    produce: (onChunk: (chunk: string) => void) => Promise<string>
+  ): Promise<string> {
+    const send = (channel: string, payload: any) => this.sendToRenderer(channel, payload)
+
+    // Settle as soon as the stream is cancelled, even if the provider keeps going
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener("abort", () => reject(createAbortError()), { once: true })
+    })
+
+    this.activeStreams.set(streamId, controller)
+    try {
+      const text = await Promise.race([
+        produce((chunk) => {
+          if (!controller.signal.aborted) {
+            send(this.appState.PROCESSING_EVENTS.STREAM_CHUNK, { streamId, source, chunk })
+          }
+        }),
+        aborted
+      ])
+      send(this.appState.PROCESSING_EVENTS.STREAM_DONE, { streamId, source, text, cancelled: false })
+      return text
+    } catch (error: any) {
+      if (isAbortError(error) || controller.signal.aborted) {
+        send(this.appState.PROCESSING_EVENTS.STREAM_DONE, { streamId, source, text: "", cancelled: true })
+        throw error
+      }
+      send(this.appState.PROCESSING_EVENTS.STREAM_ERROR, { streamId, source, error: error.message })
+      throw error
+    } finally {
+      this.activeStreams.delete(streamId)
+    }
+  }
+
+  /**
+   * Starts a streamed chat reply and returns its id right away; the text arrives
+   * through the stream events. The exchange is added to the conversation once the
+   * reply finishes, or with the partial reply if it is cancelled.
+   */
+  public startChatStream(message: string, conversationId?: string): string {
+    const conversations = this.appState.getConversationHelper()
+    const targetId = conversationId || conversations.getActiveConversation().id
+    const streamId = uuidv4()
+    const controller = new AbortController()
+    let partialText = ""
+    this.runStream(streamId, "chat", controller, async (onChunk) => {
+      const messages = await this.buildChatContext(targetId, message, controller.signal)
+      return this.llmHelper.streamChat(messages, (chunk) => {
+        partialText += chunk
+        onChunk(chunk)
+      }, controller.signal)
+    }).then((text) => {
+      conversations.addExchange(targetId, message, text)
+      this.recordChatExchange(message, text)
+    }).catch((error) => {
+      if (!isAbortError(error)) {
+        console.error("Chat stream error:", error)
+      } else if (partialText) {
+        conversations.addExchange(targetId, message, partialText)
+        this.recordChatExchange(message, partialText)
+      }
+    })
+    return streamId
+  }
+
+  /**
+   * Answers an utterance picked up from the live transcript as a streamed chat
+   * message, and tells the renderer which stream to show it in.
+   */
+  public answerVoiceQuestion(question: string, speaker?: Speaker): string {
+    const asker = speaker === "them" ? "the other person just asked" : speaker === "me" ? "I just asked" : "was just asked in the conversation"
+    const message = `Answer what ${asker}: "${question}"`
+    const conversationId = this.appState.getConversationHelper().getActiveConversation().id
+    const streamId = this.startChatStream(message, conversationId)
+    this.sendToRenderer(this.appState.PROCESSING_EVENTS.VOICE_QUESTION, { streamId, message, conversationId })
+    return streamId
+  }
+
+  public cancelStream(streamId: string): boolean {
+    const controller = this.activeStreams.get(streamId)
+    if (!controller) return false
+    controller.abort()
+    this.activeStreams.delete(streamId)
+    return true
+  }
+
+  // Runs a one-off LLM call that cancelOngoingRequests can abort
+  private async runCancellable<T>(run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController()
+    this.pendingRequests.add(controller)
+    try {
+      return await run(controller.signal)
+    } finally {
+      this.pendingRequests.delete(controller)
+    }
   }
 
   public async processAudioBase64(data: string, mimeType: string) {
     // Directly use LLMHelper to analyze inline base64 audio
-    return this.llmHelper.analyzeAudioFromBase64(data, mimeType);
+    const result = await this.runCancellable((signal) => this.llmHelper.analyzeAudioFromBase64(data, mimeType, signal));
+    this.recordAudioTranscript(result.text);
+    return result;
   }
 
   // Add audio file processing method
   public async processAudioFile(filePath: string) {
-    return this.llmHelper.analyzeAudioFile(filePath);
+    const result = await this.runCancellable((signal) => this.llmHelper.analyzeAudioFile(filePath, signal));
+    this.recordAudioTranscript(result.text);
+    return result;
+  }
+
+  private recordAudioTranscript(text: string): void {
+    this.appState.getSessionHistoryHelper().recordAudioTranscript(this.appState.getActiveProfile().id, text)
+  }
+
+  private recordChatExchange(message: string, reply: string): void {
+    this.appState.getSessionHistoryHelper().recordChatExchange(this.appState.getActiveProfile().id, message, reply)
+  }
+
+  // Like processScreenshots, the image stays on this machine when OCR is in use
+  public async processImageFile(filePath: string) {
+    const screenshotTexts = await this.getScreenshotTexts([filePath])
+    return this.runCancellable((signal) => this.llmHelper.analyzeImageFile(filePath, signal, screenshotTexts?.[0]));
+  }
+
+  public async chat(message: string, conversationId?: string): Promise<string> {
+    const conversations = this.appState.getConversationHelper()
+    const targetId = conversationId || conversations.getActiveConversation().id
+    const text = await this.runCancellable(async (signal) => {
+      const messages = await this.buildChatContext(targetId, message, signal)
+      return this.llmHelper.chat(messages, signal)
+    });
+    conversations.addExchange(targetId, message, text);
+    this.recordChatExchange(message, text);
+    return text;
+  }
+
+  /**
+   * Messages to send for the next chat turn. Older turns are summarized once the
+   * history outgrows the context budget; if that fails they are simply trimmed.
+   */
+  private async buildChatContext(conversationId: string, message: string, signal: AbortSignal): Promise<ChatMessage[]> {
+    const conversations = this.appState.getConversationHelper()
+    const toSummarize = conversations.getMessagesToSummarize(conversationId, message)
+    if (toSummarize.length > 0) {
+      try {
+        const previousSummary = conversations.getConversation(conversationId)?.summary
+        const summary = await this.llmHelper.summarizeConversation(previousSummary, toSummarize, signal)
+        conversations.applySummary(conversationId, summary, toSummarize.length)
+      } catch (error) {
+        if (isAbortError(error)) throw error
+        console.error("Failed to summarize conversation, trimming history instead:", error)
+      }
+    }
+    const messages = conversations.buildContext(conversationId, message)
+    const transcript = this.appState.getLiveTranscriptHelper().getContext()
+    if (!transcript) return messages
+    return [{ role: "system", content: renderTemplate(TRANSCRIPT_SECTION, { transcript, speakers: hasSpeakerLabels(transcript) }).trim() }, ...messages]
   }
 
   public getLLMHelper() {
@@ -0,0 +1,440 @@
+// PromptTemplateHelper.ts
+
+import fs from "node:fs"
+import { JsonSchema } from "./StructuredOutput"
+import { PROBLEM_SCHEMA, SOLUTION_SCHEMA, DEBUG_SCHEMA } from "./LLMSchemas"
+import type { AssistantProfile } from "./AssistantProfiles"
+
+// Templates are edited per profile; edits made before a profile is chosen belong to this one
+export const DEFAULT_PROFILE_ID = "general"
+
+export type PromptTemplateId =
+  | "system"
+  | "extract-problem"
+  | "generate-solution"
+  | "debug-solution"
+  | "analyze-image"
+  | "analyze-audio"
+
+export type PromptOutputFormat = "text" | "json"
+
+export type PromptVariable =
+  | "system"
+  | "language"
+  | "problem"
+  | "current"
+  | "history"
+  | "screenshotCount"
+  | "multipleScreenshots"
+  | "schema"
+  | "transcript"
+  | "speakers"
+
+export type PromptVariables = Partial<Record<PromptVariable, string | number | boolean | undefined>>
+
+export const PROMPT_VARIABLE_DESCRIPTIONS: Record<PromptVariable, string> = {
+  system: "The rendered system template",
+  language: "Preferred programming language from the settings (may be empty)",
+  problem: "The extracted problem, as JSON",
+  current: "The response being debugged",
+  history: "Earlier versions of the response, oldest first (may be empty)",
+  screenshotCount: "Number of screenshots sent with the prompt",
+  multipleScreenshots: "True when more than one screenshot is sent; use as a section",
+  schema: "The JSON schema the reply must match (JSON templates only)",
+  transcript: "Recent live transcript with timestamps, lines marked Me: or Them: when system audio is recorded (empty unless live captions are on)",
+  speakers: "True when the transcript marks who said each line; use as a section"
+}
+
+interface PromptTemplateDefinition {
+  name: string
+  description: string
+  variables: PromptVariable[]
+  // Formats the caller can handle; the first one is the default
+  formats: PromptOutputFormat[]
+  body: string
+  defaultSchema?: JsonSchema
+}
+
+export interface PromptTemplateOverride {
+  body?: string
+  outputFormat?: PromptOutputFormat
+  // Replaces defaultSchema; must keep every field the app reads
+  schema?: JsonSchema
+}
+
+export interface PromptTemplate {
+  id: PromptTemplateId
+  name: string
+  description: string
+  variables: PromptVariable[]
+  formats: PromptOutputFormat[]
+  outputFormat: PromptOutputFormat
+  body: string
+  defaultBody: string
+  schema?: JsonSchema
+  defaultSchema?: JsonSchema
+  customized: boolean
+}
+
+// Kept only while live captions have picked something up; who said what is only
+// explained when system audio is recorded and the lines are marked
+export const TRANSCRIPT_SECTION = `{{#transcript}}
+
+Recent live transcript of the conversation, oldest first.{{#speakers}} Lines marked "Them:" were said by the other person and lines marked "Me:" by the user. Answer the other person's questions for the user; the user's own lines show what they already said.{{/speakers}}
+{{transcript}}{{/transcript}}`
+
+// Matches a transcript line from LiveTranscriptHelper.getContext() that names its speaker
+const SPEAKER_LINE = /^\[[^\]]*\] (Me|Them): /m
+
+export function hasSpeakerLabels(transcript: string | undefined): boolean {
+  return !!transcript && SPEAKER_LINE.test(transcript)
+}
+
+const JSON_ONLY = "Important: Return ONLY the JSON object, without any markdown formatting or code blocks."
+
+const SOLUTION_EXAMPLE = `{
+  "solution": {
+    "code": "The code or main answer here.",
+    "language": "The programming language of the code, or an empty string if it is not code.",
+    "problem_statement": "Restate the problem or situation.",
+    "context": "Relevant background/context.",
+    "suggested_responses": ["First possible answer or action", "Second possible answer or action", "..."],
+    "reasoning": "Explanation of why these suggestions are appropriate."
+  }
+}`
+
+const BUILT_IN_TEMPLATES: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  system: {
+    name: "System prompt",
+    description: "Instructions placed at the start of every other template",
+    variables: ["language"],
+    formats: ["text"],
+    body: `You are Wingman AI, a helpful, proactive assistant for any kind of problem or situation (not just coding). For any user input, analyze the situation, provide a clear problem statement, relevant context, and suggest several possible responses or actions the user could take next. Always explain your reasoning. Present your suggestions as a list of options or next steps.{{#language}} Write any code in {{language}}.{{/language}}`
+  },
+  "extract-problem": {
+    name: "Extract problem",
+    description: "Reads the problem from the queued screenshots",
+    variables: ["system", "language", "transcript", "speakers", "screenshotCount", "multipleScreenshots", "schema"],
+    formats: ["json", "text"],
+    defaultSchema: PROBLEM_SCHEMA,
+    body: `{{system}}${TRANSCRIPT_SECTION}
+
+You are a wingman. Please analyze {{#multipleScreenshots}}these {{screenshotCount}} images{{/multipleScreenshots}}{{^multipleScreenshots}}this image{{/multipleScreenshots}} and extract the following information in JSON format:
+{
+  "problem_statement": "A clear statement of the problem or situation depicted in the images.",
+  "context": "Relevant background or context from the images.",
+  "suggested_responses": ["First possible answer or action", "Second possible answer or action", "..."],
+  "reasoning": "Explanation of why these suggestions are appropriate."
+}
+${JSON_ONLY}`
+  },
+  "generate-solution": {
+    name: "Generate solution",
+    description: "Answers the extracted problem",
+    variables: ["system", "language", "transcript", "speakers", "problem", "schema"],
+    formats: ["json", "text"],
+    defaultSchema: SOLUTION_SCHEMA,
+    body: `{{system}}${TRANSCRIPT_SECTION}
+
+Given this problem or situation:
+{{problem}}
+
+Please provide your response in the following JSON format:
+${SOLUTION_EXAMPLE}
+${JSON_ONLY}`
+  },
+  "debug-solution": {
+    name: "Debug solution",
+    description: "Revises the shown response using the debug screenshots",
+    variables: ["system", "language", "transcript", "speakers", "problem", "current", "history", "screenshotCount", "multipleScreenshots", "schema"],
+    formats: ["json", "text"],
+    defaultSchema: DEBUG_SCHEMA,
+    body: `{{system}}${TRANSCRIPT_SECTION}
+
+You are a wingman. Given:
+1. The original problem or situation: {{problem}}
+2. The current response or approach: {{current}}
+3. The debug information in the provided images{{#history}}
+4. Earlier versions that were already tried, oldest first:
+{{history}}{{/history}}
+
+Please analyze the debug information and revise the current response (do not start over unless it is fundamentally wrong). Provide feedback in this JSON format:
+{
+  "solution": {
+    "code": "The code or main answer here.",
+    "language": "The programming language of the code, or an empty string if it is not code.",
+    "problem_statement": "Restate the problem or situation.",
+    "context": "Relevant background/context.",
+    "changes": ["First change made to the current response and why", "..."],
+    "suggested_responses": ["First possible answer or action", "Second possible answer or action", "..."],
+    "reasoning": "Explanation of why these suggestions are appropriate."
+  }
+}
+${JSON_ONLY}`
+  },
+  "analyze-image": {
+    name: "Analyze screenshots",
+    description: "Streams a plain answer for the queued screenshots",
+    variables: ["system", "language", "transcript", "speakers", "screenshotCount", "multipleScreenshots"],
+    formats: ["text"],
+    body: `{{system}}${TRANSCRIPT_SECTION}
+
+{{#multipleScreenshots}}These {{screenshotCount}} images are consecutive captures of the same screen, in order (for example a long question scrolled across several screenshots). Treat them as one piece of content and describe it in a short, concise answer.{{/multipleScreenshots}}{{^multipleScreenshots}}Describe the content of this image in a short, concise answer.{{/multipleScreenshots}} In addition to your main answer, suggest several possible actions or responses the user could take next based on the {{#multipleScreenshots}}images{{/multipleScreenshots}}{{^multipleScreenshots}}image{{/multipleScreenshots}}. Do not return a structured JSON object, just answer naturally as you would to a user. Be concise and brief.`
+  },
+  "analyze-audio": {
+    name: "Analyze audio",
+    description: "Answers a recorded or queued audio clip",
+    variables: ["system", "language", "transcript", "speakers"],
+    formats: ["text"],
+    body: `{{system}}${TRANSCRIPT_SECTION}
+
+Describe this audio clip in a short, concise answer. In addition to your main answer, suggest several possible actions or responses the user could take next based on the audio. Do not return a structured JSON object, just answer naturally as you would to a user and be concise.`
+  }
+}
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(BUILT_IN_TEMPLATES) as PromptTemplateId[]
+
+// Values shown in the editor preview
+const SAMPLE_VARIABLES: PromptVariables = {
+  language: "Python",
+  problem: JSON.stringify({ problem_statement: "Reverse a linked list in place." }, null, 2),
+  current: "def reverse(head): ...",
+  history: "--- Version 1 ---\ndef reverse(head): return head",
+  screenshotCount: 2,
+  multipleScreenshots: true,
+  transcript: "[10:02:14] Them: How would you reverse a linked list?\n[10:02:19] Me: Iteratively, with three pointers.\n[10:02:25] Them: Can you do it without extra memory?",
+  speakers: true
+}
+
+function isTruthy(value: PromptVariables[PromptVariable]): boolean {
+  return value !== undefined && value !== "" && value !== false && value !== 0
+}
+
+/**
+ * Renders `{{name}}` placeholders plus `{{#name}}...{{/name}}` sections (kept
+ * when the variable is set) and `{{^name}}...{{/name}}` (kept when it is not).
+ * Sections may be nested in sections of another variable.
+ */
+export function renderTemplate(body: string, variables: PromptVariables): string {
+  let withSections = body
+  let previous: string
+  do {
+    previous = withSections
+    withSections = withSections.replace(
+      /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g,
+      (_, kind: string, name: PromptVariable, inner: string) => ((kind === "#") === isTruthy(variables[name]) ? inner : "")
+    )
+  } while (withSections !== previous)
+  return withSections.replace(/\{\{(\w+)\}\}/g, (_, name: PromptVariable) => {
+    const value = variables[name]
+    return value === undefined ? "" : String(value)
+  })
+}
+
+function getTemplateVariableNames(body: string): string[] {
+  return Array.from(new Set(Array.from(body.matchAll(/\{\{[#^/]?(\w+)\}\}/g), (match) => match[1])))
+}
+
+// Lists the fields of `required` that `schema` drops or changes the type of
+function findMissingFields(schema: JsonSchema, required: JsonSchema, path: string = "$"): string[] {
+  if (schema.type !== required.type) return [`${path} must be a ${required.type}`]
+  if (required.type === "array" && schema.type === "array") {
+    return findMissingFields(schema.items, required.items, `${path}[]`)
+  }
+  if (required.type === "object" && schema.type === "object") {
+    return (required.required || []).flatMap((key) => {
+      const property = schema.properties?.[key]
+      if (!property || !(schema.required || []).includes(key)) return [`${path}.${key} must stay required`]
+      return findMissingFields(property, required.properties[key], `${path}.${key}`)
+    })
+  }
+  return []
+}
+
+type TemplateOverrides = Partial<Record<PromptTemplateId, PromptTemplateOverride>>
+
+/**
+ * Built-in prompt templates, replaced in part by the active assistant profile,
+ * with the user's edits (kept per profile) saved to disk. Templates use named
+ * variables (see PROMPT_VARIABLE_DESCRIPTIONS) and say whether the reply is
+ * free text or JSON matching a schema.
+ */
+export class PromptTemplateHelper {
+  private readonly templatesPath?: string
+  // User edits by profile id
+  private overrides: Record<string, TemplateOverrides> = {}
+  private profileId: string = DEFAULT_PROFILE_ID
+  private profileTemplates: TemplateOverrides = {}
+
+  // Without a path the built-in templates are used and edits are not saved
+  constructor(templatesPath?: string) {
+    this.templatesPath = templatesPath
+    this.load()
+  }
+
+  private load(): void {
+    if (!this.templatesPath || !fs.existsSync(this.templatesPath)) return
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.templatesPath, "utf8"))
+      // Version 1 files predate profiles; their edits belong to the default profile
+      const profiles: Record<string, unknown> = raw.version === 1 ? { [DEFAULT_PROFILE_ID]: raw.templates } : raw.profiles || {}
+      for (const [profileId, templates] of Object.entries(profiles)) {
+        this.overrides[profileId] = this.readOverrides(templates, `profile "${profileId}"`)
+      }
+    } catch (error) {
+      console.error("[PromptTemplateHelper] Could not read prompt templates:", error)
+    }
+  }
+
+  // Keeps the valid overrides, logging the rest
+  private readOverrides(templates: unknown, source: string): TemplateOverrides {
+    const result: TemplateOverrides = {}
+    for (const [id, override] of Object.entries(templates || {})) {
+      if (!PROMPT_TEMPLATE_IDS.includes(id as PromptTemplateId)) {
+        console.warn(`[PromptTemplateHelper] Ignoring unknown template "${id}" in ${source}`)
+        continue
+      }
+      try {
+        this.validate(id as PromptTemplateId, override as PromptTemplateOverride)
+        result[id as PromptTemplateId] = override as PromptTemplateOverride
+      } catch (error) {
+        console.warn(`[PromptTemplateHelper] Ignoring the "${id}" template in ${source}: ${error.message}`)
+      }
+    }
+    return result
+  }
+
+  private save(): void {
+    if (!this.templatesPath) return
+    try {
+      const tempPath = `${this.templatesPath}.tmp`
+      fs.writeFileSync(tempPath, JSON.stringify({ version: 2, profiles: this.overrides }, null, 2))
+      fs.renameSync(tempPath, this.templatesPath)
+    } catch (error) {
+      console.error("[PromptTemplateHelper] Failed to save prompt templates:", error)
+    }
+  }
+
+  private validate(id: PromptTemplateId, override: PromptTemplateOverride): void {
+    const definition = BUILT_IN_TEMPLATES[id]
+    if (override.body !== undefined) {
+      if (typeof override.body !== "string" || !override.body.trim()) {
+        throw new Error("The template is empty")
+      }
+      const unknown = getTemplateVariableNames(override.body).filter((name) => !definition.variables.includes(name as PromptVariable))
+      if (unknown.length > 0) {
+        throw new Error(`Unknown variable${unknown.length > 1 ? "s" : ""} ${unknown.map((name) => `{{${name}}}`).join(", ")}. Available: ${definition.variables.join(", ")}`)
+      }
+    }
+    if (override.outputFormat !== undefined && !definition.formats.includes(override.outputFormat)) {
+      throw new Error(`${definition.name} supports ${definition.formats.join(" or ")} output`)
+    }
+    if (override.schema !== undefined) {
+      if (!definition.defaultSchema) {
+        throw new Error(`${definition.name} does not use a JSON schema`)
+      }
+      const missing = findMissingFields(override.schema, definition.defaultSchema)
+      if (missing.length > 0) {
+        throw new Error(`The schema is missing fields the app needs: ${missing.join("; ")}`)
+      }
+    }
+  }
+
+  public setProfile(profile: AssistantProfile): void {
+    this.profileId = profile.id
+    this.profileTemplates = this.readOverrides(profile.templates, `the ${profile.name} profile`)
+  }
+
+  // The template as the active profile defines it, before the user's edits
+  private getProfileDefault(id: PromptTemplateId): { body: string; outputFormat: PromptOutputFormat; schema?: JsonSchema } {
+    const definition = BUILT_IN_TEMPLATES[id]
+    const profileTemplate = this.profileTemplates[id] || {}
+    return {
+      body: profileTemplate.body ?? definition.body,
+      outputFormat: profileTemplate.outputFormat || definition.formats[0],
+      schema: profileTemplate.schema || definition.defaultSchema
+    }
+  }
+
+  public get(id: PromptTemplateId): PromptTemplate {
+    const definition = BUILT_IN_TEMPLATES[id]
+    if (!definition) {
+      throw new Error(`Unknown prompt template "${id}"`)
+    }
+    const profileDefault = this.getProfileDefault(id)
+    const override = this.overrides[this.profileId]?.[id] || {}
+    const outputFormat = override.outputFormat || profileDefault.outputFormat
+    return {
+      id,
+      name: definition.name,
+      description: definition.description,
+      variables: definition.variables,
+      formats: definition.formats,
+      outputFormat,
+      body: override.body ?? profileDefault.body,
+      defaultBody: profileDefault.body,
+      schema: outputFormat === "json" ? override.schema || profileDefault.schema : undefined,
+      defaultSchema: profileDefault.schema,
+      customized: Object.keys(override).length > 0
+    }
+  }
+
+  public list(): PromptTemplate[] {
+    return PROMPT_TEMPLATE_IDS.map((id) => this.get(id))
+  }
+
+  /**
+   * Saves the user's version of a template for the active profile. Values
+   * equal to the profile's are not stored, so later changes to it still apply.
+   */
+  public update(id: PromptTemplateId, override: PromptTemplateOverride): PromptTemplate {
+    this.get(id)
+    this.validate(id, override)
+    const profileDefault = this.getProfileDefault(id)
+    const profileOverrides = this.overrides[this.profileId] || {}
+    const next: PromptTemplateOverride = { ...profileOverrides[id], ...override }
+    if (next.body === profileDefault.body) delete next.body
+    if (next.outputFormat === profileDefault.outputFormat) delete next.outputFormat
+    if (next.schema && JSON.stringify(next.schema) === JSON.stringify(profileDefault.schema)) delete next.schema
+
+    if (Object.keys(next).length > 0) {
+      profileOverrides[id] = next
+    } else {
+      delete profileOverrides[id]
+    }
+    this.overrides[this.profileId] = profileOverrides
+    this.save()
+    return this.get(id)
+  }
+
+  public reset(id: PromptTemplateId): PromptTemplate {
+    delete this.overrides[this.profileId]?.[id]
+    this.save()
+    return this.get(id)
+  }
+  /**
+   * Renders a template. The system template is rendered first and passed in as
+   * {{system}}; JSON templates also receive their schema as {{schema}}.
+   */
+  public render(id: PromptTemplateId, variables: PromptVariables = {}): string {
+    const template = this.get(id)
+    const system = id === "system" ? undefined : this.render("system", { language: variables.language })
+    return renderTemplate(template.body, {
+      speakers: hasSpeakerLabels(variables.transcript?.toString()),
+      ...variables,
+      system,
+      schema: template.schema ? JSON.stringify(template.schema, null, 2) : undefined
+    }).trim()
+  }
+
+  // Renders `body` (or the saved template) with sample values for the editor
+  public preview(id: PromptTemplateId, body?: string): string {
+    const template = this.get(id)
+    const system = id === "system" ? undefined : renderTemplate(this.get("system").body, SAMPLE_VARIABLES)
+    return renderTemplate(body ?? template.body, {
+      ...SAMPLE_VARIABLES,
+      system,
+      schema: template.schema ? JSON.stringify(template.schema, null, 2) : undefined
+    }).trim()
+  }
+}
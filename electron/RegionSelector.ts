@@ -0,0 +1,125 @@
+// RegionSelector.ts
+
+import { BrowserWindow, Display } from "electron"
+import fs from "node:fs"
+
+// Area of a display in its own coordinates (DIP), as dragged in the overlay
+export interface CaptureRegion {
+  displayId: number
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Selections smaller than this (in DIP) are treated as a stray click
+const MIN_SELECTION_SIZE = 8
+
+// Shows the screenshot frozen full-screen and resolves with the dragged
+// rectangle, or null when the user presses Escape
+const OVERLAY_HTML = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'unsafe-inline'; script-src 'unsafe-inline'">
+<style>
+  html, body { margin: 0; height: 100%; overflow: hidden; cursor: crosshair; user-select: none; }
+  #capture { position: fixed; inset: 0; width: 100%; height: 100%; }
+  #shade { position: fixed; inset: 0; background: rgba(0, 0, 0, 0.35); }
+  #selection { position: fixed; display: none; outline: 1px solid #fff; box-shadow: 0 0 0 9999px rgba(0, 0, 0, 0.35); }
+  #hint { position: fixed; top: 16px; left: 50%; transform: translateX(-50%); padding: 6px 12px; border-radius: 6px;
+    background: rgba(0, 0, 0, 0.75); color: #fff; font: 12px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; pointer-events: none; }
+</style>
+</head>
+<body>
+<img id="capture" alt="">
+<div id="shade"></div>
+<div id="selection"></div>
+<div id="hint">Drag to select an area · Esc to cancel</div>
+<script>
+  window.selectRegion = (imageUrl, minSize) => new Promise((resolve) => {
+    document.getElementById("capture").src = imageUrl
+    const shade = document.getElementById("shade")
+    const selection = document.getElementById("selection")
+    let start = null
+    let rect = null
+
+    const update = (event) => {
+      const x = Math.min(start.x, event.clientX)
+      const y = Math.min(start.y, event.clientY)
+      rect = { x, y, width: Math.abs(event.clientX - start.x), height: Math.abs(event.clientY - start.y) }
+      Object.assign(selection.style, { left: x + "px", top: y + "px", width: rect.width + "px", height: rect.height + "px" })
+    }
+    window.addEventListener("mousedown", (event) => {
+      start = { x: event.clientX, y: event.clientY }
+      shade.style.display = "none"
+      selection.style.display = "block"
+      update(event)
+    })
+    window.addEventListener("mousemove", (event) => {
+      if (start) update(event)
+    })
+    window.addEventListener("mouseup", () => {
+      if (!start) return
+      start = null
+      if (rect && rect.width >= minSize && rect.height >= minSize) {
+        resolve(rect)
+      } else {
+        shade.style.display = "block"
+        selection.style.display = "none"
+      }
+    })
+    window.addEventListener("keydown", (event) => {
+      if (event.key === "Escape") resolve(null)
+    })
+  })
+</script>
+</body>
+</html>`
+
+/**
+ * Covers a display with the screenshot just taken of it and lets the user
+ * drag the area to keep. Resolves to null if the selection is cancelled.
+ */
+export async function selectRegion(imagePath: string, display: Display): Promise<CaptureRegion | null> {
+  const imageUrl = `data:image/png;base64,${(await fs.promises.readFile(imagePath)).toString("base64")}`
+  const { bounds } = display
+
+  const overlay = new BrowserWindow({
+    x: bounds.x,
+    y: bounds.y,
+    width: bounds.width,
+    height: bounds.height,
+    frame: false,
+    resizable: false,
+    movable: false,
+    fullscreenable: false,
+    enableLargerThanScreen: true,
+    skipTaskbar: true,
+    alwaysOnTop: true,
+    hasShadow: false,
+    show: false,
+    webPreferences: {
+      contextIsolation: true,
+      nodeIntegration: false,
+      sandbox: true
+    }
+  })
+  overlay.setAlwaysOnTop(true, "screen-saver")
+
+  try {
+    await overlay.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(OVERLAY_HTML)}`)
+    overlay.show()
+    overlay.focus()
+
+    const closed = new Promise<null>((resolve) => overlay.once("closed", () => resolve(null)))
+    const selected: Promise<Omit<CaptureRegion, "displayId"> | null> = overlay.webContents.executeJavaScript(
+      `window.selectRegion(${JSON.stringify(imageUrl)}, ${MIN_SELECTION_SIZE})`,
+      true
+    ).catch((): null => null)
+    const rect = await Promise.race([selected, closed])
+    return rect ? { displayId: display.id, ...rect } : null
+  } finally {
+    if (!overlay.isDestroyed()) overlay.destroy()
+  }
+}
@@ -2,22 +2,71 @@
 
 import path from "node:path"
 import fs from "node:fs"
-import { app } from "electron"
+import { app, BrowserWindow, desktopCapturer, nativeImage, screen } from "electron"
 import { v4 as uuidv4 } from "uuid"
 import screenshot from "screenshot-desktop"
+import { deleteOcrCache } from "./OcrHelper"
+import { CaptureRegion, selectRegion } from "./RegionSelector"
+import { CaptureDisplay, getScreenshotScreenId, resolveCaptureDisplay } from "./CaptureDisplays"
+import { getActiveWindow, getSourceWindowId } from "./ActiveWindow"
+import { MAX_FILE_SIZES, QueuedFileKind, detectFileType, formatFileSize, getFileKind, getMimeType } from "./FileTypes"
+
+// "lastRegion" repeats the previous region selection without asking again
+export type CaptureMode = "full" | "region" | "window" | "lastRegion"
+
+export interface ScreenshotMetadata {
+  mode: "full" | "region" | "window"
+  // The part of the display that was kept, for region captures
+  region?: CaptureRegion
+  windowTitle?: string
+  capturedAt: number
+}
+
+// A file the user added to the queue instead of capturing it
+export interface ImportedFile {
+  // Name of the original file; the copy in the queue has a generated one
+  name: string
+  mimeType: string
+  kind: QueuedFileKind
+  size: number
+}
+
+export interface FileImportResult {
+  // Queued copies of the files that were added
+  paths: string[]
+  // One message per file that was refused
+  errors: string[]
+}
+
+// Characters of a text file shown in its queue preview
+const TEXT_PREVIEW_LENGTH = 400
+const PDF_THUMBNAIL_SIZE = { width: 256, height: 256 }
 
 export class ScreenshotHelper {
   private screenshotQueue: string[] = []
   private extraScreenshotQueue: string[] = []
-  private readonly MAX_SCREENSHOTS = 5
+  // Screenshots the user left in the queue but excluded from the next solve
+  private excludedScreenshots: Set<string> = new Set()
+  private maxScreenshots: number
+  // How each queued screenshot was taken
+  private metadata: Map<string, ScreenshotMetadata> = new Map()
+  private importedFiles: Map<string, ImportedFile> = new Map()
+  private lastRegion: CaptureRegion | null = null
+  private captureDisplay: CaptureDisplay
 
   private readonly screenshotDir: string
   private readonly extraScreenshotDir: string
 
   private view: "queue" | "solutions" = "queue"
 
-  constructor(view: "queue" | "solutions" = "queue") {
+  constructor(
+    view: "queue" | "solutions" = "queue",
+    maxScreenshots: number = 5,
+    captureDisplay: CaptureDisplay = "cursor"
+  ) {
     this.view = view
+    this.maxScreenshots = maxScreenshots
+    this.captureDisplay = captureDisplay
 
     // Initialize directories
     this.screenshotDir = path.join(app.getPath("userData"), "screenshots")
@@ -43,6 +92,15 @@ export class ScreenshotHelper {
     this.view = view
   }
 
+  // A lower limit takes effect with the next screenshot
+  public setMaxScreenshots(maxScreenshots: number): void {
+    this.maxScreenshots = maxScreenshots
+  }
+
+  public setCaptureDisplay(captureDisplay: CaptureDisplay): void {
+    this.captureDisplay = captureDisplay
+  }
+
   public getScreenshotQueue(): string[] {
     return this.screenshotQueue
   }
@@ -51,9 +109,27 @@ export class ScreenshotHelper {
     return this.extraScreenshotQueue
   }
 
+  // Queued screenshots in capture order, without the excluded ones
+  public getIncludedScreenshotQueue(): string[] {
+    return this.screenshotQueue.filter((filePath) => !this.excludedScreenshots.has(filePath))
+  }
+
+  public isScreenshotIncluded(filePath: string): boolean {
+    return !this.excludedScreenshots.has(filePath)
+  }
+
+  public setScreenshotIncluded(filePath: string, included: boolean): void {
+    if (included) {
+      this.excludedScreenshots.delete(filePath)
+    } else {
+      this.excludedScreenshots.add(filePath)
+    }
+  }
+
   public clearQueues(): void {
     // Clear screenshotQueue
     this.screenshotQueue.forEach((screenshotPath) => {
+      deleteOcrCache(screenshotPath)
       fs.unlink(screenshotPath, (err) => {
         if (err)
           console.error(`Error deleting screenshot at ${screenshotPath}:`, err)
@@ -63,6 +139,7 @@ export class ScreenshotHelper {
 
     // Clear extraScreenshotQueue
     this.extraScreenshotQueue.forEach((screenshotPath) => {
+      deleteOcrCache(screenshotPath)
       fs.unlink(screenshotPath, (err) => {
         if (err)
           console.error(
@@ -72,52 +149,33 @@ export class ScreenshotHelper {
       })
     })
     this.extraScreenshotQueue = []
+    this.excludedScreenshots.clear()
+    this.metadata.clear()
+    this.importedFiles.clear()
   }
 
+  /**
+   * Captures the screen (or the part `mode` asks for) into the current queue.
+   * Resolves to null when the user cancels a region selection.
+   */
   public async takeScreenshot(
     hideMainWindow: () => void,
-    showMainWindow: () => void
-  ): Promise<string> {
+    showMainWindow: () => void,
+    mode: CaptureMode = "full"
+  ): Promise<string | null> {
     try {
       hideMainWindow()
       
       // Add a small delay to ensure window is hidden
       await new Promise(resolve => setTimeout(resolve, 100))
       
-      let screenshotPath = ""
-
-      if (this.view === "queue") {
-        screenshotPath = path.join(this.screenshotDir, `${uuidv4()}.png`)
-        await screenshot({ filename: screenshotPath })
-
-        this.screenshotQueue.push(screenshotPath)
-        if (this.screenshotQueue.length > this.MAX_SCREENSHOTS) {
-          const removedPath = this.screenshotQueue.shift()
-          if (removedPath) {
-            try {
-              await fs.promises.unlink(removedPath)
-            } catch (error) {
-              console.error("Error removing old screenshot:", error)
-            }
-          }
-        }
-      } else {
-        screenshotPath = path.join(this.extraScreenshotDir, `${uuidv4()}.png`)
-        await screenshot({ filename: screenshotPath })
-
-        this.extraScreenshotQueue.push(screenshotPath)
-        if (this.extraScreenshotQueue.length > this.MAX_SCREENSHOTS) {
-          const removedPath = this.extraScreenshotQueue.shift()
-          if (removedPath) {
-            try {
-              await fs.promises.unlink(removedPath)
-            } catch (error) {
-              console.error("Error removing old screenshot:", error)
-            }
-          }
-        }
-      }
+      const directory = this.view === "queue" ? this.screenshotDir : this.extraScreenshotDir
+      const screenshotPath = path.join(directory, `${uuidv4()}.png`)
+      const metadata = await this.capture(screenshotPath, mode)
+      if (!metadata) return null
+      this.metadata.set(screenshotPath, metadata)
 
+      await this.addToQueue(screenshotPath)
       return screenshotPath
     } catch (error) {
       console.error("Error taking screenshot:", error)
@@ -128,21 +186,208 @@ export class ScreenshotHelper {
     }
   }
 
+  // Adds to the current queue, dropping the oldest entries beyond the limit
+  private async addToQueue(filePath: string): Promise<void> {
+    const queue = this.view === "queue" ? this.screenshotQueue : this.extraScreenshotQueue
+    queue.push(filePath)
+    while (queue.length > this.maxScreenshots) {
+      const removedPath = queue.shift()
+      if (removedPath) {
+        deleteOcrCache(removedPath)
+        this.excludedScreenshots.delete(removedPath)
+        this.metadata.delete(removedPath)
+        this.importedFiles.delete(removedPath)
+        try {
+          await fs.promises.unlink(removedPath)
+        } catch (error) {
+          console.error("Error removing old screenshot:", error)
+        }
+      }
+    }
+  }
+
+  /**
+   * Copies files the user dropped on the window or picked in the file-open
+   * dialog into the current queue, in order. Each file is recognized by its
+   * content and checked against the size limit for its kind; files that do
+   * not pass are skipped with a message saying why.
+   */
+  public async importFiles(filePaths: string[]): Promise<FileImportResult> {
+    const result: FileImportResult = { paths: [], errors: [] }
+    for (const filePath of filePaths) {
+      try {
+        result.paths.push(await this.importFile(filePath))
+      } catch (error) {
+        console.error(`Error adding ${filePath} to the queue:`, error)
+        result.errors.push(error.message)
+      }
+    }
+    return result
+  }
+
+  private async importFile(filePath: string): Promise<string> {
+    const name = path.basename(filePath)
+    const stats = await fs.promises.stat(filePath).catch((): null => null)
+    if (!stats || !stats.isFile()) {
+      throw new Error(`${name} is not a file that can be read`)
+    }
+    if (stats.size === 0) {
+      throw new Error(`${name} is empty`)
+    }
+    const fileType = await detectFileType(filePath)
+    if (!fileType) {
+      throw new Error(`${name} is not an image, PDF, audio or text file`)
+    }
+    const maxSize = MAX_FILE_SIZES[fileType.kind]
+    if (stats.size > maxSize) {
+      throw new Error(`${name} is ${formatFileSize(stats.size)}; ${fileType.kind} files can be at most ${formatFileSize(maxSize)}`)
+    }
+    // Debugging compares screenshots with the solution; an audio clip has no place there
+    if (fileType.kind === "audio" && this.view !== "queue") {
+      throw new Error(`${name} is audio, which can only be added before solving`)
+    }
+
+    const directory = this.view === "queue" ? this.screenshotDir : this.extraScreenshotDir
+    const queuedPath = path.join(directory, `${uuidv4()}${fileType.extension}`)
+    await fs.promises.copyFile(filePath, queuedPath)
+    this.importedFiles.set(queuedPath, { name, mimeType: fileType.mimeType, kind: fileType.kind, size: stats.size })
+    await this.addToQueue(queuedPath)
+    return queuedPath
+  }
+
+  // Writes the capture to `screenshotPath`; null if the user cancelled
+  private async capture(screenshotPath: string, mode: CaptureMode): Promise<ScreenshotMetadata | null> {
+    const capturedAt = Date.now()
+    if (mode === "window") {
+      const windowTitle = await this.captureActiveWindow(screenshotPath)
+      return { mode, windowTitle, capturedAt }
+    }
+
+    const display = resolveCaptureDisplay(this.captureDisplay)
+    const screenId = await getScreenshotScreenId(display)
+    await screenshot(screenId === undefined ? { filename: screenshotPath } : { filename: screenshotPath, screen: screenId })
+    if (mode !== "region" && mode !== "lastRegion") {
+      return { mode: "full", capturedAt }
+    }
+
+    // Without a usable earlier region, "repeat" asks for a new one
+    const lastRegion = this.lastRegion?.displayId === display.id ? this.lastRegion : null
+    const region = (mode === "lastRegion" && lastRegion) || (await selectRegion(screenshotPath, display))
+    if (!region) {
+      await fs.promises.unlink(screenshotPath).catch((): void => undefined)
+      return null
+    }
+    await this.cropScreenshot(screenshotPath, region, display)
+    this.lastRegion = region
+    return { mode: "region", region, capturedAt }
+  }
+
+  // Cuts a full-display screenshot down to a region given in display coordinates
+  private async cropScreenshot(screenshotPath: string, region: CaptureRegion, display: Electron.Display): Promise<void> {
+    const image = nativeImage.createFromPath(screenshotPath)
+    const size = image.getSize()
+    // The capture is in physical pixels; the ratio also covers scaled displays
+    const scale = size.width / display.bounds.width
+    const x = Math.max(0, Math.round(region.x * scale))
+    const y = Math.max(0, Math.round(region.y * scale))
+    const cropped = image.crop({
+      x,
+      y,
+      width: Math.min(size.width - x, Math.round(region.width * scale)),
+      height: Math.min(size.height - y, Math.round(region.height * scale))
+    })
+    await fs.promises.writeFile(screenshotPath, cropped.toPNG())
+  }
+
+  /**
+   * Saves the window that has the focus, which is the window the user was
+   * working in when they pressed the shortcut. It is matched to a capture
+   * source by its native handle, or by title on macOS. Returns its title.
+   * Throws when the focused window cannot be found, rather than capturing a
+   * different window or the whole screen.
+   */
+  private async captureActiveWindow(screenshotPath: string): Promise<string> {
+    const activeWindow = await getActiveWindow()
+    if (!activeWindow) {
+      throw new Error("Could not tell which window is active. Use a full-screen or region capture instead")
+    }
+
+    // The window can be on any display, so thumbnails may be as large as the largest one
+    const thumbnailSize = screen.getAllDisplays().reduce(
+      (largest, { size, scaleFactor }) => ({
+        width: Math.max(largest.width, Math.round(size.width * scaleFactor)),
+        height: Math.max(largest.height, Math.round(size.height * scaleFactor))
+      }),
+      { width: 0, height: 0 }
+    )
+    const ownSources = new Set(BrowserWindow.getAllWindows().map((window) => window.getMediaSourceId()))
+    const sources = await desktopCapturer.getSources({ types: ["window"], thumbnailSize })
+    const source = sources.find((candidate) =>
+      !ownSources.has(candidate.id) &&
+      (activeWindow.id !== undefined ? getSourceWindowId(candidate.id) === activeWindow.id : candidate.name === activeWindow.title)
+    )
+    if (!source || source.thumbnail.isEmpty()) {
+      const name = activeWindow.title ? `"${activeWindow.title}"` : "the active window"
+      throw new Error(`Could not capture ${name}. Use a full-screen or region capture instead`)
+    }
+    await fs.promises.writeFile(screenshotPath, source.thumbnail.toPNG())
+    return source.name
+  }
+
+  public getScreenshotMetadata(filePath: string): ScreenshotMetadata | undefined {
+    return this.metadata.get(filePath)
+  }
+
+  public getImportedFile(filePath: string): ImportedFile | undefined {
+    return this.importedFiles.get(filePath)
+  }
+
   public async getImagePreview(filepath: string): Promise<string> {
     try {
       const data = await fs.promises.readFile(filepath)
-      return `data:image/png;base64,${data.toString("base64")}`
+      return `data:${getMimeType(filepath)};base64,${data.toString("base64")}`
     } catch (error) {
       console.error("Error reading image:", error)
       throw error
     }
   }
 
+  /**
+   * What the queue shows for a file: a data URL for images and for PDFs where
+   * the system can draw a thumbnail (macOS and Windows), the start of the
+   * text for text files, and an empty string when there is nothing to show.
+   */
+  public async getFilePreview(filePath: string): Promise<string> {
+    switch (getFileKind(filePath)) {
+      case "audio":
+        return ""
+      case "text": {
+        const text = await fs.promises.readFile(filePath, "utf8")
+        return text.slice(0, TEXT_PREVIEW_LENGTH)
+      }
+      case "pdf":
+        if (process.platform === "linux") return ""
+        try {
+          const thumbnail = await nativeImage.createThumbnailFromPath(filePath, PDF_THUMBNAIL_SIZE)
+          return thumbnail.toDataURL()
+        } catch (error) {
+          console.warn("Could not draw a PDF thumbnail:", error)
+          return ""
+        }
+      default:
+        return this.getImagePreview(filePath)
+    }
+  }
+
   public async deleteScreenshot(
     path: string
   ): Promise<{ success: boolean; error?: string }> {
     try {
       await fs.promises.unlink(path)
+      await deleteOcrCache(path)
+      this.excludedScreenshots.delete(path)
+      this.metadata.delete(path)
+      this.importedFiles.delete(path)
       if (this.view === "queue") {
         this.screenshotQueue = this.screenshotQueue.filter(
           (filePath) => filePath !== path
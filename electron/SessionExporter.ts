@@ -0,0 +1,236 @@
+// SessionExporter.ts
+
+import { nativeImage } from "electron"
+import path from "node:path"
+import { pathToFileURL } from "node:url"
+import type { SessionRecord } from "./SessionHistoryHelper"
+import type { SolutionRevision } from "./main"
+import type { AssistantProfile } from "./AssistantProfiles"
+import { formatSegmentText } from "./LiveTranscriptHelper"
+
+export type ExportFormat = "markdown" | "json" | "html"
+
+export const EXPORT_FORMATS: Array<{ format: ExportFormat; name: string; extension: string }> = [
+  { format: "markdown", name: "Markdown", extension: "md" },
+  { format: "html", name: "HTML", extension: "html" },
+  { format: "json", name: "JSON", extension: "json" }
+]
+
+const THUMBNAIL_WIDTH = 480
+
+// Picks the format from the file name the user chose in the save dialog
+export function getFormatForPath(filePath: string): ExportFormat {
+  const extension = path.extname(filePath).slice(1).toLowerCase()
+  return EXPORT_FORMATS.find((entry) => entry.extension === extension)?.format || "markdown"
+}
+
+// Safe file name suggested in the save dialog
+export function getExportFileName(session: SessionRecord, format: ExportFormat): string {
+  const base = session.title.replace(/[^\w\s-]/g, "").trim().replace(/\s+/g, "-").slice(0, 50) || "session"
+  const extension = EXPORT_FORMATS.find((entry) => entry.format === format)!.extension
+  return `${base}-${new Date(session.createdAt).toISOString().slice(0, 10)}.${extension}`
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString()
+
+// Answer profiles keep the streamed reply where code profiles keep code
+function isAnswer(profile: AssistantProfile | undefined, revision: SolutionRevision): boolean {
+  return profile?.layout !== "code" && !revision.language
+}
+
+function revisionHeading(revision: SolutionRevision, answer: boolean): string {
+  const label = answer ? "Suggested response" : "Solution"
+  const source = revision.source === "debug" ? `debugged from revision ${revision.parentRevision}` : "initial"
+  return `${label} — revision ${revision.revision} (${source})`
+}
+
+// Suggestions from the problem extraction of "code" layout profiles
+function suggestedResponses(session: SessionRecord): string[] {
+  const responses = session.problemInfo?.suggested_responses
+  return Array.isArray(responses) ? responses.filter((response): response is string => typeof response === "string" && response.trim() !== "") : []
+}
+
+function providersUsed(session: SessionRecord): string[] {
+  return Array.from(new Set(session.providersUsed.map((usage) => `${usage.providerId}/${usage.model}`)))
+}
+
+function renderMarkdown(session: SessionRecord, profile: AssistantProfile | undefined): string {
+  const lines: string[] = [
+    `# ${session.title}`,
+    "",
+    `_${profile?.name || session.profileId} · ${formatTime(session.createdAt)} – ${formatTime(session.updatedAt)}_`,
+    ""
+  ]
+
+  if (session.screenshots.length > 0) {
+    lines.push("## Screenshots", "")
+    session.screenshots.forEach((screenshot, index) => {
+      lines.push(`![Screenshot ${index + 1}](${pathToFileURL(screenshot).href})`)
+    })
+    lines.push("")
+  }
+
+  if (session.problemInfo?.problem_statement) {
+    lines.push("## Problem", "", session.problemInfo.problem_statement, "")
+  }
+
+  const suggestions = suggestedResponses(session)
+  if (suggestions.length > 0) {
+    lines.push("## Suggested responses", "", ...suggestions.map((response) => `- ${response}`), "")
+  }
+
+  for (const revision of session.solutionRevisions) {
+    const answer = isAnswer(profile, revision)
+    lines.push(`## ${revisionHeading(revision, answer)}`, "")
+    if (answer) {
+      lines.push(revision.code, "")
+    } else {
+      // A longer fence keeps code that itself contains ``` intact
+      const fence = revision.code.includes("```") ? "````" : "```"
+      lines.push(fence + (revision.language || ""), revision.code, fence, "")
+    }
+    if (revision.thoughts.length > 0) {
+      lines.push("**Key insights**", "", ...revision.thoughts.map((thought) => `- ${thought}`), "")
+    }
+    if (revision.time_complexity || revision.space_complexity) {
+      lines.push(`**Time:** ${revision.time_complexity || "N/A"} · **Space:** ${revision.space_complexity || "N/A"}`, "")
+    }
+  }
+
+  if (session.chat.length > 0) {
+    lines.push("## Conversation", "")
+    for (const message of session.chat) {
+      lines.push(`**${message.role === "user" ? "You" : "Assistant"}:** ${message.content}`, "")
+    }
+  }
+
+  if (session.audioTranscripts.length > 0) {
+    lines.push("## Transcript", "")
+    for (const transcript of session.audioTranscripts) {
+      lines.push(`_${formatTime(transcript.timestamp)}_`, "", formatSegmentText(transcript), "")
+    }
+  }
+
+  const providers = providersUsed(session)
+  if (providers.length > 0) {
+    lines.push("---", "", `Answered by ${providers.join(", ")}`, "")
+  }
+
+  return lines.join("\n")
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+// Scaled-down copy of a screenshot as a data URL, or null if it can no longer be read
+function getThumbnail(screenshotPath: string): string | null {
+  const image = nativeImage.createFromPath(screenshotPath)
+  if (image.isEmpty()) return null
+  const { width } = image.getSize()
+  const thumbnail = width > THUMBNAIL_WIDTH ? image.resize({ width: THUMBNAIL_WIDTH }) : image
+  return `data:image/jpeg;base64,${thumbnail.toJPEG(80).toString("base64")}`
+}
+
+const HTML_STYLE = `
+  body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.2rem; }
+  h2 { font-size: 1.15rem; margin-top: 2rem; border-bottom: 1px solid #d0d7de; padding-bottom: 0.3rem; }
+  .meta, .time { color: #656d76; font-size: 0.85rem; }
+  .text { white-space: pre-wrap; }
+  pre { background: #282a36; color: #f8f8f2; padding: 0.8rem; border-radius: 6px; overflow-x: auto; font-size: 12px; }
+  .screenshots { display: flex; flex-wrap: wrap; gap: 0.5rem; }
+  .screenshots img { max-width: 100%; border: 1px solid #d0d7de; border-radius: 4px; }
+  .message { margin: 0.6rem 0; }
+  .message.user { font-weight: 600; }
+`
+
+function renderHtml(session: SessionRecord, profile: AssistantProfile | undefined): string {
+  const parts: string[] = [
+    `<h1>${escapeHtml(session.title)}</h1>`,
+    `<div class="meta">${escapeHtml(profile?.name || session.profileId)} · ${escapeHtml(formatTime(session.createdAt))} – ${escapeHtml(formatTime(session.updatedAt))}</div>`
+  ]
+
+  const thumbnails = session.screenshots.map(getThumbnail).filter((thumbnail): thumbnail is string => thumbnail !== null)
+  if (thumbnails.length > 0) {
+    parts.push(
+      "<h2>Screenshots</h2>",
+      `<div class="screenshots">${thumbnails.map((src, index) => `<img src="${src}" alt="Screenshot ${index + 1}">`).join("")}</div>`
+    )
+  }
+
+  if (session.problemInfo?.problem_statement) {
+    parts.push("<h2>Problem</h2>", `<div class="text">${escapeHtml(session.problemInfo.problem_statement)}</div>`)
+  }
+
+  const suggestions = suggestedResponses(session)
+  if (suggestions.length > 0) {
+    parts.push("<h2>Suggested responses</h2>", `<ul>${suggestions.map((response) => `<li>${escapeHtml(response)}</li>`).join("")}</ul>`)
+  }
+
+  for (const revision of session.solutionRevisions) {
+    const answer = isAnswer(profile, revision)
+    parts.push(`<h2>${escapeHtml(revisionHeading(revision, answer))}</h2>`)
+    parts.push(answer ? `<div class="text">${escapeHtml(revision.code)}</div>` : `<pre><code>${escapeHtml(revision.code)}</code></pre>`)
+    if (revision.thoughts.length > 0) {
+      parts.push(`<p><strong>Key insights</strong></p><ul>${revision.thoughts.map((thought) => `<li>${escapeHtml(thought)}</li>`).join("")}</ul>`)
+    }
+    if (revision.time_complexity || revision.space_complexity) {
+      parts.push(`<p><strong>Time:</strong> ${escapeHtml(revision.time_complexity || "N/A")} · <strong>Space:</strong> ${escapeHtml(revision.space_complexity || "N/A")}</p>`)
+    }
+  }
+
+  if (session.chat.length > 0) {
+    parts.push("<h2>Conversation</h2>")
+    for (const message of session.chat) {
+      const speaker = message.role === "user" ? "You" : "Assistant"
+      parts.push(`<div class="message ${message.role} text">${speaker}: ${escapeHtml(message.content)}</div>`)
+    }
+  }
+
+  if (session.audioTranscripts.length > 0) {
+    parts.push("<h2>Transcript</h2>")
+    for (const transcript of session.audioTranscripts) {
+      parts.push(`<div class="time">${escapeHtml(formatTime(transcript.timestamp))}</div>`, `<div class="text">${escapeHtml(formatSegmentText(transcript))}</div>`)
+    }
+  }
+
+  const providers = providersUsed(session)
+  if (providers.length > 0) {
+    parts.push(`<p class="meta">Answered by ${escapeHtml(providers.join(", "))}</p>`)
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(session.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    ...parts,
+    "</body>",
+    "</html>"
+  ].join("\n")
+}
+
+/**
+ * Renders a session as a report. HTML files are self-contained, with the
+ * screenshots embedded as thumbnails; Markdown links to the saved screenshots.
+ */
+export function renderSession(session: SessionRecord, format: ExportFormat, profile?: AssistantProfile): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify({ ...session, profileName: profile?.name, exportedAt: Date.now() }, null, 2)
+    case "html":
+      return renderHtml(session, profile)
+    default:
+      return renderMarkdown(session, profile)
+  }
+}
@@ -0,0 +1,358 @@
+// SessionHistoryHelper.ts
+
+import fs from "node:fs"
+import path from "node:path"
+import { v4 as uuidv4 } from "uuid"
+import type { SolutionRevision } from "./main"
+import type { ConversationMessage } from "./ConversationHelper"
+import type { ProviderUsage } from "./LLMHelper"
+import type { Speaker } from "./LiveTranscriptHelper"
+
+const SESSION_FILE = "session.json"
+const TITLE_LENGTH = 60
+// Recording can come in bursts (streamed chat, live captions), so saves are batched
+const SAVE_DELAY_MS = 500
+
+export interface HistoryRetention {
+  enabled: boolean
+  // Oldest sessions beyond this count are deleted
+  maxSessions: number
+  // Sessions not updated for this many days are deleted; 0 keeps them forever
+  maxAgeDays: number
+}
+
+export interface SessionRecord {
+  id: string
+  title: string
+  profileId: string
+  createdAt: number
+  updatedAt: number
+  // Copies kept in the session folder; the queue deletes its own files on reset
+  screenshots: string[]
+  problemInfo: any | null
+  solutionRevisions: SolutionRevision[]
+  currentSolutionRevision: number | null
+  chat: ConversationMessage[]
+  audioTranscripts: Array<{ text: string; timestamp: number; speaker?: Speaker }>
+  providersUsed: Array<ProviderUsage & { timestamp: number }>
+}
+
+export interface SessionSummary {
+  id: string
+  title: string
+  profileId: string
+  createdAt: number
+  updatedAt: number
+  screenshotCount: number
+  revisionCount: number
+  messageCount: number
+  audioCount: number
+  // False for chat-only sessions, which have nothing to show in the Solutions view
+  hasProblem: boolean
+  providers: string[]
+}
+
+export interface SessionFilter {
+  search?: string
+  profileId?: string
+  // Only sessions updated at or after this time
+  since?: number
+  kind?: "screenshots" | "chat" | "audio"
+}
+
+function summarize(session: SessionRecord): SessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    profileId: session.profileId,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    screenshotCount: session.screenshots.length,
+    revisionCount: session.solutionRevisions.length,
+    messageCount: session.chat.length,
+    audioCount: session.audioTranscripts.length,
+    hasProblem: session.problemInfo !== null,
+    providers: Array.from(new Set(session.providersUsed.map((usage) => `${usage.providerId}/${usage.model}`)))
+  }
+}
+
+function makeTitle(text: string | undefined): string | null {
+  const line = text?.split("\n").map((part) => part.trim()).find(Boolean)
+  if (!line) return null
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH).trim()}…` : line
+}
+
+// Everything a search should look at, lower-cased
+function searchableText(session: SessionRecord): string {
+  return [
+    session.title,
+    session.problemInfo?.problem_statement,
+    ...session.solutionRevisions.map((revision) => revision.code),
+    ...session.chat.map((message) => message.content),
+    ...session.audioTranscripts.map((transcript) => transcript.text)
+  ].filter(Boolean).join("\n").toLowerCase()
+}
+
+/**
+ * Saves each processing session (everything between two resets) to its own
+ * folder under userData/history so it can be searched and reopened later.
+ * A session starts with the first thing recorded after a reset. While history
+ * is turned off the current session is only kept in memory, so it can still be
+ * exported.
+ */
+export class SessionHistoryHelper {
+  private readonly historyDir: string
+  private retention: HistoryRetention
+  private sessions: Map<string, SessionRecord> = new Map()
+  private currentSessionId: string | null = null
+  // The current session while history is turned off; never saved or listed
+  private unsavedSession: SessionRecord | null = null
+  private saveTimers: Map<string, NodeJS.Timeout> = new Map()
+
+  constructor(historyDir: string, retention: HistoryRetention) {
+    this.historyDir = historyDir
+    this.retention = retention
+    this.load()
+    this.prune()
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.historyDir)) return
+    for (const entry of fs.readdirSync(this.historyDir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue
+      const sessionPath = path.join(this.historyDir, entry.name, SESSION_FILE)
+      try {
+        const session: SessionRecord = JSON.parse(fs.readFileSync(sessionPath, "utf8"))
+        // The id names the folder that is deleted with the session, so it must be this one
+        if (session.id !== entry.name) {
+          console.warn(`[SessionHistoryHelper] Skipping session ${entry.name} saved under another id`)
+          continue
+        }
+        this.sessions.set(session.id, session)
+      } catch (error) {
+        console.warn(`[SessionHistoryHelper] Skipping unreadable session ${entry.name}:`, error)
+      }
+    }
+  }
+
+  private getSessionDir(id: string): string {
+    return path.join(this.historyDir, id)
+  }
+
+  private scheduleSave(session: SessionRecord): void {
+    const timer = this.saveTimers.get(session.id)
+    if (timer) clearTimeout(timer)
+    this.saveTimers.set(session.id, setTimeout(() => {
+      this.saveTimers.delete(session.id)
+      this.save(session)
+    }, SAVE_DELAY_MS))
+  }
+
+  // Writes the sessions with changes still waiting to be saved, e.g. before quitting
+  public flush(): void {
+    Array.from(this.saveTimers.keys()).forEach((id) => {
+      clearTimeout(this.saveTimers.get(id))
+      this.saveTimers.delete(id)
+      const session = this.sessions.get(id)
+      if (session) this.save(session)
+    })
+  }
+
+  private save(session: SessionRecord): void {
+    try {
+      const sessionDir = this.getSessionDir(session.id)
+      fs.mkdirSync(sessionDir, { recursive: true })
+      const sessionPath = path.join(sessionDir, SESSION_FILE)
+      const tempPath = `${sessionPath}.tmp`
+      fs.writeFileSync(tempPath, JSON.stringify(session, null, 2))
+      fs.renameSync(tempPath, sessionPath)
+    } catch (error) {
+      console.error("[SessionHistoryHelper] Failed to save session:", error)
+    }
+  }
+
+  /**
+   * Applies a change to the current session, starting one if needed, and
+   * saves it unless history is turned off.
+   */
+  private update(profileId: string, change: (session: SessionRecord) => void): void {
+    let session = this.getCurrentSession()
+    if (!session) {
+      const now = Date.now()
+      session = {
+        id: uuidv4(),
+        title: `Session ${new Date(now).toLocaleString()}`,
+        profileId,
+        createdAt: now,
+        updatedAt: now,
+        screenshots: [],
+        problemInfo: null,
+        solutionRevisions: [],
+        currentSolutionRevision: null,
+        chat: [],
+        audioTranscripts: [],
+        providersUsed: []
+      }
+      if (this.retention.enabled) {
+        this.sessions.set(session.id, session)
+        this.currentSessionId = session.id
+      } else {
+        this.unsavedSession = session
+      }
+    }
+    change(session)
+    session.updatedAt = Date.now()
+    if (this.retention.enabled && session !== this.unsavedSession) {
+      this.scheduleSave(session)
+    }
+  }
+
+  // Copies screenshots into the session folder, skipping ones already copied.
+  // An unsaved session refers to the queued screenshots instead
+  private copyScreenshots(session: SessionRecord, screenshotPaths: string[]): void {
+    if (session === this.unsavedSession) {
+      session.screenshots.push(...screenshotPaths.filter((screenshotPath) => !session.screenshots.includes(screenshotPath)))
+      return
+    }
+    const screenshotsDir = path.join(this.getSessionDir(session.id), "screenshots")
+    for (const screenshotPath of screenshotPaths) {
+      const target = path.join(screenshotsDir, path.basename(screenshotPath))
+      if (session.screenshots.includes(target)) continue
+      try {
+        fs.mkdirSync(screenshotsDir, { recursive: true })
+        fs.copyFileSync(screenshotPath, target)
+        session.screenshots.push(target)
+      } catch (error) {
+        console.error(`[SessionHistoryHelper] Could not keep screenshot ${screenshotPath}:`, error)
+      }
+    }
+  }
+
+  public recordProblem(profileId: string, problemInfo: any, screenshotPaths: string[]): void {
+    this.update(profileId, (session) => {
+      session.problemInfo = problemInfo
+      session.title = makeTitle(problemInfo?.problem_statement) || session.title
+      this.copyScreenshots(session, screenshotPaths)
+    })
+  }
+
+  public recordSolutions(profileId: string, revisions: SolutionRevision[], currentRevision: number | null, screenshotPaths: string[] = []): void {
+    this.update(profileId, (session) => {
+      session.solutionRevisions = revisions.map((revision) => ({ ...revision }))
+      session.currentSolutionRevision = currentRevision
+      this.copyScreenshots(session, screenshotPaths)
+    })
+  }
+
+  public recordChatExchange(profileId: string, userMessage: string, assistantMessage: string): void {
+    this.update(profileId, (session) => {
+      const now = Date.now()
+      if (!session.problemInfo && session.chat.length === 0) {
+        session.title = makeTitle(userMessage) || session.title
+      }
+      session.chat.push(
+        { role: "user", content: userMessage, timestamp: now },
+        { role: "assistant", content: assistantMessage, timestamp: now }
+      )
+    })
+  }
+
+  public recordAudioTranscript(profileId: string, text: string, timestamp: number = Date.now(), speaker?: Speaker): void {
+    this.update(profileId, (session) => {
+      session.audioTranscripts.push({ text, timestamp, speaker })
+    })
+  }
+
+  public recordProviderUsage(profileId: string, usage: ProviderUsage): void {
+    // Usage alone does not start a session; it belongs to whatever else was recorded
+    if (!this.getCurrentSession()) return
+    this.update(profileId, (session) => {
+      session.providersUsed.push({ ...usage, timestamp: Date.now() })
+    })
+  }
+
+  // Closes the current session; the next recording starts a new one
+  public endSession(): void {
+    this.currentSessionId = null
+    this.unsavedSession = null
+    this.prune()
+  }
+
+  // Makes a saved session current again so further work is added to it
+  public resumeSession(id: string): SessionRecord {
+    const session = this.sessions.get(id)
+    if (!session) {
+      throw new Error(`Session ${id} not found`)
+    }
+    this.currentSessionId = id
+    this.unsavedSession = null
+    return session
+  }
+
+  public getSession(id: string): SessionRecord | undefined {
+    return this.sessions.get(id)
+  }
+
+  // The session being recorded, if anything has been recorded since the last reset
+  public getCurrentSession(): SessionRecord | undefined {
+    if (this.unsavedSession) return this.unsavedSession
+    return this.currentSessionId ? this.sessions.get(this.currentSessionId) : undefined
+  }
+
+  public listSessions(filter: SessionFilter = {}): SessionSummary[] {
+    const search = filter.search?.trim().toLowerCase()
+    return Array.from(this.sessions.values())
+      .filter((session) => {
+        if (filter.profileId && session.profileId !== filter.profileId) return false
+        if (filter.since && session.updatedAt < filter.since) return false
+        if (filter.kind === "screenshots" && session.screenshots.length === 0) return false
+        if (filter.kind === "chat" && session.chat.length === 0) return false
+        if (filter.kind === "audio" && session.audioTranscripts.length === 0) return false
+        return !search || searchableText(session).includes(search)
+      })
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(summarize)
+  }
+
+  // Only known sessions are deleted, and only their own folder directly under the history folder
+  public deleteSession(id: string): void {
+    if (!this.sessions.has(id)) return
+    if (this.currentSessionId === id) {
+      this.currentSessionId = null
+    }
+    this.sessions.delete(id)
+    clearTimeout(this.saveTimers.get(id))
+    this.saveTimers.delete(id)
+    const sessionDir = path.resolve(this.getSessionDir(id))
+    if (path.dirname(sessionDir) !== path.resolve(this.historyDir)) {
+      console.error(`[SessionHistoryHelper] Refusing to delete ${sessionDir}, which is not a session folder`)
+      return
+    }
+    try {
+      fs.rmSync(sessionDir, { recursive: true, force: true })
+    } catch (error) {
+      console.error(`[SessionHistoryHelper] Failed to delete session ${id}:`, error)
+    }
+  }
+
+  public clearHistory(): void {
+    Array.from(this.sessions.keys()).forEach((id) => this.deleteSession(id))
+  }
+
+  public setRetention(retention: HistoryRetention): void {
+    this.retention = retention
+    this.prune()
+  }
+
+  // Deletes sessions past the retention limits; the current session is always kept
+  private prune(): void {
+    const cutoff = this.retention.maxAgeDays > 0 ? Date.now() - this.retention.maxAgeDays * 24 * 60 * 60 * 1000 : 0
+    const sessions = Array.from(this.sessions.values()).sort((a, b) => b.updatedAt - a.updatedAt)
+    sessions.forEach((session, index) => {
+      if (session.id === this.currentSessionId) return
+      if (index >= this.retention.maxSessions || session.updatedAt < cutoff) {
+        this.deleteSession(session.id)
+      }
+    })
+  }
+}
@@ -0,0 +1,502 @@
+// SettingsHelper.ts
+
+import { app } from "electron"
+import fs from "node:fs"
+import path from "node:path"
+import dotenv from "dotenv"
+import { ProviderId, ProviderConfig } from "./LLMProvider"
+import { PROVIDER_IDS } from "./LLMHelper"
+import { RetryOptions } from "./LLMRetry"
+import { AssistantProfile, DEFAULT_PROFILE_ID, findProfile } from "./AssistantProfiles"
+import { HistoryRetention } from "./SessionHistoryHelper"
+import { OcrSettings } from "./OcrHelper"
+import { CaptureDisplay } from "./CaptureDisplays"
+import { LiveTranscriptionSettings } from "./LiveTranscriptHelper"
+import { SpeechToTextSettings } from "./TranscriptionProvider"
+import { VoiceTriggerSettings } from "./VoiceTriggerHelper"
+import { DEFAULT_WHISPER_URL } from "./WhisperTranscriptionProvider"
+
+dotenv.config()
+
+export const SETTINGS_VERSION = 3
+
+export type ShortcutAction =
+  | "showWindow"
+  | "toggleWindow"
+  | "takeScreenshot"
+  | "captureRegion"
+  | "captureWindow"
+  | "repeatLastRegion"
+  | "processScreenshots"
+  | "reset"
+  | "moveLeft"
+  | "moveRight"
+  | "moveUp"
+  | "moveDown"
+  | "cycleProfile"
+  | "exportSession"
+  | "toggleLiveCaptions"
+  | "pushToTalk"
+
+export interface AppSettings {
+  version: number
+  llm: {
+    provider: ProviderId
+    // Tried in order when the active provider fails
+    fallbackProviders: ProviderId[]
+    // API keys are kept by CredentialsHelper, never in this file
+    providers: Partial<Record<ProviderId, Omit<ProviderConfig, "apiKey">>>
+    retry: RetryOptions
+  }
+  shortcuts: Record<ShortcutAction, string>
+  window: {
+    x?: number
+    y?: number
+  }
+  screenshots: {
+    maxScreenshots: number
+    display: CaptureDisplay
+  }
+  prompts: {
+    // Preferred programming language for answers, e.g. "Python"; the templates live in PromptTemplateHelper
+    language?: string
+  }
+  profiles: {
+    active: string
+    // The user's own profiles; one with a built-in id replaces that profile
+    custom: AssistantProfile[]
+  }
+  history: HistoryRetention
+  ocr: OcrSettings
+  transcription: LiveTranscriptionSettings
+  speechToText: SpeechToTextSettings
+  voiceTrigger: VoiceTriggerSettings
+}
+
+// Values older settings files held that now belong to other stores
+export interface LegacySettingsData {
+  apiKeys: Partial<Record<ProviderId, string>>
+  systemPrompt?: string
+}
+
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends Array<any> ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K]
+}
+
+export type SettingsPatch = DeepPartial<Omit<AppSettings, "version">>
+
+export type SettingsListener = (settings: AppSettings, previous: AppSettings) => void
+
+export const DEFAULT_SHORTCUTS: Record<ShortcutAction, string> = {
+  showWindow: "CommandOrControl+Shift+Space",
+  toggleWindow: "CommandOrControl+B",
+  takeScreenshot: "CommandOrControl+H",
+  captureRegion: "CommandOrControl+Shift+H",
+  captureWindow: "CommandOrControl+Alt+H",
+  repeatLastRegion: "CommandOrControl+Alt+R",
+  processScreenshots: "CommandOrControl+Enter",
+  reset: "CommandOrControl+R",
+  moveLeft: "CommandOrControl+Left",
+  moveRight: "CommandOrControl+Right",
+  moveUp: "CommandOrControl+Up",
+  moveDown: "CommandOrControl+Down",
+  cycleProfile: "CommandOrControl+Shift+M",
+  exportSession: "CommandOrControl+Shift+E",
+  toggleLiveCaptions: "CommandOrControl+Shift+L",
+  pushToTalk: "CommandOrControl+Shift+K"
+}
+
+const BUILT_IN_DEFAULTS: AppSettings = {
+  version: SETTINGS_VERSION,
+  llm: {
+    provider: "gemini",
+    fallbackProviders: [],
+    providers: {
+      ollama: { url: "http://localhost:11434" }
+    },
+    retry: { maxRetries: 2, baseDelayMs: 500, maxDelayMs: 8000 }
+  },
+  shortcuts: DEFAULT_SHORTCUTS,
+  window: {},
+  screenshots: { maxScreenshots: 5, display: "cursor" },
+  prompts: {},
+  profiles: { active: DEFAULT_PROFILE_ID, custom: [] },
+  history: { enabled: true, maxSessions: 100, maxAgeDays: 30 },
+  ocr: { mode: "auto", language: "eng", langPath: "" },
+  transcription: { chunkSeconds: 5, contextMinutes: 10, systemAudio: false },
+  speechToText: {
+    engine: "auto",
+    whisper: { url: DEFAULT_WHISPER_URL, api: "whisper.cpp", model: "", language: "" }
+  },
+  voiceTrigger: { enabled: false, mode: "question", sensitivity: 0.5, silenceMs: 900, cooldownSeconds: 10 }
+}
+
+// Each entry upgrades a settings object from the version it is keyed by to the next one
+const MIGRATIONS: Record<number, (settings: any) => any> = {
+  // Files written before versioning only ever held a subset of the current shape
+  0: (settings) => ({ ...settings, version: 1 }),
+  // API keys moved to the encrypted credentials store
+  1: (settings) => ({ ...settings, llm: stripApiKeys(settings.llm), version: 2 }),
+  // The system prompt became the "system" prompt template
+  2: (settings) => {
+    const { systemPrompt, ...prompts } = isPlainObject(settings.prompts) ? settings.prompts : ({} as Record<string, any>)
+    return { ...settings, prompts, version: 3 }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// Objects are merged key by key; arrays and scalars from the patch replace the target
+function deepMerge<T>(target: T, patch: any): T {
+  if (!isPlainObject(patch)) return target
+  const result: any = { ...target }
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) continue
+    result[key] = isPlainObject(value) && isPlainObject(result[key]) ? deepMerge(result[key], value) : value
+  }
+  return result
+}
+
+function stripApiKeys<T extends { providers?: Record<string, any> }>(llm: T): T {
+  if (!isPlainObject(llm?.providers)) return llm
+  const providers = Object.fromEntries(
+    Object.entries(llm.providers).map(([id, { apiKey, ...config }]) => [id, config])
+  )
+  return { ...llm, providers }
+}
+
+function collectApiKeys(settings: any): Partial<Record<ProviderId, string>> {
+  const providers = isPlainObject(settings?.llm?.providers) ? settings.llm.providers : {}
+  return Object.fromEntries(
+    Object.entries(providers)
+      .filter(([, config]: [string, any]) => typeof config?.apiKey === "string" && config.apiKey)
+      .map(([id, config]: [string, any]) => [id, config.apiKey])
+  )
+}
+
+function readNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+// Drops keys whose value is undefined so they do not mask stored settings
+function compact<T extends Record<string, any>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T
+}
+
+/**
+ * Keeps the values of a patch that are valid on their own, checking each one
+ * against the defaults, and warns about the rest so a typo cannot end up saved.
+ */
+function keepValidSettings(patch: SettingsPatch, source: string): SettingsPatch {
+  let valid: SettingsPatch = {}
+  const visit = (value: any, keys: string[]) => {
+    if (isPlainObject(value)) {
+      Object.entries(value).forEach(([key, entry]) => visit(entry, [...keys, key]))
+      return
+    }
+    const single = keys.reduceRight<any>((inner, key) => ({ [key]: inner }), value)
+    try {
+      validateSettings(deepMerge(BUILT_IN_DEFAULTS, single))
+      valid = deepMerge(valid, single)
+    } catch (error: any) {
+      console.warn(`[SettingsHelper] Ignoring ${keys.join(".")} from ${source}: ${error.message}`)
+    }
+  }
+  visit(patch, [])
+  return valid
+}
+
+/**
+ * Settings that are explicitly set in the environment (.env). They seed the
+ * settings file on first run and override it when SETTINGS_ENV_OVERRIDE=true.
+ * Invalid values are left out.
+ */
+function readEnvSettings(): SettingsPatch {
+  const env = process.env
+  const provider = env.LLM_PROVIDER || (env.USE_OLLAMA === "true" ? "ollama" : undefined)
+  const fallbackProviders = env.LLM_FALLBACK_PROVIDERS
+    ? env.LLM_FALLBACK_PROVIDERS.split(",").map((id) => id.trim()).filter(Boolean)
+    : undefined
+
+  const settings: SettingsPatch = {
+    llm: compact({
+      provider: provider as ProviderId | undefined,
+      fallbackProviders: fallbackProviders as ProviderId[] | undefined,
+      providers: {
+        ollama: compact({ model: env.OLLAMA_MODEL || undefined, url: env.OLLAMA_URL || undefined }),
+        "openai-compatible": compact({
+          model: env.OPENAI_COMPATIBLE_MODEL || undefined,
+          url: env.OPENAI_COMPATIBLE_URL || undefined
+        })
+      },
+      retry: compact({
+        maxRetries: readNumber(env.LLM_MAX_RETRIES),
+        baseDelayMs: readNumber(env.LLM_RETRY_BASE_DELAY_MS),
+        maxDelayMs: readNumber(env.LLM_RETRY_MAX_DELAY_MS)
+      })
+    }),
+    speechToText: compact({
+      engine: (env.SPEECH_TO_TEXT_ENGINE || undefined) as SpeechToTextSettings["engine"] | undefined,
+      whisper: compact({
+        url: env.WHISPER_URL || undefined,
+        api: (env.WHISPER_API || undefined) as SpeechToTextSettings["whisper"]["api"] | undefined,
+        model: env.WHISPER_MODEL || undefined
+      })
+    })
+  }
+  return keepValidSettings(settings, "the environment")
+}
+
+function validateProfile(profile: AssistantProfile): void {
+  if (!isPlainObject(profile) || typeof profile.id !== "string" || !profile.id || typeof profile.name !== "string") {
+    throw new Error("Custom profiles need an id and a name")
+  }
+  if (profile.layout !== "code" && profile.layout !== "answer") {
+    throw new Error(`Profile "${profile.id}" must use the "code" or "answer" layout`)
+  }
+  if (profile.provider !== undefined && !PROVIDER_IDS.includes(profile.provider)) {
+    throw new Error(`Profile "${profile.id}" uses unknown provider "${profile.provider}"`)
+  }
+  if (profile.templates !== undefined && !isPlainObject(profile.templates)) {
+    throw new Error(`The templates of profile "${profile.id}" must be an object`)
+  }
+}
+
+function validateSettings(settings: AppSettings): void {
+  const { llm, shortcuts, screenshots, prompts, profiles, history, ocr, transcription, speechToText, voiceTrigger } = settings
+  if (!PROVIDER_IDS.includes(llm.provider)) {
+    throw new Error(`Unknown LLM provider "${llm.provider}". Use one of: ${PROVIDER_IDS.join(", ")}`)
+  }
+  const unknownFallback = llm.fallbackProviders.find((id) => !PROVIDER_IDS.includes(id))
+  if (unknownFallback) {
+    throw new Error(`Unknown fallback provider "${unknownFallback}". Use any of: ${PROVIDER_IDS.join(", ")}`)
+  }
+  for (const [key, value] of Object.entries(llm.retry)) {
+    if (typeof value !== "number" || value < 0) {
+      throw new Error(`Retry setting "${key}" must be a non-negative number`)
+    }
+  }
+  for (const [action, accelerator] of Object.entries(shortcuts)) {
+    if (typeof accelerator !== "string") {
+      throw new Error(`Shortcut for "${action}" must be a string`)
+    }
+  }
+  if (prompts.language !== undefined && typeof prompts.language !== "string") {
+    throw new Error("The prompt language must be a string")
+  }
+  if (!Number.isInteger(screenshots.maxScreenshots) || screenshots.maxScreenshots < 1 || screenshots.maxScreenshots > 20) {
+    throw new Error("maxScreenshots must be a whole number between 1 and 20")
+  }
+  if (screenshots.display !== "cursor" && screenshots.display !== "primary" && !Number.isInteger(screenshots.display)) {
+    throw new Error(`screenshots.display must be "cursor", "primary" or a display id`)
+  }
+  if (!Array.isArray(profiles.custom)) {
+    throw new Error("Custom profiles must be a list")
+  }
+  profiles.custom.forEach(validateProfile)
+  if (!findProfile(profiles.active, profiles.custom)) {
+    throw new Error(`Unknown assistant profile "${profiles.active}"`)
+  }
+  if (typeof history.enabled !== "boolean") {
+    throw new Error("history.enabled must be true or false")
+  }
+  if (!Number.isInteger(history.maxSessions) || history.maxSessions < 1) {
+    throw new Error("history.maxSessions must be a whole number of at least 1")
+  }
+  if (!Number.isInteger(history.maxAgeDays) || history.maxAgeDays < 0) {
+    throw new Error("history.maxAgeDays must be a whole number; 0 keeps sessions forever")
+  }
+  if (!["off", "auto", "always"].includes(ocr.mode)) {
+    throw new Error(`ocr.mode must be "off", "auto" or "always"`)
+  }
+  if (typeof ocr.language !== "string" || !/^[a-z_]+(\+[a-z_]+)*$/i.test(ocr.language)) {
+    throw new Error(`ocr.language must be a Tesseract language code such as "eng" or "eng+deu"`)
+  }
+  if (typeof ocr.langPath !== "string") {
+    throw new Error("ocr.langPath must be a folder path, or empty to use the English data shipped with the app")
+  }
+  if (!Number.isInteger(transcription.chunkSeconds) || transcription.chunkSeconds < 2 || transcription.chunkSeconds > 30) {
+    throw new Error("transcription.chunkSeconds must be a whole number between 2 and 30")
+  }
+  if (!Number.isInteger(transcription.contextMinutes) || transcription.contextMinutes < 1 || transcription.contextMinutes > 120) {
+    throw new Error("transcription.contextMinutes must be a whole number between 1 and 120")
+  }
+  if (typeof transcription.systemAudio !== "boolean") {
+    throw new Error("transcription.systemAudio must be true or false")
+  }
+  if (!["auto", "model", "whisper", "mock"].includes(speechToText.engine)) {
+    throw new Error(`speechToText.engine must be "auto", "model", "whisper" or "mock"`)
+  }
+  if (typeof speechToText.whisper.url !== "string" || !/^https?:\/\//.test(speechToText.whisper.url)) {
+    throw new Error("speechToText.whisper.url must be an http(s) URL")
+  }
+  if (speechToText.whisper.api !== "whisper.cpp" && speechToText.whisper.api !== "openai") {
+    throw new Error(`speechToText.whisper.api must be "whisper.cpp" or "openai"`)
+  }
+  if (typeof speechToText.whisper.model !== "string") {
+    throw new Error("speechToText.whisper.model must be a string")
+  }
+  if (typeof speechToText.whisper.language !== "string" || !/^([a-z]{2,3})?$/.test(speechToText.whisper.language)) {
+    throw new Error(`speechToText.whisper.language must be a language code such as "en", or empty to detect it`)
+  }
+  if (typeof voiceTrigger.enabled !== "boolean") {
+    throw new Error("voiceTrigger.enabled must be true or false")
+  }
+  if (voiceTrigger.mode !== "question" && voiceTrigger.mode !== "pause") {
+    throw new Error(`voiceTrigger.mode must be "question" or "pause"`)
+  }
+  if (typeof voiceTrigger.sensitivity !== "number" || voiceTrigger.sensitivity < 0 || voiceTrigger.sensitivity > 1) {
+    throw new Error("voiceTrigger.sensitivity must be a number between 0 and 1")
+  }
+  if (!Number.isInteger(voiceTrigger.silenceMs) || voiceTrigger.silenceMs < 200 || voiceTrigger.silenceMs > 5000) {
+    throw new Error("voiceTrigger.silenceMs must be a whole number between 200 and 5000")
+  }
+  if (typeof voiceTrigger.cooldownSeconds !== "number" || voiceTrigger.cooldownSeconds < 0) {
+    throw new Error("voiceTrigger.cooldownSeconds must be a non-negative number")
+  }
+}
+
+/**
+ * Versioned JSON settings stored in userData. Environment variables only seed
+ * the file on first run, unless SETTINGS_ENV_OVERRIDE=true makes them win.
+ */
+export class SettingsHelper {
+  private readonly settingsPath: string
+  private stored: AppSettings
+  private envOverrides: SettingsPatch
+  private listeners: Set<SettingsListener> = new Set()
+  // Found while migrating an older file, handed to CredentialsHelper and PromptTemplateHelper
+  private legacyData: LegacySettingsData = { apiKeys: {} }
+  // Set when the file was written by a newer version of the app, which this one must not overwrite
+  private newerVersion: number | null = null
+
+  constructor() {
+    this.settingsPath = path.join(app.getPath("userData"), "settings.json")
+    this.envOverrides = process.env.SETTINGS_ENV_OVERRIDE === "true" ? readEnvSettings() : {}
+    this.stored = this.load()
+  }
+
+  private load(): AppSettings {
+    if (!fs.existsSync(this.settingsPath)) {
+      const defaults = deepMerge(BUILT_IN_DEFAULTS, readEnvSettings())
+      console.log(`[SettingsHelper] Creating ${this.settingsPath}`)
+      this.write(defaults)
+      return defaults
+    }
+
+    try {
+      let raw = JSON.parse(fs.readFileSync(this.settingsPath, "utf8"))
+      let version = typeof raw.version === "number" ? raw.version : 0
+      if (version > SETTINGS_VERSION) {
+        console.warn(
+          `[SettingsHelper] Settings version ${version} is newer than supported (${SETTINGS_VERSION}); ` +
+            "loading it as-is and keeping changes in memory only"
+        )
+        this.newerVersion = version
+      }
+      if (version < 2) {
+        this.legacyData.apiKeys = collectApiKeys(raw)
+      }
+      if (version < 3 && typeof raw.prompts?.systemPrompt === "string" && raw.prompts.systemPrompt.trim()) {
+        this.legacyData.systemPrompt = raw.prompts.systemPrompt
+      }
+      while (version < SETTINGS_VERSION) {
+        const migrate = MIGRATIONS[version]
+        if (!migrate) throw new Error(`No migration from settings version ${version}`)
+        raw = migrate(raw)
+        version = raw.version
+        console.log(`[SettingsHelper] Migrated settings to version ${version}`)
+      }
+
+      const settings = deepMerge(BUILT_IN_DEFAULTS, raw)
+      validateSettings(settings)
+      this.write(settings)
+      return settings
+    } catch (error) {
+      if (this.newerVersion !== null) {
+        console.error("[SettingsHelper] Could not load settings from a newer version, using the defaults for now:", error)
+        return deepMerge(BUILT_IN_DEFAULTS, readEnvSettings())
+      }
+      // Keep the unreadable file for inspection and start over from the defaults
+      const backupPath = `${this.settingsPath}.${Date.now()}.bak`
+      console.error(`[SettingsHelper] Could not load settings, moving them to ${backupPath}:`, error)
+      try {
+        fs.renameSync(this.settingsPath, backupPath)
+      } catch (renameError) {
+        console.error("[SettingsHelper] Failed to back up settings:", renameError)
+      }
+      const defaults = deepMerge(BUILT_IN_DEFAULTS, readEnvSettings())
+      this.write(defaults)
+      return defaults
+    }
+  }
+
+  // Writes to a temporary file first so a crash never leaves half a settings file.
+  // A file from a newer version is left alone: it may hold settings this one drops
+  private write(settings: AppSettings): void {
+    if (this.newerVersion !== null) return
+    try {
+      const tempPath = `${this.settingsPath}.tmp`
+      fs.writeFileSync(tempPath, JSON.stringify(settings, null, 2))
+      fs.renameSync(tempPath, this.settingsPath)
+    } catch (error) {
+      console.error("[SettingsHelper] Failed to save settings:", error)
+    }
+  }
+
+  public get(): AppSettings {
+    return deepMerge(this.stored, this.envOverrides)
+  }
+
+  /**
+   * Applies a partial update, validates and saves it, then notifies listeners.
+   * Throws without changing anything if the result is invalid.
+   */
+  public set(patch: SettingsPatch): AppSettings {
+    return this.commit(deepMerge(this.stored, patch))
+  }
+
+  public reset(): AppSettings {
+    return this.commit(deepMerge(BUILT_IN_DEFAULTS, readEnvSettings()))
+  }
+
+  /**
+   * Returns the values the migrations removed from the settings file (API keys,
+   * the system prompt), once, so they can be moved to their own stores.
+   */
+  public takeLegacyData(): LegacySettingsData {
+    const data = this.legacyData
+    this.legacyData = { apiKeys: {} }
+    return data
+  }
+
+  private commit(next: AppSettings): AppSettings {
+    const previous = this.get()
+    next.version = this.newerVersion ?? SETTINGS_VERSION
+    next.llm = stripApiKeys(next.llm)
+    validateSettings(deepMerge(next, this.envOverrides))
+
+    this.stored = next
+    this.write(next)
+    const settings = this.get()
+    this.listeners.forEach((listener) => {
+      try {
+        listener(settings, previous)
+      } catch (error) {
+        console.error("[SettingsHelper] Settings listener failed:", error)
+      }
+    })
+    return settings
+  }
+
+  public subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
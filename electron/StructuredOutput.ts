@@ -0,0 +1,135 @@
+// StructuredOutput.ts
+
+/**
+ * Subset of JSON Schema used to describe the payloads we ask models for. It is
+ * small enough to translate to Gemini's `responseSchema` and to validate by hand.
+ */
+export type JsonSchema =
+  | { type: "string"; description?: string }
+  | { type: "number"; description?: string }
+  | { type: "boolean"; description?: string }
+  | { type: "array"; items: JsonSchema; description?: string }
+  | { type: "object"; properties: Record<string, JsonSchema>; required?: string[]; description?: string }
+
+export class StructuredOutputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "StructuredOutputError"
+  }
+}
+
+/**
+ * Finds the first JSON object in a model reply, ignoring surrounding chatter and
+ * code fences, dropping trailing commas and closing output that was cut off.
+ */
+export function extractJsonObject(text: string): unknown {
+  const start = text.indexOf("{")
+  if (start === -1) {
+    throw new StructuredOutputError("The reply does not contain a JSON object")
+  }
+
+  const closers: string[] = []
+  let inString = false
+  let escaped = false
+  let end = -1
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === "\\") escaped = true
+      else if (char === '"') inString = false
+      continue
+    }
+    if (char === '"') {
+      inString = true
+    } else if (char === "{" || char === "[") {
+      closers.push(char === "{" ? "}" : "]")
+    } else if (char === "}" || char === "]") {
+      closers.pop()
+      if (closers.length === 0) {
+        end = i
+        break
+      }
+    }
+  }
+
+  let candidate = end === -1 ? closeTruncatedJson(text.slice(start), closers, inString) : text.slice(start, end + 1)
+  candidate = removeTrailingCommas(candidate)
+
+  try {
+    return JSON.parse(candidate)
+  } catch (error) {
+    throw new StructuredOutputError(`The reply is not valid JSON: ${error.message}`)
+  }
+}
+
+function closeTruncatedJson(json: string, closers: string[], inString: boolean): string {
+  let result = inString ? `${json}"` : json
+  result = result.replace(/[\s,]+$/, "")
+  if (result.endsWith(":")) result += " null"
+  return result + closers.reverse().join("")
+}
+
+// Removes commas directly before a closing bracket, leaving string contents alone
+function removeTrailingCommas(json: string): string {
+  let result = ""
+  let inString = false
+  let escaped = false
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i]
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === "\\") escaped = true
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === ",") {
+      const next = json.slice(i + 1).trimStart()[0]
+      if (next === "}" || next === "]") continue
+    }
+    result += char
+  }
+  return result
+}
+
+/**
+ * Returns a list of problems with `value`, empty when it matches the schema.
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = "$"): string[] {
+  switch (schema.type) {
+    case "string":
+    case "number":
+    case "boolean":
+      return typeof value === schema.type ? [] : [`${path} should be a ${schema.type}`]
+    case "array":
+      if (!Array.isArray(value)) return [`${path} should be an array`]
+      return value.flatMap((item, index) => validateAgainstSchema(item, schema.items, `${path}[${index}]`))
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return [`${path} should be an object`]
+      }
+      const record = value as Record<string, unknown>
+      const errors: string[] = []
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push(`${path}.${key} is required`)
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (record[key] !== undefined && record[key] !== null) {
+          errors.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`))
+        }
+      }
+      return errors
+    }
+  }
+}
+
+export function parseStructuredOutput<T>(text: string, schema: JsonSchema): T {
+  const value = extractJsonObject(text)
+  const errors = validateAgainstSchema(value, schema)
+  if (errors.length > 0) {
+    throw new StructuredOutputError(`The reply does not match the expected format: ${errors.join("; ")}`)
+  }
+  return value as T
+}
@@ -0,0 +1,24 @@
+// SystemAudio.ts
+
+import { desktopCapturer, session } from "electron"
+
+/**
+ * Lets the renderer record what the computer plays (the other side of a call)
+ * for speaker-separated captions. getDisplayMedia requests are answered with
+ * the primary screen and loopback audio, without a picker; the renderer keeps
+ * only the audio. Where loopback is unsupported the request gives no audio
+ * track and the renderer looks for a PulseAudio monitor input instead.
+ */
+export function registerSystemAudioCapture(): void {
+  session.defaultSession.setDisplayMediaRequestHandler((request, callback) => {
+    desktopCapturer.getSources({ types: ["screen"] })
+      .then((sources) => {
+        if (sources.length === 0) throw new Error("No screen to capture")
+        callback({ video: sources[0], audio: "loopback" })
+      })
+      .catch((error) => {
+        console.error("Could not capture system audio:", error)
+        callback({})
+      })
+  })
+}
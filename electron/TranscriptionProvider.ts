@@ -0,0 +1,61 @@
+// TranscriptionProvider.ts
+
+// How audio is turned into an answer:
+// "model" sends it to the active LLM (only Gemini takes audio),
+// "auto" does so when the model takes audio and uses the whisper server otherwise,
+// "whisper" and "mock" always transcribe first and send the text to the active LLM
+export type SpeechToTextEngine = "auto" | "model" | "whisper" | "mock"
+
+export type TranscriptionProviderId = "whisper" | "mock"
+
+// whisper.cpp's server, or an OpenAI compatible one such as faster-whisper-server
+export type WhisperApi = "whisper.cpp" | "openai"
+
+export interface WhisperSettings {
+  url: string
+  api: WhisperApi
+  // Only sent to OpenAI compatible servers; whisper.cpp uses the model it was started with
+  model: string
+  // ISO 639-1 code such as "en", or empty to detect the language
+  language: string
+}
+
+export interface SpeechToTextSettings {
+  engine: SpeechToTextEngine
+  whisper: WhisperSettings
+}
+
+export interface TranscriptionOptions {
+  // Earlier text, so words cut off at the start of a clip are recognised
+  prompt?: string
+  signal?: AbortSignal
+}
+
+/**
+ * A speech-to-text backend. Transcripts are passed on to the active text
+ * model, so audio works with providers that cannot take it themselves.
+ */
+export interface TranscriptionProvider {
+  readonly id: TranscriptionProviderId
+  readonly displayName: string
+
+  // `data` is base64 encoded audio; silence transcribes to an empty string
+  transcribe(data: string, mimeType: string, options?: TranscriptionOptions): Promise<string>
+}
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/mp3": "mp3",
+  "audio/mpeg": "mp3",
+  "audio/mp4": "m4a",
+  "audio/flac": "flac"
+}
+
+// Servers pick the decoder from the upload's file name
+export function getAudioFileName(mimeType: string): string {
+  const baseType = mimeType.split(";")[0].trim().toLowerCase()
+  return `audio.${AUDIO_EXTENSIONS[baseType] || "webm"}`
+}
@@ -0,0 +1,184 @@
+// VoiceTriggerHelper.ts
+
+import { LiveTranscriptHelper, Speaker } from "./LiveTranscriptHelper"
+
+// "question" answers utterances phrased as questions, "pause" answers every utterance
+export type VoiceTriggerMode = "question" | "pause"
+
+export interface VoiceTriggerSettings {
+  // Answer automatically while live captions run; push-to-talk works either way
+  enabled: boolean
+  mode: VoiceTriggerMode
+  // 0 to 1; higher counts quieter sound as speech
+  sensitivity: number
+  // Silence after speech that ends an utterance
+  silenceMs: number
+  // Minimum time between automatic answers
+  cooldownSeconds: number
+}
+
+export interface VoiceTriggerState {
+  pushToTalk: boolean
+  lastTriggeredAt: number | null
+}
+
+export type VoiceTriggerListener = (state: VoiceTriggerState) => void
+
+// Receives the utterance to answer and who said it, when known
+export type VoiceQuestionHandler = (question: string, speaker?: Speaker) => void
+
+// How long after release to wait for the last utterance; it may have been dropped or never recorded
+const RELEASE_TIMEOUT_MS = 15000
+
+const QUESTION_OPENERS = /^(what|what's|whats|why|how|when|where|who|whom|whose|which|can|could|would|should|shall|will|do|does|did|is|are|was|were|have|has|had|may|might|tell me|walk me through|explain|describe|give me|any idea)\b/i
+
+/**
+ * Whether an utterance reads like a question: it ends with a question mark
+ * or its last sentence opens like one ("how would you...", "tell me about...").
+ */
+export function isQuestionLike(text: string): boolean {
+  const trimmed = text.trim()
+  if (!trimmed) return false
+  if (trimmed.endsWith("?")) return true
+  const sentences = trimmed.split(/(?<=[.!?])\s+/)
+  const last = sentences[sentences.length - 1].replace(/^(so|and|but|okay|ok|well|now|right)[,\s]+/i, "")
+  return QUESTION_OPENERS.test(last)
+}
+
+/**
+ * Answers the conversation hands-free. The renderer's voice activity detection
+ * ends an utterance at a pause after speech; once it is transcribed, questions
+ * (or, in "pause" mode, any utterance) are answered, at most once per cooldown.
+ * When the two sides are recorded apart, only the other party's utterances are
+ * answered. Push-to-talk overrides detection: everything said into the
+ * microphone until it is released is answered right away.
+ */
+export class VoiceTriggerHelper {
+  private readonly liveTranscript: LiveTranscriptHelper
+  private readonly answer: VoiceQuestionHandler
+  private settings: VoiceTriggerSettings
+  private pushToTalk = false
+  // Utterances spoken while push-to-talk is held
+  private pushToTalkText: string[] = []
+  // Set on release; the utterance recorded up to then is answered once transcribed
+  private releasedAt: number | null = null
+  private releaseTimer: ReturnType<typeof setTimeout> | undefined
+  // Captions started by push-to-talk are stopped again once it has been answered
+  private startedCaptions = false
+  private lastTriggeredAt: number | null = null
+  private listeners: Set<VoiceTriggerListener> = new Set()
+
+  constructor(liveTranscript: LiveTranscriptHelper, settings: VoiceTriggerSettings, answer: VoiceQuestionHandler) {
+    this.liveTranscript = liveTranscript
+    this.settings = settings
+    this.answer = answer
+    liveTranscript.onUtterance((text, endedAt, speaker) => this.handleUtterance(text, endedAt, speaker))
+  }
+
+  public getSettings(): VoiceTriggerSettings {
+    return this.settings
+  }
+
+  public setSettings(settings: VoiceTriggerSettings): void {
+    this.settings = settings
+  }
+
+  public getState(): VoiceTriggerState {
+    return { pushToTalk: this.pushToTalk, lastTriggeredAt: this.lastTriggeredAt }
+  }
+
+  // Pressing starts live captions if needed; the renderer ends the utterance on release
+  public setPushToTalk(active: boolean): void {
+    if (active === this.pushToTalk) return
+    this.pushToTalk = active
+    if (active) {
+      this.pushToTalkText = []
+      this.finishRelease()
+      this.startedCaptions = !this.liveTranscript.isActive()
+      this.liveTranscript.start()
+    } else if (this.liveTranscript.isActive()) {
+      this.releasedAt = Date.now()
+      // A cleared transcript or a missing recorder would otherwise leave push-to-talk waiting for good
+      this.releaseTimer = setTimeout(() => {
+        console.warn("[VoiceTriggerHelper] No utterance after releasing push-to-talk, answering what was heard")
+        this.answerRelease()
+      }, RELEASE_TIMEOUT_MS)
+    } else {
+      this.startedCaptions = false
+      this.fire(this.takePushToTalkText(), "me")
+    }
+    this.notify()
+  }
+
+  public togglePushToTalk(): void {
+    this.setPushToTalk(!this.pushToTalk)
+  }
+
+  private handleUtterance(text: string, endedAt: number, speaker?: Speaker): void {
+    if (this.pushToTalk || this.releasedAt !== null) {
+      if (speaker === "them") return
+      if (text) this.pushToTalkText.push(text)
+      // Utterances still being transcribed at release only add to the text
+      if (this.releasedAt !== null && endedAt > this.releasedAt) {
+        this.answerRelease(speaker)
+      }
+      return
+    }
+
+    const { enabled, mode, cooldownSeconds } = this.settings
+    // The user's own speech is context, not a question to answer
+    if (!enabled || !text || speaker === "me") return
+    if (mode === "question" && !isQuestionLike(text)) return
+    if (this.lastTriggeredAt !== null && Date.now() - this.lastTriggeredAt < cooldownSeconds * 1000) {
+      console.log("[VoiceTriggerHelper] Skipping an utterance during the cooldown")
+      return
+    }
+    this.fire(text, speaker)
+  }
+
+  private finishRelease(): void {
+    clearTimeout(this.releaseTimer)
+    this.releaseTimer = undefined
+    this.releasedAt = null
+  }
+
+  private answerRelease(speaker: Speaker | undefined = "me"): void {
+    this.finishRelease()
+    if (this.startedCaptions) {
+      this.startedCaptions = false
+      this.liveTranscript.stop()
+    }
+    this.fire(this.takePushToTalkText(), speaker)
+  }
+
+  private takePushToTalkText(): string {
+    const text = this.pushToTalkText.join(" ")
+    this.pushToTalkText = []
+    return text
+  }
+
+  private fire(text: string, speaker?: Speaker): void {
+    if (!text.trim()) return
+    this.lastTriggeredAt = Date.now()
+    this.answer(text, speaker)
+    this.notify()
+  }
+
+  public subscribe(listener: VoiceTriggerListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState()
+    this.listeners.forEach((listener) => {
+      try {
+        listener(state)
+      } catch (error) {
+        console.error("[VoiceTriggerHelper] Listener failed:", error)
+      }
+    })
+  }
+}
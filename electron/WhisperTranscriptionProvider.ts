@@ -0,0 +1,67 @@
+// WhisperTranscriptionProvider.ts
+
+import { isAbortError, LLMRequestError, parseRetryAfter } from "./LLMProvider"
+import { TranscriptionProvider, TranscriptionOptions, WhisperSettings, getAudioFileName } from "./TranscriptionProvider"
+
+export const DEFAULT_WHISPER_URL = "http://localhost:8080"
+
+interface TranscriptionResponse {
+  text?: string
+}
+
+/**
+ * Transcribes audio on a local whisper server: whisper.cpp's `server` example
+ * (POST /inference) or an OpenAI compatible one such as faster-whisper-server
+ * (POST /v1/audio/transcriptions). Audio never leaves the machine.
+ */
+export class WhisperTranscriptionProvider implements TranscriptionProvider {
+  public readonly id = "whisper" as const
+  public readonly displayName = "Whisper"
+
+  private readonly settings: WhisperSettings
+  private readonly baseUrl: string
+
+  constructor(settings: WhisperSettings) {
+    this.settings = settings
+    this.baseUrl = (settings.url || DEFAULT_WHISPER_URL).replace(/\/+$/, "")
+    console.log(`[WhisperTranscriptionProvider] Using ${this.getEndpoint()}`)
+  }
+
+  private getEndpoint(): string {
+    if (this.settings.api === "whisper.cpp") return `${this.baseUrl}/inference`
+    // Accept the server root as well as a URL ending in /v1, like the OpenAI compatible LLM provider
+    return `${this.baseUrl}${this.baseUrl.endsWith("/v1") ? "" : "/v1"}/audio/transcriptions`
+  }
+
+  public async transcribe(data: string, mimeType: string, options: TranscriptionOptions = {}): Promise<string> {
+    const form = new FormData()
+    form.append("file", new Blob([Buffer.from(data, "base64")], { type: mimeType }), getAudioFileName(mimeType))
+    form.append("response_format", "json")
+    form.append("temperature", "0")
+    if (this.settings.language) form.append("language", this.settings.language)
+    if (options.prompt) form.append("prompt", options.prompt)
+    if (this.settings.api === "openai" && this.settings.model) form.append("model", this.settings.model)
+
+    let response: Response
+    try {
+      response = await fetch(this.getEndpoint(), { method: "POST", body: form, signal: options.signal })
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      throw new LLMRequestError(
+        `Failed to connect to the whisper server: ${error.message}. Make sure it is running on ${this.baseUrl}`,
+        { retryable: true }
+      )
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "")
+      throw new LLMRequestError(`Whisper server error: ${response.status} ${response.statusText} ${detail}`.trim(), {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after"))
+      })
+    }
+
+    const result: TranscriptionResponse = await response.json()
+    return (result.text || "").trim()
+  }
+}
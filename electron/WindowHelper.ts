@@ -1,7 +1,8 @@
 
-import { BrowserWindow, screen } from "electron"
+import { BrowserWindow, Display, screen, shell } from "electron"
 import { AppState } from "main"
 import path from "node:path"
+import { isOnAnyDisplay } from "./CaptureDisplays"
 
 const isDev = process.env.NODE_ENV === "development"
 
@@ -17,11 +18,9 @@ export class WindowHelper {
   private appState: AppState
 
   // Initialize with explicit number type and 0 value
-  private screenWidth: number = 0
-  private screenHeight: number = 0
-  private step: number = 0
   private currentX: number = 0
   private currentY: number = 0
+  private savePositionTimer: NodeJS.Timeout | null = null
 
   constructor(appState: AppState) {
     this.appState = appState
@@ -33,9 +32,8 @@ export class WindowHelper {
     // Get current window position
     const [currentX, currentY] = this.mainWindow.getPosition()
 
-    // Get screen dimensions
-    const primaryDisplay = screen.getPrimaryDisplay()
-    const workArea = primaryDisplay.workAreaSize
+    // Get the dimensions of the display the window is on
+    const { workArea } = this.getCurrentDisplay()
 
     // Use 75% width if debugging has occurred, otherwise use 60%
     const maxAllowedWidth = Math.floor(
@@ -47,8 +45,8 @@ export class WindowHelper {
     const newHeight = Math.ceil(height)
 
     // Center the window horizontally if it would go off screen
-    const maxX = workArea.width - newWidth
-    const newX = Math.min(Math.max(currentX, 0), maxX)
+    const maxX = workArea.x + workArea.width - newWidth
+    const newX = Math.min(Math.max(currentX, workArea.x), maxX)
 
     // Update window bounds
     this.mainWindow.setBounds({
@@ -67,12 +65,6 @@ export class WindowHelper {
   public createWindow(): void {
     if (this.mainWindow !== null) return
 
-    const primaryDisplay = screen.getPrimaryDisplay()
-    const workArea = primaryDisplay.workAreaSize
-    this.screenWidth = workArea.width
-    this.screenHeight = workArea.height
-
-    
     const windowSettings: Electron.BrowserWindowConstructorOptions = {
       width: 400,
       height: 600,
@@ -119,6 +111,19 @@ export class WindowHelper {
     this.mainWindow.setSkipTaskbar(true)
     this.mainWindow.setAlwaysOnTop(true)
 
+    // Links in rendered answers open in the browser instead of replacing the app
+    this.mainWindow.webContents.setWindowOpenHandler(({ url }) => {
+      if (/^https?:\/\//i.test(url)) {
+        shell.openExternal(url)
+      }
+      return { action: "deny" }
+    })
+    this.mainWindow.webContents.on("will-navigate", (event, url) => {
+      if (!url.startsWith(startUrl)) {
+        event.preventDefault()
+      }
+    })
+
     this.mainWindow.loadURL(startUrl).catch((err) => {
       console.error("Failed to load URL:", err)
     })
@@ -126,12 +131,14 @@ export class WindowHelper {
     // Show window after loading URL and center it
     this.mainWindow.once('ready-to-show', () => {
       if (this.mainWindow) {
-        // Center the window first
-        this.centerWindow()
+        // Reopen where the user left the window, otherwise center it
+        if (!this.restoreSavedPosition()) {
+          this.centerWindow()
+        }
         this.mainWindow.show()
         this.mainWindow.focus()
         this.mainWindow.setAlwaysOnTop(true)
-        console.log("Window is now visible and centered")
+        console.log("Window is now visible")
       }
     })
 
@@ -154,6 +161,7 @@ export class WindowHelper {
         this.windowPosition = { x: bounds.x, y: bounds.y }
         this.currentX = bounds.x
         this.currentY = bounds.y
+        this.scheduleSavePosition(bounds.x, bounds.y)
       }
     })
 
@@ -164,7 +172,12 @@ export class WindowHelper {
       }
     })
 
+    screen.on("display-removed", this.handleDisplayChange)
+    screen.on("display-metrics-changed", this.handleDisplayChange)
+
     this.mainWindow.on("closed", () => {
+      screen.off("display-removed", this.handleDisplayChange)
+      screen.off("display-metrics-changed", this.handleDisplayChange)
       this.mainWindow = null
       this.isWindowVisible = false
       this.windowPosition = null
@@ -172,6 +185,40 @@ export class WindowHelper {
     })
   }
 
+  // Added displays never strand the window, so only removals and resizes matter
+  private handleDisplayChange = (): void => {
+    this.keepWindowOnScreen()
+  }
+
+  // Moves the window to the saved position if that is still on one of the displays
+  private restoreSavedPosition(): boolean {
+    if (!this.mainWindow || this.mainWindow.isDestroyed()) return false
+
+    const { x, y } = this.appState.getSettingsHelper().get().window
+    if (x === undefined || y === undefined) return false
+
+    if (!isOnAnyDisplay({ x, y })) return false
+
+    this.mainWindow.setPosition(x, y)
+    this.windowPosition = { x, y }
+    this.currentX = x
+    this.currentY = y
+    return true
+  }
+
+  // Moves fire continuously while dragging, so only the final position is saved
+  private scheduleSavePosition(x: number, y: number): void {
+    if (this.savePositionTimer) clearTimeout(this.savePositionTimer)
+    this.savePositionTimer = setTimeout(() => {
+      this.savePositionTimer = null
+      try {
+        this.appState.getSettingsHelper().set({ window: { x, y } })
+      } catch (error) {
+        console.error("Failed to save window position:", error)
+      }
+    }, 500)
+  }
+
   public getMainWindow(): BrowserWindow | null {
     return this.mainWindow
   }
@@ -221,13 +268,21 @@ export class WindowHelper {
     }
   }
 
+  // The display most of the window is on, or the one under the cursor before it exists
+  private getCurrentDisplay(): Display {
+    if (!this.mainWindow || this.mainWindow.isDestroyed()) {
+      return screen.getDisplayNearestPoint(screen.getCursorScreenPoint())
+    }
+    return screen.getDisplayMatching(this.mainWindow.getBounds())
+  }
+
+  // Centers the window on the display the user is working on, i.e. the one under the cursor
   private centerWindow(): void {
     if (!this.mainWindow || this.mainWindow.isDestroyed()) {
       return
     }
 
-    const primaryDisplay = screen.getPrimaryDisplay()
-    const workArea = primaryDisplay.workAreaSize
+    const { workArea } = screen.getDisplayNearestPoint(screen.getCursorScreenPoint())
     
     // Get current window size or use defaults
     const windowBounds = this.mainWindow.getBounds()
@@ -235,8 +290,8 @@ export class WindowHelper {
     const windowHeight = windowBounds.height || 600
     
     // Calculate center position
-    const centerX = Math.floor((workArea.width - windowWidth) / 2)
-    const centerY = Math.floor((workArea.height - windowHeight) / 2)
+    const centerX = workArea.x + Math.floor((workArea.width - windowWidth) / 2)
+    const centerY = workArea.y + Math.floor((workArea.height - windowHeight) / 2)
     
     // Set window position
     this.mainWindow.setBounds({
@@ -270,76 +325,73 @@ export class WindowHelper {
 
   // New methods for window movement
   public moveWindowRight(): void {
-    if (!this.mainWindow) return
-
-    const windowWidth = this.windowSize?.width || 0
-    const halfWidth = windowWidth / 2
-
-    // Ensure currentX and currentY are numbers
-    this.currentX = Number(this.currentX) || 0
-    this.currentY = Number(this.currentY) || 0
-
-    this.currentX = Math.min(
-      this.screenWidth - halfWidth,
-      this.currentX + this.step
-    )
-    this.mainWindow.setPosition(
-      Math.round(this.currentX),
-      Math.round(this.currentY)
-    )
+    this.moveWindow(1, 0)
   }
 
   public moveWindowLeft(): void {
-    if (!this.mainWindow) return
-
-    const windowWidth = this.windowSize?.width || 0
-    const halfWidth = windowWidth / 2
+    this.moveWindow(-1, 0)
+  }
 
-    // Ensure currentX and currentY are numbers
-    this.currentX = Number(this.currentX) || 0
-    this.currentY = Number(this.currentY) || 0
+  public moveWindowDown(): void {
+    this.moveWindow(0, 1)
+  }
 
-    this.currentX = Math.max(-halfWidth, this.currentX - this.step)
-    this.mainWindow.setPosition(
-      Math.round(this.currentX),
-      Math.round(this.currentY)
-    )
+  public moveWindowUp(): void {
+    this.moveWindow(0, -1)
   }
 
-  public moveWindowDown(): void {
+  /**
+   * Moves the window a tenth of the current display in the given direction.
+   * Its center may cross onto a neighbouring display, but at the outer edges
+   * of the screens it stops half off the display it is on.
+   */
+  private moveWindow(directionX: number, directionY: number): void {
     if (!this.mainWindow) return
 
+    const windowWidth = this.windowSize?.width || 0
     const windowHeight = this.windowSize?.height || 0
-    const halfHeight = windowHeight / 2
+    const { workArea } = this.getCurrentDisplay()
 
     // Ensure currentX and currentY are numbers
     this.currentX = Number(this.currentX) || 0
     this.currentY = Number(this.currentY) || 0
 
-    this.currentY = Math.min(
-      this.screenHeight - halfHeight,
-      this.currentY + this.step
-    )
+    let x = this.currentX + directionX * Math.floor(workArea.width / 10)
+    let y = this.currentY + directionY * Math.floor(workArea.height / 10)
+    if (!isOnAnyDisplay({ x: Math.round(x + windowWidth / 2), y: Math.round(y + windowHeight / 2) })) {
+      x = Math.min(Math.max(x, workArea.x - windowWidth / 2), workArea.x + workArea.width - windowWidth / 2)
+      y = Math.min(Math.max(y, workArea.y - windowHeight / 2), workArea.y + workArea.height - windowHeight / 2)
+    }
+
+    this.currentX = x
+    this.currentY = y
     this.mainWindow.setPosition(
       Math.round(this.currentX),
       Math.round(this.currentY)
     )
   }
 
-  public moveWindowUp(): void {
-    if (!this.mainWindow) return
-
-    const windowHeight = this.windowSize?.height || 0
-    const halfHeight = windowHeight / 2
-
-    // Ensure currentX and currentY are numbers
-    this.currentX = Number(this.currentX) || 0
-    this.currentY = Number(this.currentY) || 0
+  // Brings the window back when the display it was on is removed or shrinks
+  private keepWindowOnScreen(): void {
+    if (!this.mainWindow || this.mainWindow.isDestroyed()) return
 
-    this.currentY = Math.max(-halfHeight, this.currentY - this.step)
-    this.mainWindow.setPosition(
-      Math.round(this.currentX),
-      Math.round(this.currentY)
-    )
+    const bounds = this.mainWindow.getBounds()
+    const center = { x: Math.round(bounds.x + bounds.width / 2), y: Math.round(bounds.y + bounds.height / 2) }
+    if (isOnAnyDisplay(center)) return
+
+    const display = screen.getDisplayNearestPoint(center)
+    const { workArea } = display
+    const width = Math.min(bounds.width, workArea.width)
+    const height = Math.min(bounds.height, workArea.height)
+    const x = Math.min(Math.max(bounds.x, workArea.x), workArea.x + workArea.width - width)
+    const y = Math.min(Math.max(bounds.y, workArea.y), workArea.y + workArea.height - height)
+    this.mainWindow.setBounds({ x, y, width, height })
+
+    // A hidden window is shown again at the saved position, so that is updated too
+    this.windowPosition = { x, y }
+    this.windowSize = { width, height }
+    this.currentX = x
+    this.currentY = y
+    console.log(`Moved the window onto display ${display.id}`)
   }
 }
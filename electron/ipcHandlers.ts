@@ -2,6 +2,16 @@
 
 import { ipcMain, app } from "electron"
 import { AppState } from "./main"
+import { PROVIDER_IDS } from "./LLMHelper"
+import { ProviderId, ProviderConfig } from "./LLMProvider"
+import { SettingsPatch } from "./SettingsHelper"
+import { API_KEY_PROVIDERS } from "./CredentialsHelper"
+import { PROMPT_VARIABLE_DESCRIPTIONS, PromptTemplateId, PromptTemplateOverride } from "./PromptTemplateHelper"
+import { SessionFilter } from "./SessionHistoryHelper"
+import { CaptureMode } from "./ScreenshotHelper"
+import { ExportFormat } from "./SessionExporter"
+import { AudioChunk } from "./LiveTranscriptHelper"
+import { getFileKind } from "./FileTypes"
 
 export function initializeIpcHandlers(appState: AppState): void {
   ipcMain.handle(
@@ -17,9 +27,11 @@ export function initializeIpcHandlers(appState: AppState): void {
     return appState.deleteScreenshot(path)
   })
 
-  ipcMain.handle("take-screenshot", async () => {
+  // Resolves to null when a region selection is cancelled
+  ipcMain.handle("take-screenshot", async (event, mode?: CaptureMode) => {
     try {
-      const screenshotPath = await appState.takeScreenshot()
+      const screenshotPath = await appState.takeScreenshot(mode)
+      if (!screenshotPath) return null
       const preview = await appState.getImagePreview(screenshotPath)
       return { path: screenshotPath, preview }
     } catch (error) {
@@ -36,14 +48,19 @@ export function initializeIpcHandlers(appState: AppState): void {
         previews = await Promise.all(
           appState.getScreenshotQueue().map(async (path) => ({
             path,
-            preview: await appState.getImagePreview(path)
+            preview: await appState.getScreenshotHelper().getFilePreview(path),
+            included: appState.getScreenshotHelper().isScreenshotIncluded(path),
+            capture: appState.getScreenshotHelper().getScreenshotMetadata(path),
+            file: appState.getScreenshotHelper().getImportedFile(path)
           }))
         )
       } else {
         previews = await Promise.all(
           appState.getExtraScreenshotQueue().map(async (path) => ({
             path,
-            preview: await appState.getImagePreview(path)
+            preview: await appState.getScreenshotHelper().getFilePreview(path),
+            capture: appState.getScreenshotHelper().getScreenshotMetadata(path),
+            file: appState.getScreenshotHelper().getImportedFile(path)
           }))
         )
       }
@@ -55,12 +72,79 @@ export function initializeIpcHandlers(appState: AppState): void {
     }
   })
 
+  // Files dropped on the window, added to the current queue
+  ipcMain.handle("import-files", async (event, filePaths: string[]) => {
+    return appState.importFiles(filePaths)
+  })
+
+  // Resolves to null when the file-open dialog is cancelled
+  ipcMain.handle("import-files-dialog", async () => {
+    return appState.importFilesWithDialog()
+  })
+
+  ipcMain.handle("set-screenshot-included", async (event, path: string, included: boolean) => {
+    appState.setScreenshotIncluded(path, included)
+  })
+
+  // OCR text only for images in the queues, so the renderer cannot read or write other files
+  const isQueuedScreenshot = (path: string) =>
+    getFileKind(path) === "image" &&
+    (appState.getScreenshotQueue().includes(path) || appState.getExtraScreenshotQueue().includes(path))
+
+  ipcMain.handle("get-screenshot-text", async (event, path: string) => {
+    if (!isQueuedScreenshot(path)) {
+      return { success: false, error: "Unknown screenshot" }
+    }
+    try {
+      const text = await appState.getOcrHelper().getText(path)
+      return { success: true, text }
+    } catch (error: any) {
+      console.error("Error reading screenshot text:", error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle("set-screenshot-text", async (event, path: string, text: string) => {
+    if (!isQueuedScreenshot(path)) {
+      return { success: false, error: "Unknown screenshot" }
+    }
+    try {
+      await appState.getOcrHelper().setText(path, text)
+      return { success: true }
+    } catch (error: any) {
+      console.error("Error saving screenshot text:", error)
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle("get-solution-revisions", async () => {
+    return {
+      revisions: appState.getSolutionRevisions(),
+      currentRevision: appState.getCurrentSolutionRevision()?.revision ?? null
+    }
+  })
+
+  ipcMain.handle("select-solution-revision", async (event, revision: number) => {
+    return appState.selectSolutionRevision(revision)
+  })
+
+  ipcMain.handle("regenerate-solution", async (_, language: string) => {
+    try {
+      await appState.processingHelper.regenerateSolution(language);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error regenerating solution:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
   ipcMain.handle("toggle-window", async () => {
     appState.toggleMainWindow()
   })
 
   ipcMain.handle("reset-queues", async () => {
     try {
+      appState.processingHelper.cancelOngoingRequests()
       appState.clearQueues()
       console.log("Screenshot queues have been cleared.")
       return { success: true }
@@ -92,10 +176,48 @@ export function initializeIpcHandlers(appState: AppState): void {
     }
   })
 
+  // Live captions: the main process owns the transcript, the renderer records the chunks
+  ipcMain.handle("get-live-transcript", async () => {
+    return appState.getLiveTranscriptHelper().getState()
+  })
+
+  ipcMain.handle("set-live-captions", async (event, active: boolean) => {
+    const liveTranscript = appState.getLiveTranscriptHelper()
+    if (active) {
+      liveTranscript.start()
+    } else {
+      liveTranscript.stop()
+    }
+    return liveTranscript.getState()
+  })
+
+  ipcMain.handle("add-live-audio-chunk", async (event, chunk: AudioChunk) => {
+    try {
+      appState.getLiveTranscriptHelper().addChunk(chunk)
+      return { success: true }
+    } catch (error: any) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle("clear-live-transcript", async () => {
+    appState.getLiveTranscriptHelper().clear()
+  })
+
+  ipcMain.handle("get-voice-trigger", async () => {
+    return appState.getVoiceTriggerHelper().getState()
+  })
+
+  ipcMain.handle("set-push-to-talk", async (event, active: boolean) => {
+    const voiceTrigger = appState.getVoiceTriggerHelper()
+    voiceTrigger.setPushToTalk(active)
+    return voiceTrigger.getState()
+  })
+
   // IPC handler for analyzing image from file path
   ipcMain.handle("analyze-image-file", async (event, path: string) => {
     try {
-      const result = await appState.processingHelper.getLLMHelper().analyzeImageFile(path)
+      const result = await appState.processingHelper.processImageFile(path)
       return result
     } catch (error: any) {
       console.error("Error in analyze-image-file handler:", error)
@@ -103,16 +225,52 @@ export function initializeIpcHandlers(appState: AppState): void {
     }
   })
 
-  ipcMain.handle("gemini-chat", async (event, message: string) => {
+  ipcMain.handle("chat", async (event, message: string, conversationId?: string) => {
     try {
-      const result = await appState.processingHelper.getLLMHelper().chatWithGemini(message);
+      const result = await appState.processingHelper.chat(message, conversationId);
       return result;
     } catch (error: any) {
-      console.error("Error in gemini-chat handler:", error);
+      console.error("Error in chat handler:", error);
       throw error;
     }
   });
 
+  ipcMain.handle("chat-stream", async (event, message: string, conversationId?: string) => {
+    return appState.processingHelper.startChatStream(message, conversationId);
+  });
+
+  ipcMain.handle("cancel-llm-stream", async (event, streamId: string) => {
+    return appState.processingHelper.cancelStream(streamId);
+  });
+
+  // Conversation management handlers
+  ipcMain.handle("list-conversations", async () => {
+    return appState.getConversationHelper().listConversations();
+  });
+
+  ipcMain.handle("get-conversation", async (event, conversationId?: string) => {
+    const conversations = appState.getConversationHelper();
+    return conversationId
+      ? conversations.getConversation(conversationId) || null
+      : conversations.getActiveConversation();
+  });
+
+  ipcMain.handle("new-conversation", async () => {
+    return appState.getConversationHelper().createConversation();
+  });
+
+  ipcMain.handle("set-active-conversation", async (event, conversationId: string) => {
+    return appState.getConversationHelper().setActiveConversation(conversationId);
+  });
+
+  ipcMain.handle("clear-conversation", async (event, conversationId: string) => {
+    return appState.getConversationHelper().clearConversation(conversationId);
+  });
+
+  ipcMain.handle("fork-conversation", async (event, conversationId: string, messageIndex?: number) => {
+    return appState.getConversationHelper().forkConversation(conversationId, messageIndex);
+  });
+
   ipcMain.handle("quit-app", () => {
     app.quit()
   })
@@ -145,7 +303,8 @@ export function initializeIpcHandlers(appState: AppState): void {
       return {
         provider: llmHelper.getCurrentProvider(),
         model: llmHelper.getCurrentModel(),
-        isOllama: llmHelper.isUsingOllama()
+        url: llmHelper.getProvider().getConfig().url,
+        supportsVision: await llmHelper.supportsVision()
       };
     } catch (error: any) {
       console.error("Error getting current LLM config:", error);
@@ -153,35 +312,48 @@ export function initializeIpcHandlers(appState: AppState): void {
     }
   });
 
-  ipcMain.handle("get-available-ollama-models", async () => {
+  ipcMain.handle("get-llm-providers", async () => {
+    return PROVIDER_IDS;
+  });
+
+  ipcMain.handle("get-available-models", async (_, provider?: ProviderId, url?: string) => {
     try {
       const llmHelper = appState.processingHelper.getLLMHelper();
-      const models = await llmHelper.getOllamaModels();
-      return models;
+      return await llmHelper.getAvailableModels(provider, url);
     } catch (error: any) {
-      console.error("Error getting Ollama models:", error);
+      console.error("Error getting available models:", error);
       throw error;
     }
   });
 
-  ipcMain.handle("switch-to-ollama", async (_, model?: string, url?: string) => {
+  ipcMain.handle("get-model-vision-support", async (_, provider: ProviderId, model: string, url?: string) => {
     try {
       const llmHelper = appState.processingHelper.getLLMHelper();
-      await llmHelper.switchToOllama(model, url);
-      return { success: true };
+      return await llmHelper.supportsVision(model, provider, url);
     } catch (error: any) {
-      console.error("Error switching to Ollama:", error);
-      return { success: false, error: error.message };
+      console.error("Error checking model vision support:", error);
+      return false;
     }
   });
 
-  ipcMain.handle("switch-to-gemini", async (_, apiKey?: string) => {
+  ipcMain.handle("switch-llm-provider", async (_, provider: ProviderId, config?: ProviderConfig) => {
     try {
+      if (!PROVIDER_IDS.includes(provider)) {
+        throw new Error(`Unknown LLM provider: ${provider}`);
+      }
       const llmHelper = appState.processingHelper.getLLMHelper();
-      await llmHelper.switchToGemini(apiKey);
+      await llmHelper.switchProvider(provider, config);
+      // A key typed in while switching is stored encrypted, not in settings.json
+      if (config?.apiKey && API_KEY_PROVIDERS.includes(provider)) {
+        appState.getCredentialsHelper().setKey(provider, config.apiKey);
+      }
+      // Remember the choice for the next launch
+      appState.getSettingsHelper().set({
+        llm: { provider, providers: { [provider]: llmHelper.getProviderConfig(provider) } }
+      });
       return { success: true };
     } catch (error: any) {
-      console.error("Error switching to Gemini:", error);
+      console.error(`Error switching to ${provider}:`, error);
       return { success: false, error: error.message };
     }
   });
@@ -196,4 +368,156 @@ export function initializeIpcHandlers(appState: AppState): void {
       return { success: false, error: error.message };
     }
   });
+
+  // API keys; the renderer only ever receives masked keys
+  ipcMain.handle("get-api-key-status", async () => {
+    const credentialsHelper = appState.getCredentialsHelper();
+    return {
+      keys: credentialsHelper.listStatuses(),
+      usingKeychain: credentialsHelper.isUsingKeychain()
+    };
+  });
+
+  ipcMain.handle("set-api-key", async (_, provider: ProviderId, apiKey: string) => {
+    try {
+      const credentialsHelper = appState.getCredentialsHelper();
+      credentialsHelper.setKey(provider, apiKey);
+      appState.processingHelper.getLLMHelper().setApiKey(provider, credentialsHelper.getKey(provider));
+      return { success: true, status: credentialsHelper.getStatus(provider) };
+    } catch (error: any) {
+      console.error(`Error saving the ${provider} API key:`, error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("test-api-key", async (_, provider: ProviderId, apiKey?: string) => {
+    const key = apiKey || appState.getCredentialsHelper().getKey(provider);
+    if (!key) {
+      return { success: false, error: `No API key saved for ${provider}` };
+    }
+    return appState.processingHelper.getLLMHelper().testApiKey(provider, key);
+  });
+
+  ipcMain.handle("delete-api-key", async (_, provider: ProviderId) => {
+    try {
+      const credentialsHelper = appState.getCredentialsHelper();
+      const llmHelper = appState.processingHelper.getLLMHelper();
+      // Check first so a refused delete leaves the stored key in place
+      if (provider === "gemini" && llmHelper.getCurrentProvider() === "gemini") {
+        throw new Error("Gemini is the active provider. Switch to another provider before deleting its API key");
+      }
+      credentialsHelper.deleteKey(provider);
+      // A key from .env still applies after the stored one is gone
+      llmHelper.setApiKey(provider, credentialsHelper.getKey(provider));
+      return { success: true, status: credentialsHelper.getStatus(provider) };
+    } catch (error: any) {
+      console.error(`Error deleting the ${provider} API key:`, error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Prompt templates
+  ipcMain.handle("get-prompt-templates", async () => {
+    return {
+      templates: appState.getPromptTemplateHelper().list(),
+      variables: PROMPT_VARIABLE_DESCRIPTIONS
+    };
+  });
+
+  ipcMain.handle("update-prompt-template", async (_, id: PromptTemplateId, override: PromptTemplateOverride) => {
+    try {
+      const template = appState.getPromptTemplateHelper().update(id, override);
+      return { success: true, template };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("reset-prompt-template", async (_, id: PromptTemplateId) => {
+    try {
+      const template = appState.getPromptTemplateHelper().reset(id);
+      return { success: true, template };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("preview-prompt-template", async (_, id: PromptTemplateId, body?: string) => {
+    return appState.getPromptTemplateHelper().preview(id, body);
+  });
+
+  ipcMain.handle("get-settings", async () => {
+    return appState.getSettingsHelper().get();
+  });
+
+  ipcMain.handle("update-settings", async (_, patch: SettingsPatch) => {
+    try {
+      const settings = appState.getSettingsHelper().set(patch);
+      return { success: true, settings };
+    } catch (error: any) {
+      console.error("Error updating settings:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("reset-settings", async () => {
+    try {
+      const settings = appState.getSettingsHelper().reset();
+      return { success: true, settings };
+    } catch (error: any) {
+      console.error("Error resetting settings:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("get-session-history", async (_, filter?: SessionFilter) => {
+    return appState.getSessionHistoryHelper().listSessions(filter);
+  });
+
+  ipcMain.handle("get-session", async (_, id: string) => {
+    return appState.getSessionHistoryHelper().getSession(id) || null;
+  });
+
+  ipcMain.handle("reopen-session", async (_, id: string) => {
+    try {
+      appState.reopenSession(id);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error reopening session:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("delete-session", async (_, id: string) => {
+    appState.getSessionHistoryHelper().deleteSession(id);
+  });
+
+  ipcMain.handle("clear-session-history", async () => {
+    appState.getSessionHistoryHelper().clearHistory();
+  });
+
+  // Without an id the current session is exported
+  ipcMain.handle("export-session", async (_, id?: string, format?: ExportFormat) => {
+    try {
+      const filePath = await appState.exportSession(id, format);
+      return { success: true, filePath };
+    } catch (error: any) {
+      console.error("Error exporting session:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("get-profiles", async () => {
+    return { profiles: appState.getProfiles(), activeProfileId: appState.getActiveProfile().id };
+  });
+
+  ipcMain.handle("set-active-profile", async (_, id: string) => {
+    try {
+      const profile = appState.setActiveProfile(id);
+      return { success: true, profile };
+    } catch (error: any) {
+      console.error("Error switching profile:", error);
+      return { success: false, error: error.message };
+    }
+  });
 }
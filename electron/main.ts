@@ -1,15 +1,53 @@
-import { app, BrowserWindow, Tray, Menu, nativeImage } from "electron"
+import { app, BrowserWindow, Tray, Menu, nativeImage, dialog, screen } from "electron"
+import fs from "node:fs"
+import path from "node:path"
 import { initializeIpcHandlers } from "./ipcHandlers"
 import { WindowHelper } from "./WindowHelper"
-import { ScreenshotHelper } from "./ScreenshotHelper"
-import { ShortcutsHelper } from "./shortcuts"
+import { CaptureMode, FileImportResult, ScreenshotHelper } from "./ScreenshotHelper"
+import { ShortcutsHelper, formatShortcut } from "./shortcuts"
+import { SUPPORTED_EXTENSIONS, getFileKind } from "./FileTypes"
 import { ProcessingHelper } from "./ProcessingHelper"
+import { ConversationHelper } from "./ConversationHelper"
+import { SettingsHelper, SettingsPatch, ShortcutAction } from "./SettingsHelper"
+import { API_KEY_PROVIDERS, CredentialsHelper } from "./CredentialsHelper"
+import { PromptTemplateHelper } from "./PromptTemplateHelper"
+import { ProviderId } from "./LLMProvider"
+import { AssistantProfile, BUILT_IN_PROFILES, findProfile, listProfiles } from "./AssistantProfiles"
+import { SessionHistoryHelper, SessionRecord } from "./SessionHistoryHelper"
+import { OcrHelper } from "./OcrHelper"
+import { CaptureDisplay, describeDisplay } from "./CaptureDisplays"
+import { LiveTranscriptHelper } from "./LiveTranscriptHelper"
+import { VoiceTriggerHelper } from "./VoiceTriggerHelper"
+import { registerSystemAudioCapture } from "./SystemAudio"
+import { EXPORT_FORMATS, ExportFormat, getExportFileName, getFormatForPath, renderSession } from "./SessionExporter"
+
+export interface SolutionRevision {
+  revision: number
+  source: "initial" | "debug"
+  code: string
+  // Programming language of the code as reported by the model, if any
+  language?: string
+  thoughts: string[]
+  time_complexity?: string
+  space_complexity?: string
+  // Revision this one was debugged from; undefined for the initial solution
+  parentRevision?: number
+  createdAt: number
+}
 
 export class AppState {
   private static instance: AppState | null = null
 
+  private settingsHelper: SettingsHelper
+  private credentialsHelper: CredentialsHelper
+  private promptTemplateHelper: PromptTemplateHelper
+  private sessionHistoryHelper: SessionHistoryHelper
   private windowHelper: WindowHelper
   private screenshotHelper: ScreenshotHelper
+  private ocrHelper: OcrHelper
+  private conversationHelper: ConversationHelper
+  private liveTranscriptHelper: LiveTranscriptHelper
+  private voiceTriggerHelper: VoiceTriggerHelper
   public shortcutsHelper: ShortcutsHelper
   public processingHelper: ProcessingHelper
   private tray: Tray | null = null
@@ -27,11 +65,16 @@ export class AppState {
 
   private hasDebugged: boolean = false
 
+  // Every solution shown for the current problem, oldest first
+  private solutionRevisions: SolutionRevision[] = []
+  private currentSolutionRevision: number | null = null
+
   // Processing events
   public readonly PROCESSING_EVENTS = {
     //global states
     UNAUTHORIZED: "procesing-unauthorized",
     NO_SCREENSHOTS: "processing-no-screenshots",
+    PROCESSING_CANCELLED: "processing-cancelled",
 
     //states for generating the initial solution
     INITIAL_START: "initial-start",
@@ -42,21 +85,133 @@ export class AppState {
     //states for processing the debugging
     DEBUG_START: "debug-start",
     DEBUG_SUCCESS: "debug-success",
-    DEBUG_ERROR: "debug-error"
+    DEBUG_ERROR: "debug-error",
+
+    //streamed LLM output (chat and solution text)
+    STREAM_CHUNK: "llm-stream-chunk",
+    STREAM_DONE: "llm-stream-done",
+    STREAM_ERROR: "llm-stream-error",
+
+    //which provider answered (differs from the active one after a fallback)
+    LLM_PROVIDER_USED: "llm-provider-used",
+
+    //a saved session was reopened from the history
+    SESSION_REOPENED: "session-reopened",
+
+    //an utterance from the live transcript is being answered
+    VOICE_QUESTION: "voice-question"
   } as const
 
   constructor() {
+    // Initialize SettingsHelper first, the other helpers read from it
+    this.settingsHelper = new SettingsHelper()
+
+    const legacyData = this.settingsHelper.takeLegacyData()
+
+    // Initialize CredentialsHelper, moving any keys an older settings file held in plaintext
+    this.credentialsHelper = new CredentialsHelper()
+    for (const [provider, apiKey] of Object.entries(legacyData.apiKeys)) {
+      // A key under a provider that takes none, e.g. ollama, must not stop the app from starting
+      try {
+        this.credentialsHelper.setKey(provider as ProviderId, apiKey)
+      } catch (error: any) {
+        console.warn(`Could not move the ${provider} API key from the settings file:`, error.message)
+      }
+    }
+
+    // Initialize PromptTemplateHelper, keeping a system prompt set in an older settings file
+    this.promptTemplateHelper = new PromptTemplateHelper(path.join(app.getPath("userData"), "prompt-templates.json"))
+    this.promptTemplateHelper.setProfile(this.getActiveProfile())
+    if (legacyData.systemPrompt && !this.promptTemplateHelper.get("system").customized) {
+      this.promptTemplateHelper.update("system", { body: legacyData.systemPrompt })
+    }
+
+    // Initialize SessionHistoryHelper
+    this.sessionHistoryHelper = new SessionHistoryHelper(
+      path.join(app.getPath("userData"), "history"),
+      this.settingsHelper.get().history
+    )
+
     // Initialize WindowHelper with this
     this.windowHelper = new WindowHelper(this)
 
     // Initialize ScreenshotHelper
-    this.screenshotHelper = new ScreenshotHelper(this.view)
+    this.screenshotHelper = new ScreenshotHelper(
+      this.view,
+      this.settingsHelper.get().screenshots.maxScreenshots,
+      this.settingsHelper.get().screenshots.display
+    )
+
+    // Initialize OcrHelper; its worker starts with the first screenshot to read
+    this.ocrHelper = new OcrHelper(this.settingsHelper.get().ocr)
+
+    // Initialize ConversationHelper
+    this.conversationHelper = new ConversationHelper()
 
     // Initialize ProcessingHelper
     this.processingHelper = new ProcessingHelper(this)
 
+    // Initialize LiveTranscriptHelper; the renderer records and sends the audio chunks
+    this.liveTranscriptHelper = new LiveTranscriptHelper(
+      (chunk, previousText, signal) =>
+        this.processingHelper.getLLMHelper().transcribeAudio(chunk.data, chunk.mimeType, previousText, signal),
+      this.settingsHelper.get().transcription
+    )
+    let liveCaptionsActive = false
+    this.liveTranscriptHelper.subscribe((state, segment) => {
+      if (state.active !== liveCaptionsActive) {
+        liveCaptionsActive = state.active
+        this.updateTrayMenu()
+      }
+      if (segment) {
+        this.sessionHistoryHelper.recordAudioTranscript(this.getActiveProfile().id, segment.text, segment.startedAt, segment.speaker)
+      }
+      const mainWindow = this.getMainWindow()
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send("live-transcript-updated", state)
+      }
+    })
+
+    // Initialize VoiceTriggerHelper to answer questions heard in the live transcript
+    this.voiceTriggerHelper = new VoiceTriggerHelper(
+      this.liveTranscriptHelper,
+      this.settingsHelper.get().voiceTrigger,
+      (question, speaker) => this.processingHelper.answerVoiceQuestion(question, speaker)
+    )
+    this.voiceTriggerHelper.subscribe((state) => {
+      const mainWindow = this.getMainWindow()
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send("voice-trigger-updated", state)
+      }
+    })
+
     // Initialize ShortcutsHelper
     this.shortcutsHelper = new ShortcutsHelper(this)
+
+    this.settingsHelper.subscribe((settings, previous) => {
+      this.screenshotHelper.setMaxScreenshots(settings.screenshots.maxScreenshots)
+      this.screenshotHelper.setCaptureDisplay(settings.screenshots.display)
+      this.ocrHelper.setSettings(settings.ocr)
+      this.liveTranscriptHelper.setSettings(settings.transcription)
+      this.voiceTriggerHelper.setSettings(settings.voiceTrigger)
+      if (JSON.stringify(settings.history) !== JSON.stringify(previous.history)) {
+        this.sessionHistoryHelper.setRetention(settings.history)
+      }
+      if (JSON.stringify(settings.profiles) !== JSON.stringify(previous.profiles)) {
+        this.promptTemplateHelper.setProfile(this.getActiveProfile())
+      }
+      if (
+        JSON.stringify(settings.profiles) !== JSON.stringify(previous.profiles) ||
+        JSON.stringify(settings.shortcuts) !== JSON.stringify(previous.shortcuts) ||
+        settings.screenshots.display !== previous.screenshots.display
+      ) {
+        this.updateTrayMenu()
+      }
+      const mainWindow = this.getMainWindow()
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send("settings-changed", settings)
+      }
+    })
   }
 
   public static getInstance(): AppState {
@@ -88,12 +243,147 @@ export class AppState {
     return this.screenshotHelper
   }
 
+  public getSettingsHelper(): SettingsHelper {
+    return this.settingsHelper
+  }
+
+  public getCredentialsHelper(): CredentialsHelper {
+    return this.credentialsHelper
+  }
+
+  public getPromptTemplateHelper(): PromptTemplateHelper {
+    return this.promptTemplateHelper
+  }
+
+  public getOcrHelper(): OcrHelper {
+    return this.ocrHelper
+  }
+
+  public getLiveTranscriptHelper(): LiveTranscriptHelper {
+    return this.liveTranscriptHelper
+  }
+
+  public getVoiceTriggerHelper(): VoiceTriggerHelper {
+    return this.voiceTriggerHelper
+  }
+
+  public getConversationHelper(): ConversationHelper {
+    return this.conversationHelper
+  }
+
+  public getSessionHistoryHelper(): SessionHistoryHelper {
+    return this.sessionHistoryHelper
+  }
+
+  public getProfiles(): AssistantProfile[] {
+    return listProfiles(this.settingsHelper.get().profiles.custom)
+  }
+
+  public getActiveProfile(): AssistantProfile {
+    const { profiles } = this.settingsHelper.get()
+    return findProfile(profiles.active, profiles.custom) || BUILT_IN_PROFILES[0]
+  }
+
+  /**
+   * Makes a profile active and switches to its provider and model, if it names
+   * one that can be used (API key providers need a key). The switch is a
+   * one-off: the user can pick another model while the profile stays active.
+   */
+  public setActiveProfile(id: string): AssistantProfile {
+    const { profiles } = this.settingsHelper.get()
+    const profile = findProfile(id, profiles.custom)
+    if (!profile) {
+      throw new Error(`Unknown assistant profile "${id}"`)
+    }
+
+    const patch: SettingsPatch = { profiles: { active: profile.id } }
+    const { provider, model } = profile
+    if (provider) {
+      if (API_KEY_PROVIDERS.includes(provider) && !this.credentialsHelper.getKey(provider)) {
+        console.warn(`[AppState] No API key for ${provider}; ${profile.name} keeps the current provider`)
+      } else {
+        patch.llm = { provider, providers: model ? { [provider]: { model } } : undefined }
+      }
+    }
+    this.settingsHelper.set(patch)
+    return profile
+  }
+
+  // Activates the next profile in the list, wrapping around
+  public cycleProfile(): AssistantProfile {
+    const profiles = this.getProfiles()
+    const index = profiles.findIndex((profile) => profile.id === this.getActiveProfile().id)
+    return this.setActiveProfile(profiles[(index + 1) % profiles.length].id)
+  }
+
   public getProblemInfo(): any {
     return this.problemInfo
   }
 
   public setProblemInfo(problemInfo: any): void {
     this.problemInfo = problemInfo
+    // Keeps the screenshots the problem was read from: excluded ones and other queued files were not sent as images
+    const screenshots = this.screenshotHelper.getIncludedScreenshotQueue().filter((filePath) => getFileKind(filePath) === "image")
+    this.sessionHistoryHelper.recordProblem(this.getActiveProfile().id, problemInfo, screenshots)
+  }
+
+  // Starts a new revision chain from the solution shown for a new problem
+  public setInitialSolution(solution: Pick<SolutionRevision, "code" | "language" | "thoughts" | "time_complexity" | "space_complexity">): SolutionRevision {
+    this.solutionRevisions = []
+    this.currentSolutionRevision = null
+    return this.addSolutionRevision({ ...solution, source: "initial" })
+  }
+
+  public addSolutionRevision(solution: Omit<SolutionRevision, "revision" | "createdAt">): SolutionRevision {
+    const revision: SolutionRevision = {
+      ...solution,
+      revision: this.solutionRevisions.length,
+      createdAt: Date.now()
+    }
+    this.solutionRevisions.push(revision)
+    this.currentSolutionRevision = revision.revision
+    this.recordSolutions(revision.source === "debug" ? this.getExtraScreenshotQueue() : [])
+    return revision
+  }
+
+  private recordSolutions(screenshotPaths: string[] = []): void {
+    this.sessionHistoryHelper.recordSolutions(
+      this.getActiveProfile().id,
+      this.solutionRevisions,
+      this.currentSolutionRevision,
+      screenshotPaths
+    )
+  }
+
+  public getSolutionRevisions(): SolutionRevision[] {
+    return this.solutionRevisions
+  }
+
+  // The revision the next debug run builds on
+  public getCurrentSolutionRevision(): SolutionRevision | null {
+    if (this.currentSolutionRevision === null) return null
+    return this.solutionRevisions[this.currentSolutionRevision] || null
+  }
+
+  public selectSolutionRevision(revision: number): SolutionRevision {
+    const selected = this.solutionRevisions[revision]
+    if (!selected) {
+      throw new Error(`Solution revision ${revision} not found`)
+    }
+    this.currentSolutionRevision = revision
+    this.recordSolutions()
+    return selected
+  }
+
+  // The current revision and the revisions it was derived from, oldest first
+  public getSolutionLineage(): SolutionRevision[] {
+    const lineage: SolutionRevision[] = []
+    let revision = this.getCurrentSolutionRevision()
+    while (revision) {
+      lineage.unshift(revision)
+      revision = revision.parentRevision !== undefined ? this.solutionRevisions[revision.parentRevision] : null
+    }
+    return lineage
   }
 
   public getScreenshotQueue(): string[] {
@@ -104,6 +394,10 @@ export class AppState {
     return this.screenshotHelper.getExtraScreenshotQueue()
   }
 
+  public setScreenshotIncluded(path: string, included: boolean): void {
+    this.screenshotHelper.setScreenshotIncluded(path, included)
+  }
+
   // Window management methods
   public createWindow(): void {
     this.windowHelper.createWindow()
@@ -133,22 +427,101 @@ export class AppState {
 
   public clearQueues(): void {
     this.screenshotHelper.clearQueues()
+    this.sessionHistoryHelper.endSession()
 
     // Clear problem info
     this.problemInfo = null
+    this.solutionRevisions = []
+    this.currentSolutionRevision = null
 
     // Reset view to initial state
     this.setView("queue")
   }
 
+  /**
+   * Ends the current session and brings back a saved one: its problem and
+   * solutions are restored and shown in the Solutions view, and further work
+   * is added to it.
+   */
+  public reopenSession(id: string): SessionRecord {
+    const session = this.sessionHistoryHelper.getSession(id)
+    if (!session) {
+      throw new Error(`Session ${id} not found`)
+    }
+    if (!session.problemInfo) {
+      throw new Error("This session has no problem or solution to reopen")
+    }
+
+    this.processingHelper.cancelOngoingRequests()
+    this.clearQueues()
+    this.sessionHistoryHelper.resumeSession(id)
+    this.problemInfo = session.problemInfo
+    this.solutionRevisions = session.solutionRevisions.map((revision) => ({ ...revision }))
+    this.currentSolutionRevision = session.currentSolutionRevision
+    this.setView("solutions")
+
+    const mainWindow = this.getMainWindow()
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(this.PROCESSING_EVENTS.SESSION_REOPENED, {
+        problemInfo: session.problemInfo,
+        solution: this.getCurrentSolutionRevision()
+      })
+    }
+    return session
+  }
+
+  /**
+   * Asks where to save a session report and writes it there, in the format
+   * matching the chosen file extension. Exports the current session unless an
+   * id is given. Resolves to the saved path, or null if the dialog was cancelled.
+   */
+  public async exportSession(id?: string, format: ExportFormat = "markdown"): Promise<string | null> {
+    const session = id ? this.sessionHistoryHelper.getSession(id) : this.sessionHistoryHelper.getCurrentSession()
+    if (!session) {
+      throw new Error(id ? `Session ${id} not found` : "There is nothing to export in this session yet")
+    }
+
+    // The preferred format goes first so the dialog suggests it
+    const formats = [...EXPORT_FORMATS].sort((a, b) => Number(b.format === format) - Number(a.format === format))
+    const options: Electron.SaveDialogOptions = {
+      title: "Export session",
+      defaultPath: path.join(app.getPath("documents"), getExportFileName(session, format)),
+      filters: formats.map(({ name, extension }) => ({ name, extensions: [extension] }))
+    }
+    const mainWindow = this.getMainWindow()
+    const parent = mainWindow && !mainWindow.isDestroyed() && mainWindow.isVisible() ? mainWindow : undefined
+    // The old @types/electron package also declares a callback-style showSaveDialog returning a string
+    const { canceled, filePath } = (parent
+      ? await dialog.showSaveDialog(parent, options)
+      : await dialog.showSaveDialog(options)) as unknown as Electron.SaveDialogReturnValue
+    if (canceled || !filePath) return null
+
+    const { profiles } = this.settingsHelper.get()
+    const report = renderSession(session, getFormatForPath(filePath), findProfile(session.profileId, profiles.custom))
+    await fs.promises.writeFile(filePath, report, "utf8")
+    return filePath
+  }
+
   // Screenshot management methods
-  public async takeScreenshot(): Promise<string> {
+  // Resolves to null when a region selection is cancelled
+  public async takeScreenshot(mode: CaptureMode = "full"): Promise<string | null> {
     if (!this.getMainWindow()) throw new Error("No main window available")
 
-    const screenshotPath = await this.screenshotHelper.takeScreenshot(
-      () => this.hideMainWindow(),
-      () => this.showMainWindow()
-    )
+    let screenshotPath: string | null
+    try {
+      screenshotPath = await this.screenshotHelper.takeScreenshot(
+        () => this.hideMainWindow(),
+        () => this.showMainWindow(),
+        mode
+      )
+    } catch (error: any) {
+      // Shortcuts and the tray have no caller to report to, so the renderer shows it
+      this.getMainWindow()?.webContents.send("screenshot-error", error.message)
+      throw error
+    }
+    if (screenshotPath) {
+      this.processingHelper.prefetchScreenshotText(screenshotPath)
+    }
 
     return screenshotPath
   }
@@ -157,6 +530,43 @@ export class AppState {
     return this.screenshotHelper.getImagePreview(filepath)
   }
 
+  /**
+   * Adds files to the current queue and tells the renderer, which refreshes
+   * the queue and reports the files that were refused.
+   */
+  public async importFiles(filePaths: string[]): Promise<FileImportResult> {
+    const result = await this.screenshotHelper.importFiles(filePaths)
+    result.paths
+      .filter((filePath) => getFileKind(filePath) === "image")
+      .forEach((filePath) => this.processingHelper.prefetchScreenshotText(filePath))
+
+    const mainWindow = this.getMainWindow()
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send("files-imported", result)
+    }
+    return result
+  }
+
+  // Asks which files to add; resolves to null if the dialog was cancelled
+  public async importFilesWithDialog(): Promise<FileImportResult | null> {
+    const options: Electron.OpenDialogOptions = {
+      title: "Add files to the queue",
+      properties: ["openFile", "multiSelections"],
+      filters: [
+        { name: "Images, PDFs, audio and text", extensions: SUPPORTED_EXTENSIONS },
+        { name: "All files", extensions: ["*"] }
+      ]
+    }
+    const mainWindow = this.getMainWindow()
+    const parent = mainWindow && !mainWindow.isDestroyed() && mainWindow.isVisible() ? mainWindow : undefined
+    // The old @types/electron package also declares a callback-style showOpenDialog returning a string array
+    const { canceled, filePaths } = (parent
+      ? await dialog.showOpenDialog(parent, options)
+      : await dialog.showOpenDialog(options)) as unknown as Electron.OpenDialogReturnValue
+    if (canceled || filePaths.length === 0) return null
+    return this.importFiles(filePaths)
+  }
+
   public async deleteScreenshot(
     path: string
   ): Promise<{ success: boolean; error?: string }> {
@@ -197,7 +607,41 @@ export class AppState {
     }
     
     this.tray = new Tray(trayImage)
+    this.updateTrayMenu()
+    // Keeps the Capture Display menu in sync with the connected displays
+    screen.on("display-added", () => this.updateTrayMenu())
+    screen.on("display-removed", () => this.updateTrayMenu())
     
+    this.tray.setToolTip('Interview Coder - Press Cmd+Shift+Space to show')
+    
+    // Set a title for macOS (will appear in menu bar)
+    if (process.platform === 'darwin') {
+      this.tray.setTitle('IC')
+    }
+    
+    // Double-click to show window
+    this.tray.on('double-click', () => {
+      this.centerAndShowWindow()
+    })
+  }
+
+  // Rebuilt whenever the active profile, shortcuts, capture display or set of
+  // displays changes so the labels and the Mode and Capture Display menus stay in sync
+  private updateTrayMenu(): void {
+    if (!this.tray) return
+    const profiles = this.getProfiles()
+    const activeProfile = this.getActiveProfile()
+    const { shortcuts, screenshots: { display: captureDisplay } } = this.settingsHelper.get()
+    // Shortcuts can be changed or turned off in settings
+    const withShortcut = (label: string, action: ShortcutAction) =>
+      shortcuts[action] ? `${label} (${formatShortcut(shortcuts[action])})` : label
+    const setCaptureDisplay = (display: CaptureDisplay) => {
+      try {
+        this.settingsHelper.set({ screenshots: { display } })
+      } catch (error) {
+        console.error("Error choosing the capture display from tray:", error)
+      }
+    }
     const contextMenu = Menu.buildFromTemplate([
       {
         label: 'Show Interview Coder',
@@ -215,20 +659,86 @@ export class AppState {
         type: 'separator'
       },
       {
-        label: 'Take Screenshot (Cmd+H)',
+        label: 'Mode',
+        submenu: profiles.map((profile) => ({
+          label: profile.name,
+          type: 'radio' as const,
+          checked: profile.id === activeProfile.id,
+          click: () => {
+            try {
+              this.setActiveProfile(profile.id)
+            } catch (error) {
+              console.error("Error switching profile from tray:", error)
+            }
+          }
+        }))
+      },
+      {
+        type: 'separator'
+      },
+      {
+        label: withShortcut('Take Screenshot', "takeScreenshot"),
+        click: () => this.takeScreenshotFromTray("full")
+      },
+      {
+        label: withShortcut('Capture Region', "captureRegion"),
+        click: () => this.takeScreenshotFromTray("region")
+      },
+      {
+        label: withShortcut('Capture Active Window', "captureWindow"),
+        click: () => this.takeScreenshotFromTray("window")
+      },
+      {
+        label: withShortcut('Repeat Last Region', "repeatLastRegion"),
+        click: () => this.takeScreenshotFromTray("lastRegion")
+      },
+      {
+        label: 'Add Files...',
         click: async () => {
           try {
-            const screenshotPath = await this.takeScreenshot()
-            const preview = await this.getImagePreview(screenshotPath)
-            const mainWindow = this.getMainWindow()
-            if (mainWindow) {
-              mainWindow.webContents.send("screenshot-taken", {
-                path: screenshotPath,
-                preview
-              })
-            }
-          } catch (error) {
-            console.error("Error taking screenshot from tray:", error)
+            await this.importFilesWithDialog()
+          } catch (error: any) {
+            dialog.showErrorBox("Adding files failed", error.message)
+          }
+        }
+      },
+      {
+        label: 'Capture Display',
+        submenu: [
+          {
+            label: 'Under the Cursor',
+            type: 'radio' as const,
+            checked: captureDisplay === "cursor",
+            click: () => setCaptureDisplay("cursor")
+          },
+          {
+            label: 'Primary Display',
+            type: 'radio' as const,
+            checked: captureDisplay === "primary",
+            click: () => setCaptureDisplay("primary")
+          },
+          { type: 'separator' as const },
+          ...screen.getAllDisplays().map((display, index) => ({
+            label: describeDisplay(display, index),
+            type: 'radio' as const,
+            checked: captureDisplay === display.id,
+            click: () => setCaptureDisplay(display.id)
+          }))
+        ]
+      },
+      {
+        label: withShortcut('Live Captions', "toggleLiveCaptions"),
+        type: 'checkbox' as const,
+        checked: this.liveTranscriptHelper.isActive(),
+        click: () => this.liveTranscriptHelper.toggle()
+      },
+      {
+        label: 'Export Session...',
+        click: async () => {
+          try {
+            await this.exportSession()
+          } catch (error: any) {
+            dialog.showErrorBox("Export failed", error.message)
           }
         }
       },
@@ -243,19 +753,24 @@ export class AppState {
         }
       }
     ])
-    
-    this.tray.setToolTip('Interview Coder - Press Cmd+Shift+Space to show')
     this.tray.setContextMenu(contextMenu)
-    
-    // Set a title for macOS (will appear in menu bar)
-    if (process.platform === 'darwin') {
-      this.tray.setTitle('IC')
+  }
+
+  private async takeScreenshotFromTray(mode: CaptureMode): Promise<void> {
+    try {
+      const screenshotPath = await this.takeScreenshot(mode)
+      if (!screenshotPath) return
+      const preview = await this.getImagePreview(screenshotPath)
+      const mainWindow = this.getMainWindow()
+      if (mainWindow) {
+        mainWindow.webContents.send("screenshot-taken", {
+          path: screenshotPath,
+          preview
+        })
+      }
+    } catch (error) {
+      console.error("Error taking screenshot from tray:", error)
     }
-    
-    // Double-click to show window
-    this.tray.on('double-click', () => {
-      this.centerAndShowWindow()
-    })
   }
 
   public setHasDebugged(value: boolean): void {
@@ -269,13 +784,15 @@ export class AppState {
 
 // Application initialization
 async function initializeApp() {
-  const appState = AppState.getInstance()
-
-  // Initialize IPC handlers before window creation
-  initializeIpcHandlers(appState)
-
   app.whenReady().then(() => {
     console.log("App is ready")
+    // AppState is created once the app is ready so stored API keys can be decrypted
+    const appState = AppState.getInstance()
+
+    // Initialize IPC handlers before window creation
+    initializeIpcHandlers(appState)
+    registerSystemAudioCapture()
+
     appState.createWindow()
     appState.createTray()
     // Register global shortcuts using ShortcutsHelper
@@ -284,6 +801,7 @@ async function initializeApp() {
 
   app.on("activate", () => {
     console.log("App activated")
+    const appState = AppState.getInstance()
     if (appState.getMainWindow() === null) {
       appState.createWindow()
     }
@@ -296,6 +814,13 @@ async function initializeApp() {
     }
   })
 
+  app.on("will-quit", () => {
+    AppState.getInstance().getSessionHistoryHelper().flush()
+    AppState.getInstance().getOcrHelper().terminate().catch((error) => {
+      console.error("Error stopping the OCR worker:", error)
+    })
+  })
+
   app.dock?.hide() // Hide dock icon (optional)
   app.commandLine.appendSwitch("disable-background-timer-throttling")
 }
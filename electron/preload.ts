@@ -1,4 +1,27 @@
-import { contextBridge, ipcRenderer } from "electron"
+import { contextBridge, ipcRenderer, webUtils } from "electron"
+import type { ProviderId, ProviderConfig } from "./LLMProvider"
+import type { StreamSource } from "./ProcessingHelper"
+import type { ProviderUsage } from "./LLMHelper"
+import type { Conversation, ConversationInfo } from "./ConversationHelper"
+import type { SolutionRevision } from "./main"
+import type { AppSettings, SettingsPatch } from "./SettingsHelper"
+import type { ApiKeyStatus } from "./CredentialsHelper"
+import type { PromptTemplate, PromptTemplateId, PromptTemplateOverride, PromptVariable } from "./PromptTemplateHelper"
+import type { AssistantProfile } from "./AssistantProfiles"
+import type { SessionFilter, SessionRecord, SessionSummary } from "./SessionHistoryHelper"
+import type { ExportFormat } from "./SessionExporter"
+import type { CaptureMode, FileImportResult, ImportedFile, ScreenshotMetadata } from "./ScreenshotHelper"
+import type { AudioChunk, LiveTranscriptState } from "./LiveTranscriptHelper"
+import type { VoiceTriggerState } from "./VoiceTriggerHelper"
+
+type PromptTemplateResult = { success: true; template: PromptTemplate } | { success: false; error: string }
+
+type SettingsUpdateResult = { success: true; settings: AppSettings } | { success: false; error: string }
+
+// filePath is null when the save dialog was cancelled
+type ExportSessionResult = { success: true; filePath: string | null } | { success: false; error: string }
+
+type SetProfileResult = { success: true; profile: AssistantProfile } | { success: false; error: string }
 
 // Types for the exposed Electron API
 interface ElectronAPI {
@@ -6,13 +29,26 @@ interface ElectronAPI {
     width: number
     height: number
   }) => Promise<void>
-  getScreenshots: () => Promise<Array<{ path: string; preview: string }>>
+  getScreenshots: () => Promise<Array<{ path: string; preview: string; included?: boolean; capture?: ScreenshotMetadata; file?: ImportedFile }>>
   deleteScreenshot: (
     path: string
   ) => Promise<{ success: boolean; error?: string }>
+  setScreenshotIncluded: (path: string, included: boolean) => Promise<void>
+  importFiles: (filePaths: string[]) => Promise<FileImportResult>
+  // Resolves to null when the file-open dialog is cancelled
+  importFilesWithDialog: () => Promise<FileImportResult | null>
+  // Path of a dropped file, or "" for one that does not exist on disk
+  getPathForFile: (file: File) => string
+  onFilesImported: (callback: (result: FileImportResult) => void) => () => void
+  getScreenshotText: (path: string) => Promise<{ success: true; text: string } | { success: false; error: string }>
+  setScreenshotText: (path: string, text: string) => Promise<{ success: boolean; error?: string }>
+  getSolutionRevisions: () => Promise<{ revisions: SolutionRevision[]; currentRevision: number | null }>
+  selectSolutionRevision: (revision: number) => Promise<SolutionRevision>
+  regenerateSolution: (language: string) => Promise<{ success: boolean; error?: string }>
   onScreenshotTaken: (
     callback: (data: { path: string; preview: string }) => void
   ) => () => void
+  onScreenshotError: (callback: (error: string) => void) => () => void
   onSolutionsReady: (callback: (solutions: string) => void) => () => void
   onResetView: (callback: () => void) => () => void
   onSolutionStart: (callback: () => void) => () => void
@@ -20,12 +56,14 @@ interface ElectronAPI {
   onDebugSuccess: (callback: (data: any) => void) => () => void
   onSolutionError: (callback: (error: string) => void) => () => void
   onProcessingNoScreenshots: (callback: () => void) => () => void
+  onProcessingCancelled: (callback: (data: { requestIds: string[] }) => void) => () => void
   onProblemExtracted: (callback: (data: any) => void) => () => void
   onSolutionSuccess: (callback: (data: any) => void) => () => void
 
   onUnauthorized: (callback: () => void) => () => void
   onDebugError: (callback: (error: string) => void) => () => void
-  takeScreenshot: () => Promise<void>
+  // Resolves to null when a region selection is cancelled
+  takeScreenshot: (mode?: CaptureMode) => Promise<{ path: string; preview: string } | null>
   moveWindowLeft: () => Promise<void>
   moveWindowRight: () => Promise<void>
   moveWindowUp: () => Promise<void>
@@ -36,11 +74,69 @@ interface ElectronAPI {
   quitApp: () => Promise<void>
   
   // LLM Model Management
-  getCurrentLlmConfig: () => Promise<{ provider: "ollama" | "gemini"; model: string; isOllama: boolean }>
-  getAvailableOllamaModels: () => Promise<string[]>
-  switchToOllama: (model?: string, url?: string) => Promise<{ success: boolean; error?: string }>
-  switchToGemini: (apiKey?: string) => Promise<{ success: boolean; error?: string }>
+  getCurrentLlmConfig: () => Promise<{ provider: ProviderId; model: string; url?: string; supportsVision: boolean }>
+  getLlmProviders: () => Promise<ProviderId[]>
+  getAvailableModels: (provider?: ProviderId, url?: string) => Promise<string[]>
+  getModelVisionSupport: (provider: ProviderId, model: string, url?: string) => Promise<boolean>
+  switchLlmProvider: (provider: ProviderId, config?: ProviderConfig) => Promise<{ success: boolean; error?: string }>
   testLlmConnection: () => Promise<{ success: boolean; error?: string }>
+  getApiKeyStatus: () => Promise<{ keys: ApiKeyStatus[]; usingKeychain: boolean }>
+  setApiKey: (provider: ProviderId, apiKey: string) => Promise<{ success: boolean; status?: ApiKeyStatus; error?: string }>
+  testApiKey: (provider: ProviderId, apiKey?: string) => Promise<{ success: boolean; error?: string }>
+  deleteApiKey: (provider: ProviderId) => Promise<{ success: boolean; status?: ApiKeyStatus; error?: string }>
+  onLlmProviderUsed: (callback: (usage: ProviderUsage) => void) => () => void
+
+  // Conversations
+  chat: (message: string, conversationId?: string) => Promise<string>
+  listConversations: () => Promise<ConversationInfo[]>
+  getConversation: (conversationId?: string) => Promise<Conversation | null>
+  newConversation: () => Promise<Conversation>
+  setActiveConversation: (conversationId: string) => Promise<Conversation>
+  clearConversation: (conversationId: string) => Promise<Conversation>
+  forkConversation: (conversationId: string, messageIndex?: number) => Promise<Conversation>
+
+  // Prompt templates
+  getPromptTemplates: () => Promise<{ templates: PromptTemplate[]; variables: Record<PromptVariable, string> }>
+  updatePromptTemplate: (id: PromptTemplateId, override: PromptTemplateOverride) => Promise<PromptTemplateResult>
+  resetPromptTemplate: (id: PromptTemplateId) => Promise<PromptTemplateResult>
+  previewPromptTemplate: (id: PromptTemplateId, body?: string) => Promise<string>
+
+  // Settings
+  getSettings: () => Promise<AppSettings>
+  updateSettings: (patch: SettingsPatch) => Promise<SettingsUpdateResult>
+  resetSettings: () => Promise<SettingsUpdateResult>
+  onSettingsChanged: (callback: (settings: AppSettings) => void) => () => void
+
+  // Session history
+  getSessionHistory: (filter?: SessionFilter) => Promise<SessionSummary[]>
+  getSession: (id: string) => Promise<SessionRecord | null>
+  reopenSession: (id: string) => Promise<{ success: boolean; error?: string }>
+  deleteSession: (id: string) => Promise<void>
+  clearSessionHistory: () => Promise<void>
+  exportSession: (id?: string, format?: ExportFormat) => Promise<ExportSessionResult>
+  onSessionReopened: (callback: (data: { problemInfo: any; solution: SolutionRevision | null }) => void) => () => void
+
+  // Assistant profiles
+  getProfiles: () => Promise<{ profiles: AssistantProfile[]; activeProfileId: string }>
+  setActiveProfile: (id: string) => Promise<SetProfileResult>
+
+  // Live captions
+  getLiveTranscript: () => Promise<LiveTranscriptState>
+  setLiveCaptions: (active: boolean) => Promise<LiveTranscriptState>
+  addLiveAudioChunk: (chunk: AudioChunk) => Promise<{ success: boolean; error?: string }>
+  clearLiveTranscript: () => Promise<void>
+  onLiveTranscriptUpdated: (callback: (state: LiveTranscriptState) => void) => () => void
+  getVoiceTrigger: () => Promise<VoiceTriggerState>
+  setPushToTalk: (active: boolean) => Promise<VoiceTriggerState>
+  onVoiceTriggerUpdated: (callback: (state: VoiceTriggerState) => void) => () => void
+  onVoiceQuestion: (callback: (data: { streamId: string; message: string; conversationId: string }) => void) => () => void
+
+  // Streaming
+  startChatStream: (message: string, conversationId?: string) => Promise<string>
+  cancelLlmStream: (streamId: string) => Promise<boolean>
+  onLlmStreamChunk: (callback: (data: { streamId: string; source: StreamSource; chunk: string }) => void) => () => void
+  onLlmStreamDone: (callback: (data: { streamId: string; source: StreamSource; text: string; cancelled: boolean }) => void) => () => void
+  onLlmStreamError: (callback: (data: { streamId: string; source: StreamSource; error: string }) => void) => () => void
   
   invoke: (channel: string, ...args: any[]) => Promise<any>
 }
@@ -49,6 +145,7 @@ export const PROCESSING_EVENTS = {
   //global states
   UNAUTHORIZED: "procesing-unauthorized",
   NO_SCREENSHOTS: "processing-no-screenshots",
+  PROCESSING_CANCELLED: "processing-cancelled",
 
   //states for generating the initial solution
   INITIAL_START: "initial-start",
@@ -59,17 +156,48 @@ export const PROCESSING_EVENTS = {
   //states for processing the debugging
   DEBUG_START: "debug-start",
   DEBUG_SUCCESS: "debug-success",
-  DEBUG_ERROR: "debug-error"
+  DEBUG_ERROR: "debug-error",
+
+  //streamed LLM output (chat and solution text)
+  STREAM_CHUNK: "llm-stream-chunk",
+  STREAM_DONE: "llm-stream-done",
+  STREAM_ERROR: "llm-stream-error",
+
+  //which provider answered (differs from the active one after a fallback)
+  LLM_PROVIDER_USED: "llm-provider-used",
+
+  //a saved session was reopened from the history
+  SESSION_REOPENED: "session-reopened",
+
+  //an utterance from the live transcript is being answered
+  VOICE_QUESTION: "voice-question"
 } as const
 
 // Expose the Electron API to the renderer process
 contextBridge.exposeInMainWorld("electronAPI", {
   updateContentDimensions: (dimensions: { width: number; height: number }) =>
     ipcRenderer.invoke("update-content-dimensions", dimensions),
-  takeScreenshot: () => ipcRenderer.invoke("take-screenshot"),
+  takeScreenshot: (mode?: CaptureMode) => ipcRenderer.invoke("take-screenshot", mode),
   getScreenshots: () => ipcRenderer.invoke("get-screenshots"),
   deleteScreenshot: (path: string) =>
     ipcRenderer.invoke("delete-screenshot", path),
+  setScreenshotIncluded: (path: string, included: boolean) =>
+    ipcRenderer.invoke("set-screenshot-included", path, included),
+  importFiles: (filePaths: string[]) => ipcRenderer.invoke("import-files", filePaths),
+  importFilesWithDialog: () => ipcRenderer.invoke("import-files-dialog"),
+  getPathForFile: (file: File) => webUtils.getPathForFile(file),
+  onFilesImported: (callback: (result: FileImportResult) => void) => {
+    const subscription = (_: any, result: FileImportResult) => callback(result)
+    ipcRenderer.on("files-imported", subscription)
+    return () => {
+      ipcRenderer.removeListener("files-imported", subscription)
+    }
+  },
+  getScreenshotText: (path: string) => ipcRenderer.invoke("get-screenshot-text", path),
+  setScreenshotText: (path: string, text: string) => ipcRenderer.invoke("set-screenshot-text", path, text),
+  getSolutionRevisions: () => ipcRenderer.invoke("get-solution-revisions"),
+  selectSolutionRevision: (revision: number) => ipcRenderer.invoke("select-solution-revision", revision),
+  regenerateSolution: (language: string) => ipcRenderer.invoke("regenerate-solution", language),
 
   // Event listeners
   onScreenshotTaken: (
@@ -82,6 +210,13 @@ contextBridge.exposeInMainWorld("electronAPI", {
       ipcRenderer.removeListener("screenshot-taken", subscription)
     }
   },
+  onScreenshotError: (callback: (error: string) => void) => {
+    const subscription = (_: any, error: string) => callback(error)
+    ipcRenderer.on("screenshot-error", subscription)
+    return () => {
+      ipcRenderer.removeListener("screenshot-error", subscription)
+    }
+  },
   onSolutionsReady: (callback: (solutions: string) => void) => {
     const subscription = (_: any, solutions: string) => callback(solutions)
     ipcRenderer.on("solutions-ready", subscription)
@@ -144,6 +279,14 @@ contextBridge.exposeInMainWorld("electronAPI", {
     }
   },
 
+  onProcessingCancelled: (callback: (data: { requestIds: string[] }) => void) => {
+    const subscription = (_: any, data: { requestIds: string[] }) => callback(data)
+    ipcRenderer.on(PROCESSING_EVENTS.PROCESSING_CANCELLED, subscription)
+    return () => {
+      ipcRenderer.removeListener(PROCESSING_EVENTS.PROCESSING_CANCELLED, subscription)
+    }
+  },
+
   onProblemExtracted: (callback: (data: any) => void) => {
     const subscription = (_: any, data: any) => callback(data)
     ipcRenderer.on(PROCESSING_EVENTS.PROBLEM_EXTRACTED, subscription)
@@ -182,10 +325,127 @@ contextBridge.exposeInMainWorld("electronAPI", {
   
   // LLM Model Management
   getCurrentLlmConfig: () => ipcRenderer.invoke("get-current-llm-config"),
-  getAvailableOllamaModels: () => ipcRenderer.invoke("get-available-ollama-models"),
-  switchToOllama: (model?: string, url?: string) => ipcRenderer.invoke("switch-to-ollama", model, url),
-  switchToGemini: (apiKey?: string) => ipcRenderer.invoke("switch-to-gemini", apiKey),
+  getLlmProviders: () => ipcRenderer.invoke("get-llm-providers"),
+  getAvailableModels: (provider?: ProviderId, url?: string) => ipcRenderer.invoke("get-available-models", provider, url),
+  getModelVisionSupport: (provider: ProviderId, model: string, url?: string) =>
+    ipcRenderer.invoke("get-model-vision-support", provider, model, url),
+  switchLlmProvider: (provider: ProviderId, config?: ProviderConfig) =>
+    ipcRenderer.invoke("switch-llm-provider", provider, config),
   testLlmConnection: () => ipcRenderer.invoke("test-llm-connection"),
+  getApiKeyStatus: () => ipcRenderer.invoke("get-api-key-status"),
+  setApiKey: (provider: ProviderId, apiKey: string) => ipcRenderer.invoke("set-api-key", provider, apiKey),
+  testApiKey: (provider: ProviderId, apiKey?: string) => ipcRenderer.invoke("test-api-key", provider, apiKey),
+  deleteApiKey: (provider: ProviderId) => ipcRenderer.invoke("delete-api-key", provider),
+  onLlmProviderUsed: (callback: (usage: ProviderUsage) => void) => {
+    const subscription = (_: any, usage: ProviderUsage) => callback(usage)
+    ipcRenderer.on(PROCESSING_EVENTS.LLM_PROVIDER_USED, subscription)
+    return () => {
+      ipcRenderer.removeListener(PROCESSING_EVENTS.LLM_PROVIDER_USED, subscription)
+    }
+  },
+
+  // Conversations
+  chat: (message: string, conversationId?: string) => ipcRenderer.invoke("chat", message, conversationId),
+  listConversations: () => ipcRenderer.invoke("list-conversations"),
+  getConversation: (conversationId?: string) => ipcRenderer.invoke("get-conversation", conversationId),
+  newConversation: () => ipcRenderer.invoke("new-conversation"),
+  setActiveConversation: (conversationId: string) => ipcRenderer.invoke("set-active-conversation", conversationId),
+  clearConversation: (conversationId: string) => ipcRenderer.invoke("clear-conversation", conversationId),
+  forkConversation: (conversationId: string, messageIndex?: number) =>
+    ipcRenderer.invoke("fork-conversation", conversationId, messageIndex),
+
+  // Prompt templates
+  getPromptTemplates: () => ipcRenderer.invoke("get-prompt-templates"),
+  updatePromptTemplate: (id: PromptTemplateId, override: PromptTemplateOverride) =>
+    ipcRenderer.invoke("update-prompt-template", id, override),
+  resetPromptTemplate: (id: PromptTemplateId) => ipcRenderer.invoke("reset-prompt-template", id),
+  previewPromptTemplate: (id: PromptTemplateId, body?: string) => ipcRenderer.invoke("preview-prompt-template", id, body),
+
+  // Settings
+  getSettings: () => ipcRenderer.invoke("get-settings"),
+  updateSettings: (patch: SettingsPatch) => ipcRenderer.invoke("update-settings", patch),
+  resetSettings: () => ipcRenderer.invoke("reset-settings"),
+  onSettingsChanged: (callback: (settings: AppSettings) => void) => {
+    const subscription = (_: any, settings: AppSettings) => callback(settings)
+    ipcRenderer.on("settings-changed", subscription)
+    return () => {
+      ipcRenderer.removeListener("settings-changed", subscription)
+    }
+  },
+
+  // Session history
+  getSessionHistory: (filter?: SessionFilter) => ipcRenderer.invoke("get-session-history", filter),
+  getSession: (id: string) => ipcRenderer.invoke("get-session", id),
+  reopenSession: (id: string) => ipcRenderer.invoke("reopen-session", id),
+  deleteSession: (id: string) => ipcRenderer.invoke("delete-session", id),
+  clearSessionHistory: () => ipcRenderer.invoke("clear-session-history"),
+  exportSession: (id?: string, format?: ExportFormat) => ipcRenderer.invoke("export-session", id, format),
+  onSessionReopened: (callback: (data: { problemInfo: any; solution: SolutionRevision | null }) => void) => {
+    const subscription = (_: any, data: { problemInfo: any; solution: SolutionRevision | null }) => callback(data)
+    ipcRenderer.on(PROCESSING_EVENTS.SESSION_REOPENED, subscription)
+    return () => {
+      ipcRenderer.removeListener(PROCESSING_EVENTS.SESSION_REOPENED, subscription)
+    }
+  },
+
+  // Assistant profiles
+  getProfiles: () => ipcRenderer.invoke("get-profiles"),
+  setActiveProfile: (id: string) => ipcRenderer.invoke("set-active-profile", id),
+
+  // Live captions
+  getLiveTranscript: () => ipcRenderer.invoke("get-live-transcript"),
+  setLiveCaptions: (active: boolean) => ipcRenderer.invoke("set-live-captions", active),
+  addLiveAudioChunk: (chunk: AudioChunk) => ipcRenderer.invoke("add-live-audio-chunk", chunk),
+  clearLiveTranscript: () => ipcRenderer.invoke("clear-live-transcript"),
+  onLiveTranscriptUpdated: (callback: (state: LiveTranscriptState) => void) => {
+    const subscription = (_: any, state: LiveTranscriptState) => callback(state)
+    ipcRenderer.on("live-transcript-updated", subscription)
+    return () => {
+      ipcRenderer.removeListener("live-transcript-updated", subscription)
+    }
+  },
+  getVoiceTrigger: () => ipcRenderer.invoke("get-voice-trigger"),
+  setPushToTalk: (active: boolean) => ipcRenderer.invoke("set-push-to-talk", active),
+  onVoiceTriggerUpdated: (callback: (state: VoiceTriggerState) => void) => {
+    const subscription = (_: any, state: VoiceTriggerState) => callback(state)
+    ipcRenderer.on("voice-trigger-updated", subscription)
+    return () => {
+      ipcRenderer.removeListener("voice-trigger-updated", subscription)
+    }
+  },
+  onVoiceQuestion: (callback: (data: { streamId: string; message: string; conversationId: string }) => void) => {
+    const subscription = (_: any, data: { streamId: string; message: string; conversationId: string }) => callback(data)
+    ipcRenderer.on(PROCESSING_EVENTS.VOICE_QUESTION, subscription)
+    return () => {
+      ipcRenderer.removeListener(PROCESSING_EVENTS.VOICE_QUESTION, subscription)
+    }
+  },
+
+  // Streaming
+  startChatStream: (message: string, conversationId?: string) =>
+    ipcRenderer.invoke("chat-stream", message, conversationId),
+  cancelLlmStream: (streamId: string) => ipcRenderer.invoke("cancel-llm-stream", streamId),
+  onLlmStreamChunk: (callback: (data: { streamId: string; source: StreamSource; chunk: string }) => void) => {
+    const subscription = (_: any, data: { streamId: string; source: StreamSource; chunk: string }) => callback(data)
+    ipcRenderer.on(PROCESSING_EVENTS.STREAM_CHUNK, subscription)
+    return () => {
+      ipcRenderer.removeListener(PROCESSING_EVENTS.STREAM_CHUNK, subscription)
+    }
+  },
+  onLlmStreamDone: (callback: (data: { streamId: string; source: StreamSource; text: string; cancelled: boolean }) => void) => {
+    const subscription = (_: any, data: { streamId: string; source: StreamSource; text: string; cancelled: boolean }) => callback(data)
+    ipcRenderer.on(PROCESSING_EVENTS.STREAM_DONE, subscription)
+    return () => {
+      ipcRenderer.removeListener(PROCESSING_EVENTS.STREAM_DONE, subscription)
+    }
+  },
+  onLlmStreamError: (callback: (data: { streamId: string; source: StreamSource; error: string }) => void) => {
+    const subscription = (_: any, data: { streamId: string; source: StreamSource; error: string }) => callback(data)
+    ipcRenderer.on(PROCESSING_EVENTS.STREAM_ERROR, subscription)
+    return () => {
+      ipcRenderer.removeListener(PROCESSING_EVENTS.STREAM_ERROR, subscription)
+    }
+  },
   
   invoke: (channel: string, ...args: any[]) => ipcRenderer.invoke(channel, ...args)
 } as ElectronAPI)
@@ -1,104 +1,189 @@
-import { globalShortcut, app } from "electron"
+import { globalShortcut, app, dialog } from "electron"
 import { AppState } from "./main" // Adjust the import path if necessary
+import { ShortcutAction } from "./SettingsHelper"
+import { CaptureMode } from "./ScreenshotHelper"
+
+// Display text for an accelerator, e.g. "CommandOrControl+Shift+H" reads "Cmd+Shift+H" on macOS and "Ctrl+Shift+H" elsewhere
+export function formatShortcut(accelerator: string): string {
+  const isMac = process.platform === "darwin"
+  return accelerator
+    .split("+")
+    .map((key) => {
+      switch (key) {
+        case "CommandOrControl":
+        case "CmdOrCtrl":
+          return isMac ? "Cmd" : "Ctrl"
+        case "Command":
+          return "Cmd"
+        case "Control":
+          return "Ctrl"
+        case "Option":
+          return "Alt"
+        default:
+          return key
+      }
+    })
+    .join("+")
+}
 
 export class ShortcutsHelper {
   private appState: AppState
+  private quitHandlerRegistered: boolean = false
 
   constructor(appState: AppState) {
     this.appState = appState
+
+    // Re-register when the user changes a shortcut
+    this.appState.getSettingsHelper().subscribe((settings, previous) => {
+      if (JSON.stringify(settings.shortcuts) !== JSON.stringify(previous.shortcuts)) {
+        this.registerGlobalShortcuts()
+      }
+    })
   }
 
   public registerGlobalShortcuts(): void {
-    // Add global shortcut to show/center window
-    globalShortcut.register("CommandOrControl+Shift+Space", () => {
-      console.log("Show/Center window shortcut pressed...")
-      this.appState.centerAndShowWindow()
-    })
+    globalShortcut.unregisterAll()
 
-    globalShortcut.register("CommandOrControl+H", async () => {
-      const mainWindow = this.appState.getMainWindow()
-      if (mainWindow) {
-        console.log("Taking screenshot...")
+    const { shortcuts } = this.appState.getSettingsHelper().get()
+    const handlers = this.getShortcutHandlers()
+    for (const [action, accelerator] of Object.entries(shortcuts) as [ShortcutAction, string][]) {
+      if (!accelerator) continue
+      try {
+        globalShortcut.register(accelerator, handlers[action])
+        if (!globalShortcut.isRegistered(accelerator)) {
+          console.warn(`Shortcut ${accelerator} for ${action} is already in use`)
+        }
+      } catch (error) {
+        console.error(`Invalid shortcut ${accelerator} for ${action}:`, error)
+      }
+    }
+
+    // Unregister shortcuts when quitting
+    if (!this.quitHandlerRegistered) {
+      app.on("will-quit", () => {
+        globalShortcut.unregisterAll()
+      })
+      this.quitHandlerRegistered = true
+    }
+  }
+
+  private getShortcutHandlers(): Record<ShortcutAction, () => void | Promise<void>> {
+    return {
+      showWindow: () => {
+        console.log("Show/Center window shortcut pressed...")
+        this.appState.centerAndShowWindow()
+      },
+      takeScreenshot: () => this.takeScreenshot("full"),
+      captureRegion: () => this.takeScreenshot("region"),
+      captureWindow: () => this.takeScreenshot("window"),
+      repeatLastRegion: () => this.takeScreenshot("lastRegion"),
+      processScreenshots: async () => {
+        await this.appState.processingHelper.processScreenshots()
+      },
+      reset: () => this.reset(),
+      moveLeft: () => {
+        console.log("Move left shortcut pressed. Moving window left.")
+        this.appState.moveWindowLeft()
+      },
+      moveRight: () => {
+        console.log("Move right shortcut pressed. Moving window right.")
+        this.appState.moveWindowRight()
+      },
+      moveDown: () => {
+        console.log("Move down shortcut pressed. Moving window down.")
+        this.appState.moveWindowDown()
+      },
+      moveUp: () => {
+        console.log("Move up shortcut pressed. Moving window Up.")
+        this.appState.moveWindowUp()
+      },
+      toggleWindow: () => this.toggleWindow(),
+      cycleProfile: () => {
         try {
-          const screenshotPath = await this.appState.takeScreenshot()
-          const preview = await this.appState.getImagePreview(screenshotPath)
-          mainWindow.webContents.send("screenshot-taken", {
-            path: screenshotPath,
-            preview
-          })
+          const profile = this.appState.cycleProfile()
+          console.log(`Cycle profile shortcut pressed. Switched to ${profile.name}.`)
         } catch (error) {
-          console.error("Error capturing screenshot:", error)
+          console.error("Error switching profile:", error)
         }
+      },
+      exportSession: () => this.exportSession(),
+      toggleLiveCaptions: () => {
+        this.appState.getLiveTranscriptHelper().toggle()
+        console.log(`Live captions ${this.appState.getLiveTranscriptHelper().isActive() ? "started" : "stopped"}.`)
+      },
+      // Global shortcuts report no key release, so push-to-talk is pressed once to start and again to send
+      pushToTalk: () => {
+        this.appState.getVoiceTriggerHelper().togglePushToTalk()
+        console.log(`Push-to-talk ${this.appState.getVoiceTriggerHelper().getState().pushToTalk ? "started" : "released"}.`)
       }
-    })
-
-    globalShortcut.register("CommandOrControl+Enter", async () => {
-      await this.appState.processingHelper.processScreenshots()
-    })
+    }
+  }
 
-    globalShortcut.register("CommandOrControl+R", () => {
-      console.log(
-        "Command + R pressed. Canceling requests and resetting queues..."
-      )
+  private async takeScreenshot(mode: CaptureMode): Promise<void> {
+    const mainWindow = this.appState.getMainWindow()
+    if (mainWindow) {
+      console.log(`Taking screenshot (${mode})...`)
+      try {
+        const screenshotPath = await this.appState.takeScreenshot(mode)
+        if (!screenshotPath) return
+        const preview = await this.appState.getImagePreview(screenshotPath)
+        mainWindow.webContents.send("screenshot-taken", {
+          path: screenshotPath,
+          preview
+        })
+      } catch (error) {
+        console.error("Error capturing screenshot:", error)
+      }
+    }
+  }
 
-      // Cancel ongoing API requests
-      this.appState.processingHelper.cancelOngoingRequests()
+  private reset(): void {
+    console.log("Reset shortcut pressed. Canceling requests and resetting queues...")
 
-      // Clear both screenshot queues
-      this.appState.clearQueues()
+    // Cancel ongoing API requests
+    this.appState.processingHelper.cancelOngoingRequests()
 
-      console.log("Cleared queues.")
+    // Clear both screenshot queues
+    this.appState.clearQueues()
 
-      // Update the view state to 'queue'
-      this.appState.setView("queue")
+    console.log("Cleared queues.")
 
-      // Notify renderer process to switch view to 'queue'
-      const mainWindow = this.appState.getMainWindow()
-      if (mainWindow && !mainWindow.isDestroyed()) {
-        mainWindow.webContents.send("reset-view")
-      }
-    })
+    // Update the view state to 'queue'
+    this.appState.setView("queue")
 
-    // New shortcuts for moving the window
-    globalShortcut.register("CommandOrControl+Left", () => {
-      console.log("Command/Ctrl + Left pressed. Moving window left.")
-      this.appState.moveWindowLeft()
-    })
+    // Notify renderer process to switch view to 'queue'
+    const mainWindow = this.appState.getMainWindow()
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send("reset-view")
+    }
+  }
 
-    globalShortcut.register("CommandOrControl+Right", () => {
-      console.log("Command/Ctrl + Right pressed. Moving window right.")
-      this.appState.moveWindowRight()
-    })
-    globalShortcut.register("CommandOrControl+Down", () => {
-      console.log("Command/Ctrl + down pressed. Moving window down.")
-      this.appState.moveWindowDown()
-    })
-    globalShortcut.register("CommandOrControl+Up", () => {
-      console.log("Command/Ctrl + Up pressed. Moving window Up.")
-      this.appState.moveWindowUp()
-    })
+  private async exportSession(): Promise<void> {
+    console.log("Export shortcut pressed. Exporting the current session...")
+    try {
+      const filePath = await this.appState.exportSession()
+      if (filePath) console.log(`Exported session to ${filePath}`)
+    } catch (error: any) {
+      console.error("Error exporting session:", error)
+      dialog.showErrorBox("Export failed", error.message)
+    }
+  }
 
-    globalShortcut.register("CommandOrControl+B", () => {
-      this.appState.toggleMainWindow()
-      // If window exists and we're showing it, bring it to front
-      const mainWindow = this.appState.getMainWindow()
-      if (mainWindow && !this.appState.isVisible()) {
-        // Force the window to the front on macOS
-        if (process.platform === "darwin") {
-          mainWindow.setAlwaysOnTop(true, "normal")
-          // Reset alwaysOnTop after a brief delay
-          setTimeout(() => {
-            if (mainWindow && !mainWindow.isDestroyed()) {
-              mainWindow.setAlwaysOnTop(true, "floating")
-            }
-          }, 100)
-        }
+  private toggleWindow(): void {
+    this.appState.toggleMainWindow()
+    // If window exists and we're showing it, bring it to front
+    const mainWindow = this.appState.getMainWindow()
+    if (mainWindow && !this.appState.isVisible()) {
+      // Force the window to the front on macOS
+      if (process.platform === "darwin") {
+        mainWindow.setAlwaysOnTop(true, "normal")
+        // Reset alwaysOnTop after a brief delay
+        setTimeout(() => {
+          if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.setAlwaysOnTop(true, "floating")
+          }
+        }, 100)
       }
-    })
-
-    // Unregister shortcuts when quitting
-    app.on("will-quit", () => {
-      globalShortcut.unregisterAll()
-    })
+    }
   }
 }
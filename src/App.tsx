@@ -1,9 +1,39 @@
-import { ToastProvider } from "./components/ui/toast"
+import {
+  Toast,
+  ToastDescription,
+  ToastProvider,
+  ToastTitle
+} from "./components/ui/toast"
 import Queue from "./_pages/Queue"
 import { ToastViewport } from "@radix-ui/react-toast"
 import { useEffect, useRef, useState } from "react"
 import Solutions from "./_pages/Solutions"
+import LiveCaptions from "./components/ui/LiveCaptions"
 import { QueryClient, QueryClientProvider } from "react-query"
+import {
+  ApiKeyStatus,
+  LlmConfig,
+  LlmProviderId,
+  LlmProviderSettings,
+  LlmProviderUsage,
+  LlmStreamChunk,
+  LlmStreamDone,
+  LlmStreamError
+} from "./types/llm"
+import { Conversation, ConversationInfo } from "./types/conversation"
+import { SolutionRevision } from "./types/solutions"
+import { AppSettings, SettingsPatch, SettingsUpdateResult } from "./types/settings"
+import {
+  PromptTemplate,
+  PromptTemplateId,
+  PromptTemplateOverride,
+  PromptTemplateResult,
+  PromptVariable
+} from "./types/prompts"
+import { ProfileList, SetProfileResult } from "./types/profiles"
+import { CaptureMode, FileImportResult, ImportedFile, ScreenshotCapture } from "./types/screenshots"
+import { ExportFormat, ExportSessionResult, SessionFilter, SessionRecord, SessionReopenedEvent, SessionSummary } from "./types/history"
+import { AudioChunk, LiveTranscriptState, VoiceQuestionEvent, VoiceTriggerState } from "./types/audio"
 
 declare global {
   interface Window {
@@ -13,7 +43,7 @@ declare global {
         width: number
         height: number
       }) => Promise<void>
-      getScreenshots: () => Promise<Array<{ path: string; preview: string }>>
+      getScreenshots: () => Promise<Array<{ path: string; preview: string; included?: boolean; capture?: ScreenshotCapture; file?: ImportedFile }>>
 
       //GLOBAL EVENTS
       //TODO: CHECK THAT PROCESSING NO SCREENSHOTS AND TAKE SCREENSHOTS ARE BOTH CONDITIONAL
@@ -21,14 +51,26 @@ declare global {
       onScreenshotTaken: (
         callback: (data: { path: string; preview: string }) => void
       ) => () => void
+      onScreenshotError: (callback: (error: string) => void) => () => void
       onProcessingNoScreenshots: (callback: () => void) => () => void
+      onProcessingCancelled: (callback: (data: { requestIds: string[] }) => void) => () => void
       onResetView: (callback: () => void) => () => void
-      takeScreenshot: () => Promise<void>
+      takeScreenshot: (mode?: CaptureMode) => Promise<{ path: string; preview: string } | null>
 
       //INITIAL SOLUTION EVENTS
       deleteScreenshot: (
         path: string
       ) => Promise<{ success: boolean; error?: string }>
+      setScreenshotIncluded: (path: string, included: boolean) => Promise<void>
+      importFiles: (filePaths: string[]) => Promise<FileImportResult>
+      importFilesWithDialog: () => Promise<FileImportResult | null>
+      getPathForFile: (file: File) => string
+      onFilesImported: (callback: (result: FileImportResult) => void) => () => void
+      getScreenshotText: (path: string) => Promise<{ success: true; text: string } | { success: false; error: string }>
+      setScreenshotText: (path: string, text: string) => Promise<{ success: boolean; error?: string }>
+      getSolutionRevisions: () => Promise<{ revisions: SolutionRevision[]; currentRevision: number | null }>
+      selectSolutionRevision: (revision: number) => Promise<SolutionRevision>
+      regenerateSolution: (language: string) => Promise<{ success: boolean; error?: string }>
       onSolutionStart: (callback: () => void) => () => void
       onSolutionError: (callback: (error: string) => void) => () => void
       onSolutionSuccess: (callback: (data: any) => void) => () => void
@@ -50,11 +92,69 @@ declare global {
       quitApp: () => Promise<void>
       
       // LLM Model Management
-      getCurrentLlmConfig: () => Promise<{ provider: "ollama" | "gemini"; model: string; isOllama: boolean }>
-      getAvailableOllamaModels: () => Promise<string[]>
-      switchToOllama: (model?: string, url?: string) => Promise<{ success: boolean; error?: string }>
-      switchToGemini: (apiKey?: string) => Promise<{ success: boolean; error?: string }>
+      getCurrentLlmConfig: () => Promise<LlmConfig>
+      getLlmProviders: () => Promise<LlmProviderId[]>
+      getAvailableModels: (provider?: LlmProviderId, url?: string) => Promise<string[]>
+      getModelVisionSupport: (provider: LlmProviderId, model: string, url?: string) => Promise<boolean>
+      switchLlmProvider: (provider: LlmProviderId, config?: LlmProviderSettings) => Promise<{ success: boolean; error?: string }>
       testLlmConnection: () => Promise<{ success: boolean; error?: string }>
+      getApiKeyStatus: () => Promise<{ keys: ApiKeyStatus[]; usingKeychain: boolean }>
+      setApiKey: (provider: LlmProviderId, apiKey: string) => Promise<{ success: boolean; status?: ApiKeyStatus; error?: string }>
+      testApiKey: (provider: LlmProviderId, apiKey?: string) => Promise<{ success: boolean; error?: string }>
+      deleteApiKey: (provider: LlmProviderId) => Promise<{ success: boolean; status?: ApiKeyStatus; error?: string }>
+      onLlmProviderUsed: (callback: (usage: LlmProviderUsage) => void) => () => void
+
+      // Conversations
+      chat: (message: string, conversationId?: string) => Promise<string>
+      listConversations: () => Promise<ConversationInfo[]>
+      getConversation: (conversationId?: string) => Promise<Conversation | null>
+      newConversation: () => Promise<Conversation>
+      setActiveConversation: (conversationId: string) => Promise<Conversation>
+      clearConversation: (conversationId: string) => Promise<Conversation>
+      forkConversation: (conversationId: string, messageIndex?: number) => Promise<Conversation>
+
+      // Prompt templates
+      getPromptTemplates: () => Promise<{ templates: PromptTemplate[]; variables: Record<PromptVariable, string> }>
+      updatePromptTemplate: (id: PromptTemplateId, override: PromptTemplateOverride) => Promise<PromptTemplateResult>
+      resetPromptTemplate: (id: PromptTemplateId) => Promise<PromptTemplateResult>
+      previewPromptTemplate: (id: PromptTemplateId, body?: string) => Promise<string>
+
+      // Settings
+      getSettings: () => Promise<AppSettings>
+      updateSettings: (patch: SettingsPatch) => Promise<SettingsUpdateResult>
+      resetSettings: () => Promise<SettingsUpdateResult>
+      onSettingsChanged: (callback: (settings: AppSettings) => void) => () => void
+
+      // Session history
+      getSessionHistory: (filter?: SessionFilter) => Promise<SessionSummary[]>
+      getSession: (id: string) => Promise<SessionRecord | null>
+      reopenSession: (id: string) => Promise<{ success: boolean; error?: string }>
+      deleteSession: (id: string) => Promise<void>
+      clearSessionHistory: () => Promise<void>
+      exportSession: (id?: string, format?: ExportFormat) => Promise<ExportSessionResult>
+      onSessionReopened: (callback: (data: SessionReopenedEvent) => void) => () => void
+
+      // Assistant profiles
+      getProfiles: () => Promise<ProfileList>
+      setActiveProfile: (id: string) => Promise<SetProfileResult>
+
+      // Live captions
+      getLiveTranscript: () => Promise<LiveTranscriptState>
+      setLiveCaptions: (active: boolean) => Promise<LiveTranscriptState>
+      addLiveAudioChunk: (chunk: AudioChunk) => Promise<{ success: boolean; error?: string }>
+      clearLiveTranscript: () => Promise<void>
+      onLiveTranscriptUpdated: (callback: (state: LiveTranscriptState) => void) => () => void
+      getVoiceTrigger: () => Promise<VoiceTriggerState>
+      setPushToTalk: (active: boolean) => Promise<VoiceTriggerState>
+      onVoiceTriggerUpdated: (callback: (state: VoiceTriggerState) => void) => () => void
+      onVoiceQuestion: (callback: (data: VoiceQuestionEvent) => void) => () => void
+
+      // Streaming
+      startChatStream: (message: string, conversationId?: string) => Promise<string>
+      cancelLlmStream: (streamId: string) => Promise<boolean>
+      onLlmStreamChunk: (callback: (data: LlmStreamChunk) => void) => () => void
+      onLlmStreamDone: (callback: (data: LlmStreamDone) => void) => () => void
+      onLlmStreamError: (callback: (data: LlmStreamError) => void) => () => void
       
       invoke: (channel: string, ...args: any[]) => Promise<any>
     }
@@ -73,6 +173,17 @@ const queryClient = new QueryClient({
 const App: React.FC = () => {
   const [view, setView] = useState<"queue" | "solutions" | "debug">("queue")
   const containerRef = useRef<HTMLDivElement>(null)
+  // Lives here so it survives the view reset that usually follows a cancel
+  const [cancelledToastOpen, setCancelledToastOpen] = useState(false)
+  // Set when a fallback provider had to answer instead of the active one
+  const [fallbackUsage, setFallbackUsage] = useState<LlmProviderUsage | null>(null)
+  // Reasons files dropped or picked could not be added to the queue
+  const [importErrors, setImportErrors] = useState<string[]>([])
+  // Why the last capture failed, e.g. no active window could be found
+  const [screenshotError, setScreenshotError] = useState<string | null>(null)
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
+  // Enter and leave fire for every child the drag crosses, so they are counted
+  const dragDepthRef = useRef(0)
 
   // Effect for height monitoring
   useEffect(() => {
@@ -152,6 +263,32 @@ const App: React.FC = () => {
         setView("queue")
         console.log("View reset to 'queue' via Command+R shortcut")
       }),
+      window.electronAPI.onProcessingCancelled(() => {
+        setCancelledToastOpen(true)
+      }),
+      window.electronAPI.onScreenshotError(setScreenshotError),
+      window.electronAPI.onFilesImported(({ errors }) => {
+        if (errors.length > 0) {
+          setImportErrors(errors)
+        }
+      }),
+      window.electronAPI.onLlmProviderUsed((usage) => {
+        if (usage.fallback) {
+          setFallbackUsage(usage)
+        }
+      }),
+      window.electronAPI.onSessionReopened(({ problemInfo, solution }) => {
+        queryClient.removeQueries(["new_solution"])
+        queryClient.setQueryData(["problem_statement"], problemInfo)
+        queryClient.setQueryData(["solution"], solution && {
+          code: solution.code,
+          language: solution.language,
+          thoughts: solution.thoughts,
+          time_complexity: solution.time_complexity,
+          space_complexity: solution.space_complexity
+        })
+        setView("solutions")
+      }),
       window.electronAPI.onProblemExtracted((data: any) => {
         if (view === "queue") {
           console.log("Problem extracted successfully")
@@ -163,8 +300,60 @@ const App: React.FC = () => {
     return () => cleanupFunctions.forEach((cleanup) => cleanup())
   }, [])
 
+  const hasFiles = (event: React.DragEvent) => event.dataTransfer.types.includes("Files")
+
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (!hasFiles(event)) return
+    event.preventDefault()
+    dragDepthRef.current += 1
+    setIsDraggingFiles(true)
+  }
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    if (!hasFiles(event)) return
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1)
+    if (dragDepthRef.current === 0) setIsDraggingFiles(false)
+  }
+
+  // Without this the drop would be refused
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!hasFiles(event)) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = "copy"
+  }
+
+  // Dropped files go into the queue of the current view; refused ones are reported by onFilesImported
+  const handleDrop = async (event: React.DragEvent) => {
+    if (!hasFiles(event)) return
+    event.preventDefault()
+    dragDepthRef.current = 0
+    setIsDraggingFiles(false)
+    const filePaths = Array.from(event.dataTransfer.files)
+      .map((file) => window.electronAPI.getPathForFile(file))
+      .filter((filePath) => filePath !== "")
+    if (filePaths.length === 0) return
+    try {
+      await window.electronAPI.importFiles(filePaths)
+    } catch (error) {
+      console.error("Error adding dropped files:", error)
+      setImportErrors([(error as Error).message])
+    }
+  }
+
   return (
-    <div ref={containerRef} className="min-h-0">
+    <div
+      ref={containerRef}
+      className="min-h-0 relative"
+      onDragEnter={handleDragEnter}
+      onDragLeave={handleDragLeave}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
+      {isDraggingFiles && (
+        <div className="pointer-events-none absolute inset-0 z-50 flex items-center justify-center rounded-lg border-2 border-dashed border-white/60 bg-black/70 text-xs text-white/90">
+          Drop images, PDFs, audio or text files to add them to the queue
+        </div>
+      )}
       <QueryClientProvider client={queryClient}>
         <ToastProvider>
           {view === "queue" ? (
@@ -174,6 +363,53 @@ const App: React.FC = () => {
           ) : (
             <></>
           )}
+          <LiveCaptions />
+          <Toast
+            open={cancelledToastOpen}
+            onOpenChange={setCancelledToastOpen}
+            variant="neutral"
+            duration={3000}
+          >
+            <ToastTitle>Processing Cancelled</ToastTitle>
+            <ToastDescription>
+              The request was stopped and its results discarded.
+            </ToastDescription>
+          </Toast>
+          <Toast
+            open={fallbackUsage !== null}
+            onOpenChange={(open) => !open && setFallbackUsage(null)}
+            variant="neutral"
+            duration={4000}
+          >
+            <ToastTitle>Answered by {fallbackUsage?.providerId}</ToastTitle>
+            <ToastDescription>
+              The active provider failed, so {fallbackUsage?.model} answered instead.
+            </ToastDescription>
+          </Toast>
+          <Toast
+            open={screenshotError !== null}
+            onOpenChange={(open) => !open && setScreenshotError(null)}
+            variant="error"
+            duration={5000}
+          >
+            <ToastTitle>Screenshot not taken</ToastTitle>
+            <ToastDescription>{screenshotError}</ToastDescription>
+          </Toast>
+          <Toast
+            open={importErrors.length > 0}
+            onOpenChange={(open) => !open && setImportErrors([])}
+            variant="error"
+            duration={5000}
+          >
+            <ToastTitle>
+              {importErrors.length === 1 ? "A file was not added" : `${importErrors.length} files were not added`}
+            </ToastTitle>
+            <ToastDescription>
+              {importErrors.map((error) => (
+                <span key={error} className="block">{error}</span>
+              ))}
+            </ToastDescription>
+          </Toast>
           <ToastViewport />
         </ToastProvider>
       </QueryClientProvider>
@@ -14,6 +14,9 @@ import {
 } from "../components/ui/toast"
 import ExtraScreenshotsQueueHelper from "../components/Solutions/SolutionCommands"
 import { diffLines } from "diff"
+import { SolutionRevision } from "../types/solutions"
+import CodeLanguagePicker from "../components/Solutions/CodeLanguagePicker"
+import { CodeLanguageId, detectLanguage, normalizeLanguage } from "../lib/codeLanguages"
 
 type DiffLine = {
   value: string
@@ -32,11 +35,17 @@ const syntaxHighlighterStyles = {
 const CodeComparisonSection = ({
   oldCode,
   newCode,
-  isLoading
+  isLoading,
+  language,
+  codeLanguage,
+  onLanguageChange
 }: {
   oldCode: string | null
   newCode: string | null
   isLoading: boolean
+  language: CodeLanguageId | null
+  codeLanguage: CodeLanguageId | null
+  onLanguageChange: (language: CodeLanguageId) => void
 }) => {
   const computeDiff = () => {
     if (!oldCode || !newCode) return { leftLines: [], rightLines: [] }
@@ -104,9 +113,16 @@ const CodeComparisonSection = ({
 
   return (
     <div className="space-y-1.5">
-      <h2 className="text-[13px] font-medium text-white tracking-wide">
-        Code Comparison
-      </h2>
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-[13px] font-medium text-white tracking-wide">
+          Code Comparison
+        </h2>
+        <CodeLanguagePicker
+          language={language}
+          codeLanguage={codeLanguage}
+          onLanguageChange={onLanguageChange}
+        />
+      </div>
       {isLoading ? (
         <div className="space-y-1">
           <div className="mt-3 flex">
@@ -126,7 +142,7 @@ const CodeComparisonSection = ({
             </div>
             <div className="p-3 overflow-x-auto">
               <SyntaxHighlighter
-                language="python"
+                language={language || "text"}
                 style={dracula}
                 customStyle={{
                   maxWidth: "100%",
@@ -163,7 +179,7 @@ const CodeComparisonSection = ({
             </div>
             <div className="p-3 overflow-x-auto">
               <SyntaxHighlighter
-                language="python"
+                language={language || "text"}
                 style={dracula}
                 customStyle={{
                   maxWidth: "100%",
@@ -207,6 +223,8 @@ const Debug: React.FC<DebugProps> = ({ isProcessing, setIsProcessing }) => {
 
   const [oldCode, setOldCode] = useState<string | null>(null)
   const [newCode, setNewCode] = useState<string | null>(null)
+  const [languageData, setLanguageData] = useState<string | null>(null)
+  const [highlightLanguage, setHighlightLanguage] = useState<CodeLanguageId | null>(null)
   const [thoughtsData, setThoughtsData] = useState<string[] | null>(null)
   const [timeComplexityData, setTimeComplexityData] = useState<string | null>(
     null
@@ -225,6 +243,10 @@ const Debug: React.FC<DebugProps> = ({ isProcessing, setIsProcessing }) => {
   const [isTooltipVisible, setIsTooltipVisible] = useState(false)
   const [tooltipHeight, setTooltipHeight] = useState(0)
 
+  // Debug iterations kept by the main process; each is compared with the version it revised
+  const [revisions, setRevisions] = useState<SolutionRevision[]>([])
+  const [viewedRevision, setViewedRevision] = useState<number | null>(null)
+
   const { data: extraScreenshots = [], refetch } = useQuery({
     queryKey: ["extras"],
     queryFn: async () => {
@@ -267,11 +289,51 @@ const Debug: React.FC<DebugProps> = ({ isProcessing, setIsProcessing }) => {
     }
   }
 
+  const showRevision = (revision: SolutionRevision, allRevisions: SolutionRevision[]) => {
+    const parent = revision.parentRevision !== undefined ? allRevisions[revision.parentRevision] : undefined
+    setOldCode(parent?.code || null)
+    setNewCode(revision.code || null)
+    setLanguageData(revision.language || parent?.language || null)
+    setThoughtsData(revision.thoughts)
+    setTimeComplexityData(revision.time_complexity || null)
+    setSpaceComplexityData(revision.space_complexity || null)
+    setViewedRevision(revision.revision)
+  }
+
+  const loadRevisions = async () => {
+    try {
+      const { revisions: allRevisions, currentRevision } = await window.electronAPI.getSolutionRevisions()
+      setRevisions(allRevisions)
+      const current = currentRevision !== null ? allRevisions[currentRevision] : undefined
+      if (current?.source === "debug") {
+        showRevision(current, allRevisions)
+      }
+    } catch (error) {
+      console.error("Error loading solution revisions:", error)
+    }
+  }
+
+  // Stepping to a revision also makes it the base for the next debug run
+  const handleStepRevision = async (revision: SolutionRevision) => {
+    try {
+      await window.electronAPI.selectSolutionRevision(revision.revision)
+      showRevision(revision, revisions)
+    } catch (error) {
+      console.error("Error selecting solution revision:", error)
+    }
+  }
+
+  const codeLanguage = normalizeLanguage(languageData) || detectLanguage(newCode || oldCode)
+
+  const debugRevisions = revisions.filter((revision) => revision.source === "debug")
+  const viewedIndex = debugRevisions.findIndex((revision) => revision.revision === viewedRevision)
+
   useEffect(() => {
     // Try to get the new solution data from cache first
     const newSolution = queryClient.getQueryData(["new_solution"]) as {
       old_code: string
       new_code: string
+      language?: string
       thoughts: string[]
       time_complexity: string
       space_complexity: string
@@ -281,18 +343,22 @@ const Debug: React.FC<DebugProps> = ({ isProcessing, setIsProcessing }) => {
     if (newSolution) {
       setOldCode(newSolution.old_code || null)
       setNewCode(newSolution.new_code || null)
+      setLanguageData(newSolution.language || null)
       setThoughtsData(newSolution.thoughts || null)
       setTimeComplexityData(newSolution.time_complexity || null)
       setSpaceComplexityData(newSolution.space_complexity || null)
       setIsProcessing(false)
     }
+    loadRevisions()
 
     // Set up event listeners
     const cleanupFunctions = [
       window.electronAPI.onScreenshotTaken(() => refetch()),
+      window.electronAPI.onFilesImported(() => refetch()),
       window.electronAPI.onResetView(() => refetch()),
       window.electronAPI.onDebugSuccess(() => {
         setIsProcessing(false) //all the other stuff ahapepns in the parent component, so we just need to do this.
+        loadRevisions()
       }),
       window.electronAPI.onDebugStart(() => {
         setIsProcessing(true)
@@ -375,6 +441,34 @@ const Debug: React.FC<DebugProps> = ({ isProcessing, setIsProcessing }) => {
       <div className="w-full text-sm text-black bg-black/60 rounded-md">
         <div className="rounded-lg overflow-hidden">
           <div className="px-4 py-3 space-y-4">
+            {/* Revision navigation */}
+            {debugRevisions.length > 1 && viewedIndex !== -1 && (
+              <div className="flex items-center gap-2 text-[11px] text-white/70">
+                <button
+                  className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-2 py-1 leading-none disabled:opacity-40"
+                  disabled={isProcessing || viewedIndex === 0}
+                  onClick={() => handleStepRevision(debugRevisions[viewedIndex - 1])}
+                  type="button"
+                >
+                  ‹ Previous
+                </button>
+                <span>
+                  Revision {viewedIndex + 1} of {debugRevisions.length}
+                </span>
+                <button
+                  className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-2 py-1 leading-none disabled:opacity-40"
+                  disabled={isProcessing || viewedIndex === debugRevisions.length - 1}
+                  onClick={() => handleStepRevision(debugRevisions[viewedIndex + 1])}
+                  type="button"
+                >
+                  Next ›
+                </button>
+                {viewedIndex < debugRevisions.length - 1 && (
+                  <span className="text-white/50">The next debug builds on this revision</span>
+                )}
+              </div>
+            )}
+
             {/* Thoughts Section */}
             <ContentSection
               title="What I Changed"
@@ -400,14 +494,19 @@ const Debug: React.FC<DebugProps> = ({ isProcessing, setIsProcessing }) => {
               oldCode={oldCode}
               newCode={newCode}
               isLoading={!oldCode || !newCode}
+              language={highlightLanguage || codeLanguage}
+              codeLanguage={codeLanguage}
+              onLanguageChange={setHighlightLanguage}
             />
 
-            {/* Complexity Section */}
-            <ComplexitySection
-              timeComplexity={timeComplexityData}
-              spaceComplexity={spaceComplexityData}
-              isLoading={!timeComplexityData || !spaceComplexityData}
-            />
+            {/* Complexity Section (only when the revision reports it) */}
+            {(timeComplexityData || spaceComplexityData) && (
+              <ComplexitySection
+                timeComplexity={timeComplexityData}
+                spaceComplexity={spaceComplexityData}
+                isLoading={false}
+              />
+            )}
           </div>
         </div>
       </div>
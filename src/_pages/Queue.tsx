@@ -9,7 +9,21 @@ import {
   ToastMessage
 } from "../components/ui/toast"
 import QueueCommands from "../components/Queue/QueueCommands"
-import ModelSelector from "../components/ui/ModelSelector"
+import ModelSelector, { getProviderIcon } from "../components/ui/ModelSelector"
+import PromptTemplateEditor from "../components/ui/PromptTemplateEditor"
+import SessionHistory from "../components/ui/SessionHistory"
+import Markdown from "../components/ui/Markdown"
+import { LlmProviderId } from "../types/llm"
+import { ImportedFile } from "../types/screenshots"
+import { Conversation, ConversationInfo } from "../types/conversation"
+
+type ChatEntry = { role: "user" | "gemini"; text: string; streamId?: string }
+
+const toChatEntries = (conversation: Conversation): ChatEntry[] =>
+  conversation.messages.map((message) => ({
+    role: message.role === "assistant" ? "gemini" : "user",
+    text: message.content
+  }))
 
 interface QueueProps {
   setView: React.Dispatch<React.SetStateAction<"queue" | "solutions" | "debug">>
@@ -28,17 +42,23 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
   const contentRef = useRef<HTMLDivElement>(null)
 
   const [chatInput, setChatInput] = useState("")
-  const [chatMessages, setChatMessages] = useState<{role: "user"|"gemini", text: string}[]>([])
+  const [chatMessages, setChatMessages] = useState<ChatEntry[]>([])
   const [chatLoading, setChatLoading] = useState(false)
+  const [activeStreamId, setActiveStreamId] = useState<string | null>(null)
+  const activeStreamIdRef = useRef<string | null>(null)
   const [isChatOpen, setIsChatOpen] = useState(false)
   const chatInputRef = useRef<HTMLInputElement>(null)
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [conversations, setConversations] = useState<ConversationInfo[]>([])
   
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  const [isPromptsOpen, setIsPromptsOpen] = useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
   const [currentModel, setCurrentModel] = useState<{ provider: string; model: string }>({ provider: "gemini", model: "gemini-3-pro-preview" })
 
   const barRef = useRef<HTMLDivElement>(null)
 
-  const { data: screenshots = [], refetch } = useQuery<Array<{ path: string; preview: string }>, Error>(
+  const { data: screenshots = [], refetch } = useQuery<Array<{ path: string; preview: string; included?: boolean; file?: ImportedFile }>, Error>(
     ["screenshots"],
     async () => {
       try {
@@ -86,22 +106,81 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
     }
   }
 
+  const handleToggleScreenshot = async (index: number, included: boolean) => {
+    try {
+      await window.electronAPI.setScreenshotIncluded(screenshots[index].path, included)
+      refetch()
+    } catch (error) {
+      console.error("Error updating screenshot selection:", error)
+    }
+  }
+
+  const finishChatStream = () => {
+    activeStreamIdRef.current = null
+    setActiveStreamId(null)
+    setChatLoading(false)
+    chatInputRef.current?.focus()
+  }
+
   const handleChatSend = async () => {
     if (!chatInput.trim()) return
     setChatMessages((msgs) => [...msgs, { role: "user", text: chatInput }])
     setChatLoading(true)
     setChatInput("")
     try {
-      const response = await window.electronAPI.invoke("gemini-chat", chatInput)
-      setChatMessages((msgs) => [...msgs, { role: "gemini", text: response }])
+      const streamId = await window.electronAPI.startChatStream(chatInput, conversationId ?? undefined)
+      activeStreamIdRef.current = streamId
+      setActiveStreamId(streamId)
+      setChatMessages((msgs) => [...msgs, { role: "gemini", text: "", streamId }])
     } catch (err) {
       setChatMessages((msgs) => [...msgs, { role: "gemini", text: "Error: " + String(err) }])
-    } finally {
-      setChatLoading(false)
-      chatInputRef.current?.focus()
+      finishChatStream()
     }
   }
 
+  const handleChatStop = async () => {
+    if (!activeStreamId) return
+    await window.electronAPI.cancelLlmStream(activeStreamId)
+  }
+
+  // Append streamed chat tokens to the matching reply bubble
+  useEffect(() => {
+    const cleanupFunctions = [
+      window.electronAPI.onLlmStreamChunk(({ streamId, source, chunk }) => {
+        if (source !== "chat") return
+        setChatMessages((msgs) =>
+          msgs.map((msg) => (msg.streamId === streamId ? { ...msg, text: msg.text + chunk } : msg))
+        )
+      }),
+      window.electronAPI.onLlmStreamDone(({ streamId, source, cancelled }) => {
+        if (source !== "chat" || streamId !== activeStreamIdRef.current) return
+        if (cancelled) {
+          setChatMessages((msgs) =>
+            msgs.map((msg) => (msg.streamId === streamId ? { ...msg, text: msg.text + (msg.text ? " " : "") + "⏹ Stopped" } : msg))
+          )
+        }
+        finishChatStream()
+      }),
+      window.electronAPI.onLlmStreamError(({ streamId, source, error }) => {
+        if (source !== "chat" || streamId !== activeStreamIdRef.current) return
+        setChatMessages((msgs) =>
+          msgs.map((msg) => (msg.streamId === streamId ? { ...msg, text: msg.text + (msg.text ? "\n" : "") + "Error: " + error } : msg))
+        )
+        finishChatStream()
+      }),
+      // Questions answered hands-free from the live transcript stream into the chat
+      window.electronAPI.onVoiceQuestion(({ streamId, message, conversationId: questionConversationId }) => {
+        activeStreamIdRef.current = streamId
+        setActiveStreamId(streamId)
+        setChatLoading(true)
+        setConversationId(questionConversationId)
+        setChatMessages((msgs) => [...msgs, { role: "user", text: message }, { role: "gemini", text: "", streamId }])
+        setIsChatOpen(true)
+      })
+    ]
+    return () => cleanupFunctions.forEach((cleanup) => cleanup())
+  }, [])
+
   // Load current model configuration on mount
   useEffect(() => {
     const loadCurrentModel = async () => {
@@ -138,6 +217,7 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
 
     const cleanupFunctions = [
       window.electronAPI.onScreenshotTaken(() => refetch()),
+      window.electronAPI.onFilesImported(() => refetch()),
       window.electronAPI.onResetView(() => refetch()),
       window.electronAPI.onSolutionError((error: string) => {
         showToast(
@@ -195,6 +275,37 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
     setTooltipHeight(height)
   }
 
+  const refreshConversations = async () => {
+    try {
+      setConversations(await window.electronAPI.listConversations())
+    } catch (error) {
+      console.error("Error listing conversations:", error)
+    }
+  }
+
+  const showConversation = (conversation: Conversation) => {
+    setConversationId(conversation.id)
+    setChatMessages(toChatEntries(conversation))
+    refreshConversations()
+  }
+
+  // Restore the active conversation kept by the main process
+  useEffect(() => {
+    window.electronAPI.getConversation().then((conversation) => {
+      if (conversation) showConversation(conversation)
+    }).catch((error) => console.error("Error loading conversation:", error))
+  }, [])
+
+  const runConversationAction = async (action: () => Promise<Conversation>) => {
+    if (chatLoading) return
+    try {
+      showConversation(await action())
+    } catch (error) {
+      console.error("Conversation action failed:", error)
+      showToast("Error", "Conversation update failed", "error")
+    }
+  }
+
   const handleChatToggle = () => {
     setIsChatOpen(!isChatOpen)
   }
@@ -203,13 +314,20 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
     setIsSettingsOpen(!isSettingsOpen)
   }
 
-  const handleModelChange = (provider: "ollama" | "gemini", model: string) => {
+  const handlePromptsToggle = () => {
+    setIsPromptsOpen(!isPromptsOpen)
+  }
+
+  const handleHistoryToggle = () => {
+    setIsHistoryOpen(!isHistoryOpen)
+  }
+
+  const handleModelChange = (provider: LlmProviderId, model: string) => {
     setCurrentModel({ provider, model })
     // Update chat messages to reflect the model change
-    const modelName = provider === "ollama" ? model : "Gemini 3 Pro"
     setChatMessages((msgs) => [...msgs, { 
       role: "gemini", 
-      text: `🔄 Switched to ${provider === "ollama" ? "🏠" : "☁️"} ${modelName}. Ready for your questions!` 
+      text: `🔄 Switched to ${getProviderIcon(provider)} ${model}. Ready for your questions!` 
     }])
   }
 
@@ -235,12 +353,24 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
             <ToastTitle>{toastMessage.title}</ToastTitle>
             <ToastDescription>{toastMessage.description}</ToastDescription>
           </Toast>
+          {screenshots.length > 0 && (
+            <div className="pb-3 w-fit">
+              <ScreenshotQueue
+                isLoading={false}
+                screenshots={screenshots}
+                onDeleteScreenshot={handleDeleteScreenshot}
+                onToggleScreenshot={handleToggleScreenshot}
+              />
+            </div>
+          )}
           <div className="w-fit">
             <QueueCommands
               screenshots={screenshots}
               onTooltipVisibilityChange={handleTooltipVisibilityChange}
               onChatToggle={handleChatToggle}
               onSettingsToggle={handleSettingsToggle}
+              onPromptsToggle={handlePromptsToggle}
+              onHistoryToggle={handleHistoryToggle}
             />
           </div>
           {/* Conditional Settings Interface */}
@@ -249,21 +379,74 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
               <ModelSelector onModelChange={handleModelChange} onChatOpen={() => setIsChatOpen(true)} />
             </div>
           )}
+
+          {/* Conditional Prompt Template Editor */}
+          {isPromptsOpen && (
+            <div className="mt-4 w-full mx-auto">
+              <PromptTemplateEditor />
+            </div>
+          )}
+
+          {/* Conditional Session History */}
+          {isHistoryOpen && (
+            <div className="mt-4 w-full mx-auto">
+              <SessionHistory />
+            </div>
+          )}
           
           {/* Conditional Chat Interface */}
           {isChatOpen && (
             <div className="mt-4 w-full mx-auto liquid-glass chat-container p-4 flex flex-col">
+            <div className="flex gap-2 items-center mb-2 glass-content">
+              <select
+                className="flex-1 min-w-0 rounded-lg px-2 py-1 bg-white/25 text-gray-800 text-xs border border-white/40 focus:outline-none"
+                value={conversationId ?? ""}
+                disabled={chatLoading}
+                onFocus={refreshConversations}
+                onChange={e => runConversationAction(() => window.electronAPI.setActiveConversation(e.target.value))}
+              >
+                {conversations.map((conversation) => (
+                  <option key={conversation.id} value={conversation.id}>
+                    {conversation.title} ({conversation.messageCount})
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className="px-2 py-1 rounded-lg bg-white/25 hover:bg-white/40 border border-white/40 text-gray-700 text-xs disabled:opacity-50"
+                disabled={chatLoading}
+                onClick={() => runConversationAction(() => window.electronAPI.newConversation())}
+              >
+                New
+              </button>
+              <button
+                type="button"
+                className="px-2 py-1 rounded-lg bg-white/25 hover:bg-white/40 border border-white/40 text-gray-700 text-xs disabled:opacity-50"
+                disabled={chatLoading || !conversationId}
+                onClick={() => conversationId && runConversationAction(() => window.electronAPI.forkConversation(conversationId))}
+              >
+                Fork
+              </button>
+              <button
+                type="button"
+                className="px-2 py-1 rounded-lg bg-white/25 hover:bg-white/40 border border-white/40 text-gray-700 text-xs disabled:opacity-50"
+                disabled={chatLoading || !conversationId}
+                onClick={() => conversationId && runConversationAction(() => window.electronAPI.clearConversation(conversationId))}
+              >
+                Clear
+              </button>
+            </div>
             <div className="flex-1 overflow-y-auto mb-3 p-3 rounded-lg bg-white/10 backdrop-blur-md max-h-64 min-h-[120px] glass-content border border-white/20 shadow-lg">
               {chatMessages.length === 0 ? (
                 <div className="text-sm text-gray-600 text-center mt-8">
-                  💬 Chat with {currentModel.provider === "ollama" ? "🏠" : "☁️"} {currentModel.model}
+                  💬 Chat with {getProviderIcon(currentModel.provider)} {currentModel.model}
                   <br />
                   <span className="text-xs text-gray-500">Take a screenshot (Cmd+H) for automatic analysis</span>
                   <br />
                   <span className="text-xs text-gray-500">Click ⚙️ Models to switch AI providers</span>
                 </div>
               ) : (
-                chatMessages.map((msg, idx) => (
+                chatMessages.filter((msg) => msg.role === "user" || msg.text).map((msg, idx) => (
                   <div
                     key={idx}
                     className={`w-full flex ${msg.role === "user" ? "justify-end" : "justify-start"} mb-3`}
@@ -276,12 +459,12 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
                       }`}
                       style={{ wordBreak: "break-word", lineHeight: "1.4" }}
                     >
-                      {msg.text}
+                      {msg.role === "user" ? msg.text : <Markdown content={msg.text} />}
                     </div>
                   </div>
                 ))
               )}
-              {chatLoading && (
+              {chatLoading && !chatMessages.some((msg) => msg.streamId === activeStreamId && msg.text) && (
                 <div className="flex justify-start mb-3">
                   <div className="bg-white/85 text-gray-600 px-3 py-1.5 rounded-xl text-xs backdrop-blur-sm border border-gray-200/50 shadow-md mr-12">
                     <span className="inline-flex items-center">
@@ -309,6 +492,16 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
                 onChange={e => setChatInput(e.target.value)}
                 disabled={chatLoading}
               />
+              {activeStreamId && (
+                <button
+                  type="button"
+                  className="px-2 py-2 rounded-lg bg-red-500/70 hover:bg-red-500/90 border border-red-400/60 text-white text-xs transition-all duration-200 backdrop-blur-sm shadow-lg"
+                  onClick={handleChatStop}
+                  aria-label="Stop"
+                >
+                  ⏹
+                </button>
+              )}
               <button
                 type="submit"
                 className="p-2 rounded-lg bg-gray-600/80 hover:bg-gray-700/80 border border-gray-500/60 flex items-center justify-center transition-all duration-200 backdrop-blur-sm shadow-lg disabled:opacity-50"
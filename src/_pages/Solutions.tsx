@@ -14,7 +14,11 @@ import {
 } from "../components/ui/toast"
 import { ProblemStatementData } from "../types/solutions"
 import { AudioResult } from "../types/audio"
+import { ImportedFile } from "../types/screenshots"
 import SolutionCommands from "../components/Solutions/SolutionCommands"
+import CodeLanguagePicker from "../components/Solutions/CodeLanguagePicker"
+import Markdown from "../components/ui/Markdown"
+import { CodeLanguageId, detectLanguage, getLanguageLabel, normalizeLanguage } from "../lib/codeLanguages"
 import Debug from "./Debug"
 
 // (Using global ElectronAPI type from src/types/electron.d.ts)
@@ -48,16 +52,23 @@ export const ContentSection = ({
 const SolutionSection = ({
   title,
   content,
-  isLoading
+  isLoading,
+  language,
+  actions
 }: {
   title: string
   content: React.ReactNode
   isLoading: boolean
+  language: CodeLanguageId | null
+  actions?: React.ReactNode
 }) => (
   <div className="space-y-2">
-    <h2 className="text-[13px] font-medium text-white tracking-wide">
-      {title}
-    </h2>
+    <div className="flex items-center justify-between gap-2">
+      <h2 className="text-[13px] font-medium text-white tracking-wide">
+        {title}
+      </h2>
+      {actions}
+    </div>
     {isLoading ? (
       <div className="space-y-1.5">
         <div className="mt-4 flex">
@@ -70,7 +81,7 @@ const SolutionSection = ({
       <div className="w-full">
         <SyntaxHighlighter
           showLineNumbers
-          language="python"
+          language={language || "text"}
           style={dracula}
           customStyle={{
             maxWidth: "100%",
@@ -139,6 +150,10 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
   const [problemStatementData, setProblemStatementData] =
     useState<ProblemStatementData | null>(null)
   const [solutionData, setSolutionData] = useState<string | null>(null)
+  // Language the model says the code is in; detected from the code when missing
+  const [languageData, setLanguageData] = useState<string | null>(null)
+  const [highlightLanguage, setHighlightLanguage] = useState<CodeLanguageId | null>(null)
+  const [isRegenerating, setIsRegenerating] = useState(false)
   const [thoughtsData, setThoughtsData] = useState<string[] | null>(null)
   const [timeComplexityData, setTimeComplexityData] = useState<string | null>(
     null
@@ -147,6 +162,8 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
     null
   )
   const [customContent, setCustomContent] = useState<string | null>(null)
+  const [streamingResult, setStreamingResult] = useState<{ streamId: string; text: string } | null>(null)
+  const solutionStreamIdRef = useRef<string | null>(null)
 
   const [toastOpen, setToastOpen] = useState(false)
   const [toastMessage, setToastMessage] = useState<ToastMessage>({
@@ -160,7 +177,7 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
 
   const [isResetting, setIsResetting] = useState(false)
 
-  const { data: extraScreenshots = [], refetch } = useQuery<Array<{ path: string; preview: string }>, Error>(
+  const { data: extraScreenshots = [], refetch } = useQuery<Array<{ path: string; preview: string; file?: ImportedFile }>, Error>(
     ["extras"],
     async () => {
       try {
@@ -230,6 +247,7 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
     // Set up event listeners
     const cleanupFunctions = [
       window.electronAPI.onScreenshotTaken(() => refetch()),
+      window.electronAPI.onFilesImported(() => refetch()),
       window.electronAPI.onResetView(() => {
         // Set resetting state first
         setIsResetting(true)
@@ -249,11 +267,14 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
       window.electronAPI.onSolutionStart(async () => {
         // Reset UI state for a new solution
         setSolutionData(null)
+        setLanguageData(null)
+        setHighlightLanguage(null)
         setThoughtsData(null)
         setTimeComplexityData(null)
         setSpaceComplexityData(null)
         setCustomContent(null)
         setAudioResult(null)
+        setStreamingResult(null)
 
         // Start audio recording from user's microphone
         try {
@@ -304,9 +325,11 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
           "There was an error processing your extra screenshots.",
           "error"
         )
+        setIsRegenerating(false)
         // Reset solutions in the cache (even though this shouldn't ever happen) and complexities to previous states
         const solution = queryClient.getQueryData(["solution"]) as {
           code: string
+          language?: string
           thoughts: string[]
           time_complexity: string
           space_complexity: string
@@ -315,6 +338,7 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
           setView("queue") //make sure that this is correct. or like make sure there's a toast or something
         }
         setSolutionData(solution?.code || null)
+        setLanguageData(solution?.language || null)
         setThoughtsData(solution?.thoughts || null)
         setTimeComplexityData(solution?.time_complexity || null)
         setSpaceComplexityData(solution?.space_complexity || null)
@@ -331,6 +355,7 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
 
         const solutionData = {
           code: data.solution.code,
+          language: data.solution.language,
           thoughts: data.solution.thoughts,
           time_complexity: data.solution.time_complexity,
           space_complexity: data.solution.space_complexity
@@ -338,6 +363,9 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
 
         queryClient.setQueryData(["solution"], solutionData)
         setSolutionData(solutionData.code || null)
+        setLanguageData(solutionData.language || null)
+        setHighlightLanguage(null)
+        setIsRegenerating(false)
         setThoughtsData(solutionData.thoughts || null)
         setTimeComplexityData(solutionData.time_complexity || null)
         setSpaceComplexityData(solutionData.space_complexity || null)
@@ -372,6 +400,26 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
           "There are no extra screenshots to process.",
           "neutral"
         )
+      }),
+      //########################################################
+      //STREAMED SOLUTION TEXT
+      //########################################################
+      window.electronAPI.onLlmStreamChunk(({ streamId, source, chunk }) => {
+        if (source !== "solution") return
+        if (solutionStreamIdRef.current !== streamId) {
+          // A new stream replaces whatever the previous run left on screen
+          solutionStreamIdRef.current = streamId
+          setProblemStatementData(null)
+          setStreamingResult({ streamId, text: chunk })
+          return
+        }
+        setStreamingResult((current) =>
+          current ? { streamId, text: current.text + chunk } : { streamId, text: chunk }
+        )
+      }),
+      window.electronAPI.onLlmStreamDone(({ streamId, source, cancelled }) => {
+        if (source !== "solution" || !cancelled) return
+        setStreamingResult((current) => (current?.streamId === streamId ? null : current))
       })
     ]
 
@@ -385,7 +433,18 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
     setProblemStatementData(
       queryClient.getQueryData(["problem_statement"]) || null
     )
-    setSolutionData(queryClient.getQueryData(["solution"]) || null)
+    const cachedSolution = queryClient.getQueryData(["solution"]) as {
+      code: string
+      language?: string
+      thoughts: string[]
+      time_complexity: string
+      space_complexity: string
+    } | null
+    setSolutionData(cachedSolution?.code ?? null)
+    setLanguageData(cachedSolution?.language ?? null)
+    setThoughtsData(cachedSolution?.thoughts ?? null)
+    setTimeComplexityData(cachedSolution?.time_complexity ?? null)
+    setSpaceComplexityData(cachedSolution?.space_complexity ?? null)
 
     const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
       if (event?.query.queryKey[0] === "problem_statement") {
@@ -424,12 +483,14 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
       if (event?.query.queryKey[0] === "solution") {
         const solution = queryClient.getQueryData(["solution"]) as {
           code: string
+          language?: string
           thoughts: string[]
           time_complexity: string
           space_complexity: string
         } | null
 
         setSolutionData(solution?.code ?? null)
+        setLanguageData(solution?.language ?? null)
         setThoughtsData(solution?.thoughts ?? null)
         setTimeComplexityData(solution?.time_complexity ?? null)
         setSpaceComplexityData(solution?.space_complexity ?? null)
@@ -438,6 +499,17 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
     return () => unsubscribe()
   }, [queryClient])
 
+  const codeLanguage = normalizeLanguage(languageData) || detectLanguage(solutionData)
+
+  const handleRegenerate = async (language: CodeLanguageId) => {
+    setIsRegenerating(true)
+    const result = await window.electronAPI.regenerateSolution(getLanguageLabel(language))
+    if (!result.success) {
+      setIsRegenerating(false)
+      showToast("Rewrite Failed", result.error || "Could not rewrite the solution.", "error")
+    }
+  }
+
   const handleTooltipVisibilityChange = (visible: boolean, height: number) => {
     setIsTooltipVisible(visible)
     setTooltipHeight(height)
@@ -490,10 +562,25 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
             <div className="rounded-lg overflow-hidden">
               <div className="px-4 py-3 space-y-4 max-w-full">
                 {/* Show Screenshot or Audio Result as main output if validation_type is manual */}
-                {problemStatementData?.validation_type === "manual" ? (
+                {!problemStatementData && streamingResult ? (
+                  <>
+                    <ContentSection
+                      title="Screenshot Result"
+                      content={<Markdown content={streamingResult.text} />}
+                      isLoading={false}
+                    />
+                    <button
+                      className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-2 py-1 text-[11px] leading-none text-white/70"
+                      onClick={() => window.electronAPI.cancelLlmStream(streamingResult.streamId)}
+                      type="button"
+                    >
+                      ⏹ Stop generating
+                    </button>
+                  </>
+                ) : problemStatementData?.validation_type === "manual" ? (
                   <ContentSection
                     title={problemStatementData?.output_format?.subtype === "voice" ? "Audio Result" : "Screenshot Result"}
-                    content={problemStatementData.problem_statement}
+                    content={<Markdown content={problemStatementData.problem_statement} />}
                     isLoading={false}
                   />
                 ) : (
@@ -501,7 +588,7 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
                     {/* Problem Statement Section - Only for non-manual */}
                     <ContentSection
                       title={problemStatementData?.output_format?.subtype === "voice" ? "Voice Input" : "Problem Statement"}
-                      content={problemStatementData?.problem_statement}
+                      content={problemStatementData && <Markdown content={problemStatementData.problem_statement} />}
                       isLoading={!problemStatementData}
                     />
                     {/* Show loading state when waiting for solution */}
@@ -541,9 +628,22 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
                         <SolutionSection
                           title={problemStatementData?.output_format?.subtype === "voice" ? "Response" : "Solution"}
                           content={solutionData}
-                          isLoading={!solutionData}
+                          isLoading={!solutionData || isRegenerating}
+                          language={highlightLanguage || codeLanguage}
+                          actions={
+                            problemStatementData?.output_format?.subtype !== "voice" && (
+                              <CodeLanguagePicker
+                                language={highlightLanguage || codeLanguage}
+                                codeLanguage={codeLanguage}
+                                onLanguageChange={setHighlightLanguage}
+                                onRegenerate={handleRegenerate}
+                                isRegenerating={isRegenerating}
+                              />
+                            )
+                          }
                         />
-                        {problemStatementData?.output_format?.subtype !== "voice" && (
+                        {/* Only profiles that ask for complexity get it back */}
+                        {problemStatementData?.output_format?.subtype !== "voice" && (timeComplexityData || spaceComplexityData) && (
                           <ComplexitySection
                             timeComplexity={timeComplexityData}
                             spaceComplexity={spaceComplexityData}
@@ -1,19 +1,26 @@
 import React, { useState, useEffect, useRef } from "react"
 import { IoLogOutOutline } from "react-icons/io5"
 import { Dialog, DialogContent, DialogClose } from "../ui/dialog"
+import { AssistantProfile } from "../../types/profiles"
+import { AppSettings } from "../../types/settings"
+import { withShortcut } from "../../lib/shortcuts"
 
 interface QueueCommandsProps {
   onTooltipVisibilityChange: (visible: boolean, height: number) => void
   screenshots: Array<{ path: string; preview: string }>
   onChatToggle: () => void
   onSettingsToggle: () => void
+  onPromptsToggle: () => void
+  onHistoryToggle: () => void
 }
 
 const QueueCommands: React.FC<QueueCommandsProps> = ({
   onTooltipVisibilityChange,
   screenshots,
   onChatToggle,
-  onSettingsToggle
+  onSettingsToggle,
+  onPromptsToggle,
+  onHistoryToggle
 }) => {
   const [isTooltipVisible, setIsTooltipVisible] = useState(false)
   const tooltipRef = useRef<HTMLDivElement>(null)
@@ -21,6 +28,10 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
   const [mediaRecorder, setMediaRecorder] = useState<MediaRecorder | null>(null)
   const [audioResult, setAudioResult] = useState<string | null>(null)
   const chunks = useRef<Blob[]>([])
+  const [profiles, setProfiles] = useState<AssistantProfile[]>([])
+  const [activeProfileId, setActiveProfileId] = useState("")
+  const [isLiveCaptionsOn, setIsLiveCaptionsOn] = useState(false)
+  const [liveCaptionsShortcut, setLiveCaptionsShortcut] = useState<string>()
   // Remove all chat-related state, handlers, and the Dialog overlay from this file.
 
   useEffect(() => {
@@ -31,6 +42,42 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
     onTooltipVisibilityChange(isTooltipVisible, tooltipHeight)
   }, [isTooltipVisible])
 
+  // The profile can also change from the tray or the shortcut
+  useEffect(() => {
+    const loadProfiles = () => {
+      window.electronAPI.getProfiles()
+        .then(({ profiles, activeProfileId }) => {
+          setProfiles(profiles)
+          setActiveProfileId(activeProfileId)
+        })
+        .catch((error) => console.error("Error loading profiles:", error))
+    }
+    loadProfiles()
+    return window.electronAPI.onSettingsChanged(loadProfiles)
+  }, [])
+
+  useEffect(() => {
+    const applySettings = (settings: AppSettings) => setLiveCaptionsShortcut(settings.shortcuts.toggleLiveCaptions)
+    window.electronAPI.getSettings()
+      .then(applySettings)
+      .catch((error) => console.error("Error loading settings:", error))
+    return window.electronAPI.onSettingsChanged(applySettings)
+  }, [])
+
+  useEffect(() => {
+    window.electronAPI.getLiveTranscript()
+      .then((state) => setIsLiveCaptionsOn(state.active))
+      .catch((error) => console.error("Error loading live captions:", error))
+    return window.electronAPI.onLiveTranscriptUpdated((state) => setIsLiveCaptionsOn(state.active))
+  }, [])
+
+  const handleProfileChange = async (id: string) => {
+    const result = await window.electronAPI.setActiveProfile(id)
+    if (!result.success) {
+      console.error("Error switching profile:", result.error)
+    }
+  }
+
   const handleMouseEnter = () => {
     setIsTooltipVisible(true)
   }
@@ -75,6 +122,15 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
     }
   }
 
+  // Files that cannot be added are reported by App, which hears about every import
+  const handleAddFilesClick = async () => {
+    try {
+      await window.electronAPI.importFilesWithDialog()
+    } catch (error) {
+      console.error("Error adding files:", error)
+    }
+  }
+
   // Remove handleChatSend function
 
   return (
@@ -93,6 +149,22 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
           </div>
         </div>
 
+        {/* Assistant Profile */}
+        {profiles.length > 0 && (
+          <select
+            value={activeProfileId}
+            onChange={(e) => handleProfileChange(e.target.value)}
+            title={profiles.find((profile) => profile.id === activeProfileId)?.description}
+            className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-1.5 py-1 text-[11px] leading-none text-white/70 outline-none"
+          >
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id} className="text-black">
+                {profile.name}
+              </option>
+            ))}
+          </select>
+        )}
+
         {/* Screenshot */}
         {/* Removed screenshot button from main bar for seamless screenshot-to-LLM UX */}
 
@@ -111,6 +183,18 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
           </div>
         )}
 
+        {/* Add Files Button */}
+        <div className="flex items-center gap-2">
+          <button
+            className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-2 py-1 text-[11px] leading-none text-white/70 flex items-center gap-1"
+            onClick={handleAddFilesClick}
+            title="Add images, PDFs, audio or text files to the queue (or drop them on the window)"
+            type="button"
+          >
+            <span>📎 Add Files</span>
+          </button>
+        </div>
+
         {/* Voice Recording Button */}
         <div className="flex items-center gap-2">
           <button
@@ -126,6 +210,22 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
           </button>
         </div>
 
+        {/* Live Captions Button */}
+        <div className="flex items-center gap-2">
+          <button
+            className={`bg-white/10 hover:bg-white/20 transition-colors rounded-md px-2 py-1 text-[11px] leading-none text-white/70 flex items-center gap-1 ${isLiveCaptionsOn ? 'bg-red-500/70 hover:bg-red-500/90' : ''}`}
+            onClick={() => window.electronAPI.setLiveCaptions(!isLiveCaptionsOn)}
+            title={withShortcut("Transcribe continuously and use what was said as context", liveCaptionsShortcut)}
+            type="button"
+          >
+            {isLiveCaptionsOn ? (
+              <span className="animate-pulse">● Live</span>
+            ) : (
+              <span>🎙 Live</span>
+            )}
+          </button>
+        </div>
+
         {/* Chat Button */}
         <div className="flex items-center gap-2">
           <button
@@ -148,6 +248,28 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
           </button>
         </div>
 
+        {/* Prompt Templates Button */}
+        <div className="flex items-center gap-2">
+          <button
+            className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-2 py-1 text-[11px] leading-none text-white/70 flex items-center gap-1"
+            onClick={onPromptsToggle}
+            type="button"
+          >
+            📝 Prompts
+          </button>
+        </div>
+
+        {/* Session History Button */}
+        <div className="flex items-center gap-2">
+          <button
+            className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-2 py-1 text-[11px] leading-none text-white/70 flex items-center gap-1"
+            onClick={onHistoryToggle}
+            type="button"
+          >
+            🕘 History
+          </button>
+        </div>
+
         {/* Add this button in the main button row, before the separator and sign out */}
         {/* Remove the Chat button */}
 
@@ -225,6 +347,69 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
                         Generate a solution based on the current problem.
                       </p>
                     </div>
+
+                    {/* Cycle Profile Command */}
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="truncate">Next Mode</span>
+                        <div className="flex gap-1 flex-shrink-0">
+                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                            ⌘
+                          </span>
+                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                            ⇧
+                          </span>
+                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                            M
+                          </span>
+                        </div>
+                      </div>
+                      <p className="text-[10px] leading-relaxed text-white/70 truncate">
+                        Switch to the next assistant profile.
+                      </p>
+                    </div>
+
+                    {/* Live Captions Command */}
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="truncate">Live Captions</span>
+                        <div className="flex gap-1 flex-shrink-0">
+                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                            ⌘
+                          </span>
+                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                            ⇧
+                          </span>
+                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                            L
+                          </span>
+                        </div>
+                      </div>
+                      <p className="text-[10px] leading-relaxed text-white/70 truncate">
+                        Start or stop the continuous transcript.
+                      </p>
+                    </div>
+
+                    {/* Push-to-talk Command */}
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="truncate">Push-to-talk</span>
+                        <div className="flex gap-1 flex-shrink-0">
+                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                            ⌘
+                          </span>
+                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                            ⇧
+                          </span>
+                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                            K
+                          </span>
+                        </div>
+                      </div>
+                      <p className="text-[10px] leading-relaxed text-white/70 truncate">
+                        Press to speak, press again to get an answer.
+                      </p>
+                    </div>
                   </div>
                 </div>
               </div>
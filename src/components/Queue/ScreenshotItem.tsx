@@ -1,15 +1,37 @@
 // src/components/ScreenshotItem.tsx
-import React from "react"
-import { X } from "lucide-react"
+import React, { useState } from "react"
+import { Check, File as FileIcon, FileAudio, FileText, ScanText, X } from "lucide-react"
+import { ImportedFile, ScreenshotCapture } from "../../types/screenshots"
 
 interface Screenshot {
   path: string
+  // A data URL, or for text files the start of the text; empty when there is nothing to show
   preview: string
+  included?: boolean
+  capture?: ScreenshotCapture
+  // Set for files added by drag-and-drop or the file-open dialog
+  file?: ImportedFile
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const FILE_ICONS = { image: FileIcon, pdf: FileIcon, audio: FileAudio, text: FileText }
+
+// Shown on hover so the user can tell a region or window capture from a full one
+const describeCapture = (capture?: ScreenshotCapture) => {
+  if (capture?.region) return `Region ${Math.round(capture.region.width)}×${Math.round(capture.region.height)}`
+  if (capture?.mode === "window") return `Window: ${capture.windowTitle || "untitled"}`
+  return "Full screen"
 }
 
 interface ScreenshotItemProps {
   screenshot: Screenshot
   onDelete: (index: number) => void
+  // Omitted where screenshots cannot be excluded (e.g. the debug queue)
+  onToggleIncluded?: (index: number, included: boolean) => void
   index: number
   isLoading: boolean
 }
@@ -17,17 +39,57 @@ interface ScreenshotItemProps {
 const ScreenshotItem: React.FC<ScreenshotItemProps> = ({
   screenshot,
   onDelete,
+  onToggleIncluded,
   index,
   isLoading
 }) => {
+  const included = screenshot.included !== false
+  const { file } = screenshot
+  const isImage = !file || file.kind === "image"
+  const KindIcon = file ? FILE_ICONS[file.kind] : FileIcon
+  // OCR text, shown and edited in place; null until it is opened
+  const [text, setText] = useState<string | null>(null)
+  const [savedText, setSavedText] = useState("")
+  const [isTextOpen, setIsTextOpen] = useState(false)
+  const [textStatus, setTextStatus] = useState<{ text: string; isError: boolean } | null>(null)
+
   const handleDelete = async () => {
     await onDelete(index)
   }
 
+  const handleToggleText = async () => {
+    if (isTextOpen) {
+      setIsTextOpen(false)
+      return
+    }
+    setIsTextOpen(true)
+    if (text !== null) return
+    setTextStatus({ text: "Reading text...", isError: false })
+    const result = await window.electronAPI.getScreenshotText(screenshot.path)
+    if (result.success) {
+      setText(result.text)
+      setSavedText(result.text)
+      setTextStatus(null)
+    } else {
+      setTextStatus({ text: result.error, isError: true })
+    }
+  }
+
+  const handleSaveText = async () => {
+    if (text === null) return
+    const result = await window.electronAPI.setScreenshotText(screenshot.path, text)
+    if (result.success) {
+      setSavedText(text)
+      setTextStatus({ text: "Saved", isError: false })
+    } else {
+      setTextStatus({ text: result.error || "Could not save the text", isError: true })
+    }
+  }
+
   return (
-    <>
+    <div className={isTextOpen ? "col-span-5 flex gap-3" : ""}>
       <div
-        className={`border border-white relative ${isLoading ? "" : "group"}`}
+        className={`border border-white relative ${isLoading ? "" : "group"} ${isTextOpen ? "w-1/5 shrink-0 self-start" : ""}`}
       >
         <div className="w-full h-full relative">
           {isLoading && (
@@ -35,15 +97,37 @@ const ScreenshotItem: React.FC<ScreenshotItemProps> = ({
               <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin" />
             </div>
           )}
-          <img
-            src={screenshot.preview}
-            alt="Screenshot"
-            className={`w-full h-full object-cover transition-transform duration-300 ${
-              isLoading
-                ? "opacity-50"
-                : "cursor-pointer group-hover:scale-105 group-hover:brightness-75"
-            }`}
-          />
+          {isImage || (file?.kind === "pdf" && screenshot.preview) ? (
+            <img
+              src={screenshot.preview}
+              alt={file ? file.name : "Screenshot"}
+              title={file ? `${file.name} · ${formatFileSize(file.size)}` : describeCapture(screenshot.capture)}
+              className={`w-full h-full object-cover transition-transform duration-300 ${
+                isLoading
+                  ? "opacity-50"
+                  : "cursor-pointer group-hover:scale-105 group-hover:brightness-75"
+              } ${included ? "" : "opacity-40 grayscale"}`}
+            />
+          ) : (
+            <div
+              title={`${file?.name} · ${formatFileSize(file?.size ?? 0)}`}
+              className={`w-full aspect-video flex flex-col gap-1 p-2 bg-black/60 text-white/80 overflow-hidden transition-opacity duration-300 ${
+                isLoading ? "opacity-50" : "group-hover:brightness-75"
+              } ${included ? "" : "opacity-40"}`}
+            >
+              <div className="flex items-center gap-1 text-[10px] min-w-0">
+                <KindIcon size={14} className="shrink-0" />
+                <span className="truncate">{file?.name}</span>
+              </div>
+              {file?.kind === "text" ? (
+                <pre className="flex-1 overflow-hidden whitespace-pre-wrap break-words font-mono text-[8px] leading-tight text-white/60">
+                  {screenshot.preview}
+                </pre>
+              ) : (
+                <span className="text-[10px] text-white/50">{formatFileSize(file?.size ?? 0)}</span>
+              )}
+            </div>
+          )}
         </div>
         {!isLoading && (
           <button
@@ -57,8 +141,72 @@ const ScreenshotItem: React.FC<ScreenshotItemProps> = ({
             <X size={16} />
           </button>
         )}
+        {!isLoading && onToggleIncluded && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              onToggleIncluded(index, !included)
+            }}
+            className={`absolute top-2 right-2 p-1 rounded-full border border-white text-white transition-opacity duration-300 ${
+              included
+                ? "bg-green-600 bg-opacity-80 opacity-0 group-hover:opacity-100"
+                : "bg-black bg-opacity-50 opacity-100"
+            }`}
+            aria-label={included ? "Exclude screenshot" : "Include screenshot"}
+            title={included ? "Included in the next solve" : "Excluded from the next solve"}
+          >
+            <Check size={16} className={included ? "" : "opacity-0"} />
+          </button>
+        )}
+        {!isLoading && isImage && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              handleToggleText()
+            }}
+            className={`absolute bottom-2 left-2 p-1 rounded-full bg-black bg-opacity-50 text-white transition-opacity duration-300 ${
+              isTextOpen ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+            }`}
+            aria-label={isTextOpen ? "Hide screenshot text" : "Show screenshot text"}
+            title="Text read from this screenshot (OCR)"
+          >
+            <ScanText size={16} />
+          </button>
+        )}
       </div>
-    </>
+      {isTextOpen && (
+        <div className="flex-1 flex flex-col gap-1.5 text-[11px] text-white/90">
+          <textarea
+            value={text ?? ""}
+            onChange={(e) => setText(e.target.value)}
+            disabled={text === null}
+            rows={6}
+            placeholder={text === null ? "" : "No text found in this screenshot"}
+            className="w-full bg-black/60 border border-white/20 rounded-md p-2 font-mono text-[11px] text-white/90 resize-y outline-none focus:border-white/40"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSaveText}
+              disabled={text === null || text === savedText}
+              className="bg-white/10 hover:bg-white/20 disabled:opacity-50 transition-colors rounded-md px-2 py-1 leading-none text-white/70"
+              type="button"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setIsTextOpen(false)}
+              className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-2 py-1 leading-none text-white/70"
+              type="button"
+            >
+              Close
+            </button>
+            {textStatus && (
+              <span className={textStatus.isError ? "text-red-400" : "text-white/60"}>{textStatus.text}</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
   )
 }
 
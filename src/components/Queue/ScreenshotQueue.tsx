@@ -1,20 +1,26 @@
 import React from "react"
 import ScreenshotItem from "./ScreenshotItem"
+import { ImportedFile, ScreenshotCapture } from "../../types/screenshots"
 
 interface Screenshot {
   path: string
   preview: string
+  included?: boolean
+  capture?: ScreenshotCapture
+  file?: ImportedFile
 }
 
 interface ScreenshotQueueProps {
   isLoading: boolean
   screenshots: Screenshot[]
   onDeleteScreenshot: (index: number) => void
+  onToggleScreenshot?: (index: number, included: boolean) => void
 }
 const ScreenshotQueue: React.FC<ScreenshotQueueProps> = ({
   isLoading,
   screenshots,
-  onDeleteScreenshot
+  onDeleteScreenshot,
+  onToggleScreenshot
 }) => {
   if (screenshots.length === 0) {
     return <></>
@@ -31,6 +37,7 @@ const ScreenshotQueue: React.FC<ScreenshotQueueProps> = ({
           screenshot={screenshot}
           index={index}
           onDelete={onDeleteScreenshot}
+          onToggleIncluded={onToggleScreenshot}
         />
       ))}
     </div>
@@ -0,0 +1,50 @@
+import React from "react"
+import { CODE_LANGUAGES, CodeLanguageId, getLanguageLabel } from "../../lib/codeLanguages"
+
+interface CodeLanguagePickerProps {
+  // Language the code is highlighted as
+  language: CodeLanguageId | null
+  // Language the code is actually written in, if known
+  codeLanguage: CodeLanguageId | null
+  onLanguageChange: (language: CodeLanguageId) => void
+  // Asks for the solution again in the picked language
+  onRegenerate?: (language: CodeLanguageId) => void
+  isRegenerating?: boolean
+}
+
+const CodeLanguagePicker: React.FC<CodeLanguagePickerProps> = ({
+  language,
+  codeLanguage,
+  onLanguageChange,
+  onRegenerate,
+  isRegenerating = false
+}) => (
+  <div className="flex items-center gap-2">
+    <select
+      value={language || ""}
+      onChange={(e) => onLanguageChange(e.target.value as CodeLanguageId)}
+      disabled={isRegenerating}
+      title="Highlight the code as"
+      className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-1.5 py-1 text-[11px] leading-none text-white/70 outline-none"
+    >
+      {!language && <option value="">Plain text</option>}
+      {CODE_LANGUAGES.map(({ id, label }) => (
+        <option key={id} value={id} className="text-black">
+          {label}{id === codeLanguage ? " (current)" : ""}
+        </option>
+      ))}
+    </select>
+    {onRegenerate && language && language !== codeLanguage && (
+      <button
+        className="bg-white/10 hover:bg-white/20 disabled:opacity-50 transition-colors rounded-md px-2 py-1 text-[11px] leading-none text-white/70"
+        onClick={() => onRegenerate(language)}
+        disabled={isRegenerating}
+        type="button"
+      >
+        {isRegenerating ? "Rewriting..." : `↻ Rewrite in ${getLanguageLabel(language)}`}
+      </button>
+    )}
+  </div>
+)
+
+export default CodeLanguagePicker
@@ -1,5 +1,8 @@
 import React, { useState, useEffect, useRef } from "react"
 import { IoLogOutOutline } from "react-icons/io5"
+import { ExportFormat } from "../../types/history"
+import { AppSettings } from "../../types/settings"
+import { withShortcut } from "../../lib/shortcuts"
 
 interface SolutionCommandsProps {
   extraScreenshots: any[]
@@ -12,6 +15,9 @@ const SolutionCommands: React.FC<SolutionCommandsProps> = ({
 }) => {
   const [isTooltipVisible, setIsTooltipVisible] = useState(false)
   const tooltipRef = useRef<HTMLDivElement>(null)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("markdown")
+  const [exportStatus, setExportStatus] = useState<{ text: string; isError: boolean } | null>(null)
+  const [exportShortcut, setExportShortcut] = useState<string>()
 
   useEffect(() => {
     if (onTooltipVisibilityChange) {
@@ -23,6 +29,14 @@ const SolutionCommands: React.FC<SolutionCommandsProps> = ({
     }
   }, [isTooltipVisible, onTooltipVisibilityChange])
 
+  useEffect(() => {
+    const applySettings = (settings: AppSettings) => setExportShortcut(settings.shortcuts.exportSession)
+    window.electronAPI.getSettings()
+      .then(applySettings)
+      .catch((error) => console.error("Error loading settings:", error))
+    return window.electronAPI.onSettingsChanged(applySettings)
+  }, [])
+
   const handleMouseEnter = () => {
     setIsTooltipVisible(true)
   }
@@ -31,6 +45,18 @@ const SolutionCommands: React.FC<SolutionCommandsProps> = ({
     setIsTooltipVisible(false)
   }
 
+  const handleExport = async () => {
+    const result = await window.electronAPI.exportSession(undefined, exportFormat)
+    if (!result.success) {
+      setExportStatus({ text: result.error, isError: true })
+    } else if (result.filePath) {
+      setExportStatus({ text: "Saved", isError: false })
+    } else {
+      return
+    }
+    setTimeout(() => setExportStatus(null), 3000)
+  }
+
   return (
     <div>
       <div className="pt-2 w-fit">
@@ -78,6 +104,28 @@ const SolutionCommands: React.FC<SolutionCommandsProps> = ({
             </div>
           )}
 
+          {/* Export */}
+          <div className="flex items-center gap-2 whitespace-nowrap">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              title="Export format"
+              className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-1.5 py-1 text-[11px] leading-none text-white/70 outline-none"
+            >
+              <option value="markdown" className="text-black">Markdown</option>
+              <option value="html" className="text-black">HTML</option>
+              <option value="json" className="text-black">JSON</option>
+            </select>
+            <button
+              className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-2 py-1 text-[11px] leading-none text-white/70"
+              onClick={handleExport}
+              title={exportStatus?.isError ? exportStatus.text : withShortcut("Export this session", exportShortcut)}
+              type="button"
+            >
+              {exportStatus ? (exportStatus.isError ? "⚠️ Export failed" : "✓ Saved") : "⬇ Export"}
+            </button>
+          </div>
+
           {/* Start Over */}
           <div className="flex items-center gap-2 whitespace-nowrap">
             <span className="text-[11px] leading-none">Start over</span>
@@ -191,6 +239,26 @@ const SolutionCommands: React.FC<SolutionCommandsProps> = ({
                           Start fresh with a new question.
                         </p>
                       </div>
+                      {/* Export Command */}
+                      <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="whitespace-nowrap">Export Session</span>
+                          <div className="flex gap-1">
+                            <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                              ⌘
+                            </span>
+                            <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                              ⇧
+                            </span>
+                            <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                              E
+                            </span>
+                          </div>
+                        </div>
+                        <p className="text-[10px] leading-relaxed text-white/70 whitespace-nowrap truncate">
+                          Save this session as Markdown, HTML or JSON.
+                        </p>
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,254 @@
+// src/components/ui/LiveCaptions.tsx
+import React, { useEffect, useRef, useState } from "react"
+import { LiveTranscriptState, Speaker, VoiceTriggerState } from "../../types/audio"
+import { AppSettings } from "../../types/settings"
+import { ChunkRecorder, getSystemAudioStream, recordInChunks } from "../../lib/audioCapture"
+import { withShortcut } from "../../lib/shortcuts"
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" })
+
+const SPEAKER_LABELS: Record<Speaker, string> = { me: "Me", them: "Them" }
+
+const toBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onloadend = () => resolve((reader.result as string).split(",")[1] || "")
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+
+/**
+ * Records the microphone in short chunks while live captions are on and shows
+ * the rolling transcript kept by the main process. Mounted above the views so
+ * capture keeps running when the view changes. With system audio on, what the
+ * computer plays is recorded alongside and labelled "them", the microphone
+ * "me". With auto-answer on, voice activity detection ends a chunk at each
+ * pause after speech and skips silent ones, so the main process can answer
+ * each utterance.
+ */
+const LiveCaptions: React.FC = () => {
+  const [state, setState] = useState<LiveTranscriptState | null>(null)
+  const [chunkSeconds, setChunkSeconds] = useState(5)
+  const [systemAudio, setSystemAudio] = useState(false)
+  const [voiceTrigger, setVoiceTrigger] = useState<AppSettings["voiceTrigger"] | null>(null)
+  const [pushToTalk, setPushToTalk] = useState(false)
+  const [pushToTalkShortcut, setPushToTalkShortcut] = useState<string>()
+  const [isOpen, setIsOpen] = useState(false)
+  const [micError, setMicError] = useState<string | null>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+  // The microphone's recorder, set while recording
+  const micRecorderRef = useRef<ChunkRecorder | null>(null)
+  const active = state?.active ?? false
+  const detectSpeech = voiceTrigger?.enabled ?? false
+
+  useEffect(() => {
+    const applySettings = (settings: AppSettings) => {
+      setChunkSeconds(settings.transcription.chunkSeconds)
+      setSystemAudio(settings.transcription.systemAudio)
+      setVoiceTrigger(settings.voiceTrigger)
+      setPushToTalkShortcut(settings.shortcuts.pushToTalk)
+    }
+    const applyVoiceTrigger = (voiceState: VoiceTriggerState) => setPushToTalk(voiceState.pushToTalk)
+    window.electronAPI.getLiveTranscript()
+      .then(setState)
+      .catch((error) => console.error("Error loading the live transcript:", error))
+    window.electronAPI.getSettings()
+      .then(applySettings)
+      .catch((error) => console.error("Error loading settings:", error))
+    window.electronAPI.getVoiceTrigger()
+      .then(applyVoiceTrigger)
+      .catch((error) => console.error("Error loading push-to-talk:", error))
+    const cleanupFunctions = [
+      window.electronAPI.onLiveTranscriptUpdated(setState),
+      window.electronAPI.onSettingsChanged(applySettings),
+      window.electronAPI.onVoiceTriggerUpdated(applyVoiceTrigger)
+    ]
+    return () => cleanupFunctions.forEach((cleanup) => cleanup())
+  }, [])
+
+  // Captions can also be started from the tray or the shortcut
+  useEffect(() => {
+    if (active) setIsOpen(true)
+  }, [active])
+
+  // Records while captions are on, starting over when the capture settings change
+  useEffect(() => {
+    if (!active) return
+    let stopped = false
+    const streams: MediaStream[] = []
+    const recorders: ChunkRecorder[] = []
+
+    const sendChunk = async (blob: Blob, startedAt: number, endedAt: number, endsUtterance: boolean, speaker?: Speaker) => {
+      try {
+        const data = await toBase64(blob)
+        const result = await window.electronAPI.addLiveAudioChunk({ data, mimeType: blob.type, startedAt, endedAt, endsUtterance, speaker })
+        if (!result.success) console.warn("Audio chunk was not accepted:", result.error)
+      } catch (error) {
+        console.error("Error sending an audio chunk:", error)
+      }
+    }
+
+    const record = (stream: MediaStream, speaker?: Speaker) => {
+      streams.push(stream)
+      const recorder = recordInChunks(stream, {
+        chunkSeconds,
+        voiceActivity: detectSpeech && voiceTrigger
+          ? { sensitivity: voiceTrigger.sensitivity, silenceMs: voiceTrigger.silenceMs }
+          : undefined,
+        onChunk: (blob, startedAt, endedAt, endsUtterance) => sendChunk(blob, startedAt, endedAt, endsUtterance, speaker)
+      })
+      recorders.push(recorder)
+      return recorder
+    }
+
+    const start = async () => {
+      let micStream: MediaStream
+      try {
+        micStream = await navigator.mediaDevices.getUserMedia({ audio: true })
+      } catch (error) {
+        console.error("Could not start live captions:", error)
+        setMicError("Could not access the microphone")
+        window.electronAPI.setLiveCaptions(false)
+        return
+      }
+      if (stopped) {
+        micStream.getTracks().forEach((track) => track.stop())
+        return
+      }
+      setMicError(null)
+      // Without system audio the microphone hears both sides, so it is not labelled
+      micRecorderRef.current = record(micStream, systemAudio ? "me" : undefined)
+      if (!systemAudio) return
+
+      try {
+        const systemStream = await getSystemAudioStream()
+        if (stopped) {
+          systemStream.getTracks().forEach((track) => track.stop())
+          return
+        }
+        record(systemStream, "them")
+      } catch (error) {
+        console.error("Could not capture system audio:", error)
+        setMicError(`${(error as Error).message}; only the microphone is transcribed`)
+      }
+    }
+    start()
+
+    return () => {
+      stopped = true
+      micRecorderRef.current = null
+      // Stopping sends the last partial chunks
+      recorders.forEach((recorder) => recorder.stop())
+      streams.forEach((stream) => stream.getTracks().forEach((track) => track.stop()))
+    }
+  }, [active, chunkSeconds, systemAudio, detectSpeech, voiceTrigger?.sensitivity, voiceTrigger?.silenceMs])
+
+  // Releasing push-to-talk ends the utterance right away so it is answered
+  const wasPushToTalk = useRef(false)
+  useEffect(() => {
+    if (wasPushToTalk.current && !pushToTalk) micRecorderRef.current?.finish(true)
+    wasPushToTalk.current = pushToTalk
+  }, [pushToTalk])
+
+  const handleAutoAnswerChange = async (enabled: boolean) => {
+    const result = await window.electronAPI.updateSettings({ voiceTrigger: { enabled } })
+    if (!result.success) console.error("Error saving auto-answer:", result.error)
+  }
+
+  const handleSystemAudioChange = async (enabled: boolean) => {
+    const result = await window.electronAPI.updateSettings({ transcription: { systemAudio: enabled } })
+    if (!result.success) console.error("Error saving system audio:", result.error)
+  }
+
+  // Follow the newest caption
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight
+  }, [state?.segments.length])
+
+  if (!isOpen || !state) return null
+
+  const error = micError || state.error
+
+  return (
+    <div className="mt-2 w-[480px] max-w-full p-2 rounded-lg bg-black/60 border border-white/20 text-[11px] text-white/90 flex flex-col gap-1.5">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold">
+          {active ? <span className="text-red-400 animate-pulse">●</span> : <span className="text-white/40">●</span>} Live captions
+        </span>
+        {state.pendingChunks > 0 && <span className="text-white/50">transcribing...</span>}
+        {pushToTalk && <span className="text-amber-300">talking, press again to send</span>}
+        <div className="ml-auto flex gap-1 items-center">
+          <label className="flex items-center gap-1 mr-1 text-white/70" title="Also transcribe what the computer plays, such as the other side of a call, and tell the two sides apart">
+            <input
+              type="checkbox"
+              checked={systemAudio}
+              onChange={(e) => handleSystemAudioChange(e.target.checked)}
+            />
+            System audio
+          </label>
+          <label className="flex items-center gap-1 mr-1 text-white/70" title="Answer questions automatically when the speaker pauses">
+            <input
+              type="checkbox"
+              checked={detectSpeech}
+              onChange={(e) => handleAutoAnswerChange(e.target.checked)}
+            />
+            Auto-answer
+          </label>
+          <button
+            onClick={() => window.electronAPI.setPushToTalk(!pushToTalk)}
+            className={`bg-white/10 hover:bg-white/20 transition-colors rounded-md px-2 py-1 leading-none text-white/70 ${pushToTalk ? "bg-amber-500/60 hover:bg-amber-500/80" : ""}`}
+            title={withShortcut("Push-to-talk: press to start, press again to have what you said answered", pushToTalkShortcut)}
+            type="button"
+          >
+            {pushToTalk ? "Send" : "Talk"}
+          </button>
+          <button
+            onClick={() => window.electronAPI.setLiveCaptions(!active)}
+            className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-2 py-1 leading-none text-white/70"
+            type="button"
+          >
+            {active ? "Stop" : "Start"}
+          </button>
+          <button
+            onClick={() => window.electronAPI.clearLiveTranscript()}
+            disabled={state.segments.length === 0}
+            className="bg-white/10 hover:bg-white/20 disabled:opacity-50 transition-colors rounded-md px-2 py-1 leading-none text-white/70"
+            type="button"
+          >
+            Clear
+          </button>
+          {!active && (
+            <button
+              onClick={() => setIsOpen(false)}
+              className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-2 py-1 leading-none text-white/70"
+              type="button"
+            >
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+      <div ref={listRef} className="max-h-32 overflow-y-auto space-y-0.5">
+        {state.segments.length === 0 ? (
+          <div className="text-white/50">{active ? "Listening..." : "Nothing transcribed yet"}</div>
+        ) : (
+          state.segments.map((segment) => (
+            <div key={segment.id} className="whitespace-pre-wrap">
+              <span className="text-white/40 mr-1.5">{formatTime(segment.startedAt)}</span>
+              {segment.speaker && (
+                <span className={`mr-1 font-semibold ${segment.speaker === "them" ? "text-sky-300" : "text-white/60"}`}>
+                  {SPEAKER_LABELS[segment.speaker]}:
+                </span>
+              )}
+              {segment.text}
+            </div>
+          ))
+        )}
+      </div>
+      {error && <div className="text-red-400">{error}</div>}
+    </div>
+  )
+}
+
+export default LiveCaptions
@@ -0,0 +1,106 @@
+import React, { useState } from "react"
+import ReactMarkdown, { Components } from "react-markdown"
+import remarkGfm from "remark-gfm"
+import remarkMath from "remark-math"
+import rehypeKatex from "rehype-katex"
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter"
+import { dracula } from "react-syntax-highlighter/dist/esm/styles/prism"
+import "katex/dist/katex.min.css"
+import { cn } from "../../lib/utils"
+import { normalizeLanguage } from "../../lib/codeLanguages"
+
+const CodeBlock = ({ language, code }: { language: string | null; code: string }) => {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch (error) {
+      console.error("Error copying code:", error)
+    }
+  }
+
+  return (
+    <div className="relative group my-2">
+      <button
+        onClick={handleCopy}
+        type="button"
+        className="absolute top-1.5 right-1.5 z-10 bg-white/10 hover:bg-white/20 transition-colors rounded-md px-1.5 py-1 text-[10px] leading-none text-white/70"
+      >
+        {copied ? "Copied" : "Copy"}
+      </button>
+      <SyntaxHighlighter
+        language={normalizeLanguage(language) || language || "text"}
+        style={dracula}
+        customStyle={{
+          maxWidth: "100%",
+          margin: 0,
+          padding: "0.75rem",
+          fontSize: "11px",
+          whiteSpace: "pre-wrap",
+          wordBreak: "break-all"
+        }}
+        wrapLongLines={true}
+      >
+        {code}
+      </SyntaxHighlighter>
+    </div>
+  )
+}
+
+const components: Components = {
+  // Fenced blocks arrive as <pre><code>; the block itself is drawn by `code`
+  pre: ({ children }) => <>{children}</>,
+  code: ({ className, children }) => {
+    const text = String(children ?? "")
+    const language = /language-([\w+#-]+)/.exec(className || "")?.[1] || null
+    if (!language && !text.includes("\n")) {
+      return <code className="px-1 py-0.5 rounded bg-black/10 font-mono text-[0.95em]">{children}</code>
+    }
+    return <CodeBlock language={language} code={text.replace(/\n$/, "")} />
+  },
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noreferrer" className="underline text-blue-500 hover:text-blue-400">
+      {children}
+    </a>
+  ),
+  p: ({ children }) => <p className="my-1.5 first:mt-0 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="my-1.5 pl-5 list-disc space-y-0.5">{children}</ul>,
+  ol: ({ children }) => <ol className="my-1.5 pl-5 list-decimal space-y-0.5">{children}</ol>,
+  h1: ({ children }) => <h1 className="mt-2 mb-1 text-[1.2em] font-semibold">{children}</h1>,
+  h2: ({ children }) => <h2 className="mt-2 mb-1 text-[1.1em] font-semibold">{children}</h2>,
+  h3: ({ children }) => <h3 className="mt-2 mb-1 font-semibold">{children}</h3>,
+  blockquote: ({ children }) => <blockquote className="my-1.5 pl-2 border-l-2 border-gray-400/50 opacity-80">{children}</blockquote>,
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="border-collapse text-[0.95em]">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="px-2 py-1 border border-gray-400/40 font-semibold text-left">{children}</th>,
+  td: ({ children }) => <td className="px-2 py-1 border border-gray-400/40 align-top">{children}</td>
+}
+
+interface MarkdownProps {
+  content: string
+  className?: string
+}
+
+/**
+ * Renders model output as GitHub-flavoured markdown with math. Raw HTML in the
+ * text is shown as text, never executed, and unsafe link protocols are dropped.
+ */
+const Markdown: React.FC<MarkdownProps> = ({ content, className }) => (
+  <div className={cn("break-words", className)}>
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[rehypeKatex]}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+)
+
+export default Markdown
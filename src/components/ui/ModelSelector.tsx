@@ -1,41 +1,87 @@
 import React, { useState, useEffect } from 'react';
+import { ApiKeyStatus, LlmConfig, LlmProviderId } from '../../types/llm';
 
-interface ModelConfig {
-  provider: "ollama" | "gemini";
-  model: string;
-  isOllama: boolean;
+interface ProviderOption {
+  id: LlmProviderId;
+  name: string;
+  label: string;
+  icon: string;
+  activeClass: string;
+  defaultUrl?: string;
+  apiKeyLabel?: string;
 }
 
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+  { id: 'gemini', name: 'Gemini', label: 'Gemini (Cloud)', icon: '☁️', activeClass: 'bg-blue-500', apiKeyLabel: 'Gemini API Key' },
+  { id: 'ollama', name: 'Ollama', label: 'Ollama (Local)', icon: '🏠', activeClass: 'bg-green-500', defaultUrl: 'http://localhost:11434' },
+  { id: 'openai-compatible', name: 'OpenAI-compatible', label: 'OpenAI-compatible', icon: '🔌', activeClass: 'bg-purple-500', defaultUrl: 'http://localhost:8000/v1', apiKeyLabel: 'API Key (only if the server requires one)' }
+];
+
+export const getProviderIcon = (provider: string) =>
+  PROVIDER_OPTIONS.find((option) => option.id === provider)?.icon || '🤖';
+
 interface ModelSelectorProps {
-  onModelChange?: (provider: "ollama" | "gemini", model: string) => void;
+  onModelChange?: (provider: LlmProviderId, model: string) => void;
   onChatOpen?: () => void;
 }
 
 const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelChange, onChatOpen }) => {
-  const [currentConfig, setCurrentConfig] = useState<ModelConfig | null>(null);
-  const [availableOllamaModels, setAvailableOllamaModels] = useState<string[]>([]);
+  const [currentConfig, setCurrentConfig] = useState<LlmConfig | null>(null);
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [connectionStatus, setConnectionStatus] = useState<'testing' | 'success' | 'error' | null>(null);
   const [errorMessage, setErrorMessage] = useState<string>('');
-  const [geminiApiKey, setGeminiApiKey] = useState('');
-  const [selectedProvider, setSelectedProvider] = useState<"ollama" | "gemini">("gemini");
-  const [selectedOllamaModel, setSelectedOllamaModel] = useState<string>("");
-  const [ollamaUrl, setOllamaUrl] = useState<string>("http://localhost:11434");
+  const [apiKey, setApiKey] = useState('');
+  const [selectedProvider, setSelectedProvider] = useState<LlmProviderId>("gemini");
+  const [selectedModel, setSelectedModel] = useState<string>("");
+  const [providerUrls, setProviderUrls] = useState<Partial<Record<LlmProviderId, string>>>(
+    Object.fromEntries(PROVIDER_OPTIONS.filter((option) => option.defaultUrl).map((option) => [option.id, option.defaultUrl]))
+  );
+  const [selectedModelSupportsVision, setSelectedModelSupportsVision] = useState<boolean | null>(null);
+  const [keyStatuses, setKeyStatuses] = useState<Partial<Record<LlmProviderId, ApiKeyStatus>>>({});
+  const [usingKeychain, setUsingKeychain] = useState(true);
+  const [keyMessage, setKeyMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const selectedOption = PROVIDER_OPTIONS.find((option) => option.id === selectedProvider) || PROVIDER_OPTIONS[0];
+  const providerUrl = providerUrls[selectedProvider];
+  const keyStatus = keyStatuses[selectedProvider];
 
   useEffect(() => {
     loadCurrentConfig();
+    loadKeyStatuses();
   }, []);
 
+  useEffect(() => {
+    if (selectedProvider === 'gemini' || !selectedModel) {
+      setSelectedModelSupportsVision(null);
+      return;
+    }
+    let cancelled = false;
+    window.electronAPI.getModelVisionSupport(selectedProvider, selectedModel, providerUrl)
+      .then((supported) => {
+        if (!cancelled) setSelectedModelSupportsVision(supported);
+      })
+      .catch(() => {
+        if (!cancelled) setSelectedModelSupportsVision(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProvider, selectedModel, providerUrl]);
+
   const loadCurrentConfig = async () => {
     try {
       setIsLoading(true);
       const config = await window.electronAPI.getCurrentLlmConfig();
       setCurrentConfig(config);
       setSelectedProvider(config.provider);
-      
-      if (config.isOllama) {
-        setSelectedOllamaModel(config.model);
-        await loadOllamaModels();
+      setSelectedModel(config.model);
+      if (config.url) {
+        setProviderUrls((urls) => ({ ...urls, [config.provider]: config.url }));
+      }
+
+      if (config.provider !== 'gemini') {
+        await loadModels(config.provider, config.url, config.model);
       }
     } catch (error) {
       console.error('Error loading current config:', error);
@@ -44,18 +90,68 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelChange, onChatOpen
     }
   };
 
-  const loadOllamaModels = async () => {
+  const loadKeyStatuses = async () => {
     try {
-      const models = await window.electronAPI.getAvailableOllamaModels();
-      setAvailableOllamaModels(models);
-      
-      // Auto-select first model if none selected
-      if (models.length > 0 && !selectedOllamaModel) {
-        setSelectedOllamaModel(models[0]);
+      const { keys, usingKeychain } = await window.electronAPI.getApiKeyStatus();
+      setKeyStatuses(Object.fromEntries(keys.map((status) => [status.provider, status])));
+      setUsingKeychain(usingKeychain);
+    } catch (error) {
+      console.error('Error loading API key status:', error);
+    }
+  };
+
+  const handleSaveKey = async () => {
+    const result = await window.electronAPI.setApiKey(selectedProvider, apiKey);
+    if (result.success) {
+      setApiKey('');
+      setKeyMessage({ text: 'API key saved', isError: false });
+      await loadKeyStatuses();
+    } else {
+      setKeyMessage({ text: result.error || 'Could not save the API key', isError: true });
+    }
+  };
+
+  const handleTestKey = async () => {
+    setKeyMessage({ text: 'Testing API key...', isError: false });
+    const result = await window.electronAPI.testApiKey(selectedProvider, apiKey || undefined);
+    setKeyMessage(result.success
+      ? { text: 'API key works', isError: false }
+      : { text: result.error || 'API key test failed', isError: true });
+  };
+
+  const handleDeleteKey = async () => {
+    const result = await window.electronAPI.deleteApiKey(selectedProvider);
+    if (result.success) {
+      setKeyMessage({ text: 'Saved API key deleted', isError: false });
+      await loadKeyStatuses();
+    } else {
+      setKeyMessage({ text: result.error || 'Could not delete the API key', isError: true });
+    }
+  };
+
+  const loadModels = async (provider: LlmProviderId = selectedProvider, url: string | undefined = providerUrl, preferredModel: string = selectedModel) => {
+    try {
+      const models = await window.electronAPI.getAvailableModels(provider, url);
+      setAvailableModels(models);
+
+      // Auto-select first model if the current one isn't offered
+      if (models.length > 0 && !models.includes(preferredModel)) {
+        setSelectedModel(models[0]);
       }
     } catch (error) {
-      console.error('Error loading Ollama models:', error);
-      setAvailableOllamaModels([]);
+      console.error(`Error loading ${provider} models:`, error);
+      setAvailableModels([]);
+    }
+  };
+
+  const handleProviderSelect = (provider: LlmProviderId) => {
+    setSelectedProvider(provider);
+    setApiKey('');
+    setKeyMessage(null);
+    setAvailableModels([]);
+    setSelectedModel(provider === currentConfig?.provider ? currentConfig.model : '');
+    if (provider !== 'gemini') {
+      loadModels(provider, providerUrls[provider], '');
     }
   };
 
@@ -76,18 +172,22 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelChange, onChatOpen
   const handleProviderSwitch = async () => {
     try {
       setConnectionStatus('testing');
-      let result;
-      
-      if (selectedProvider === 'ollama') {
-        result = await window.electronAPI.switchToOllama(selectedOllamaModel, ollamaUrl);
-      } else {
-        result = await window.electronAPI.switchToGemini(geminiApiKey || undefined);
-      }
+      const result = await window.electronAPI.switchLlmProvider(selectedProvider, {
+        model: selectedProvider === 'gemini' ? undefined : selectedModel || undefined,
+        url: providerUrl,
+        apiKey: apiKey || undefined
+      });
 
       if (result.success) {
-        await loadCurrentConfig();
+        const config = await window.electronAPI.getCurrentLlmConfig();
+        setCurrentConfig(config);
+        if (apiKey) {
+          setApiKey('');
+          await loadKeyStatuses();
+        }
+        setSelectedModel(config.model);
         setConnectionStatus('success');
-        onModelChange?.(selectedProvider, selectedProvider === 'ollama' ? selectedOllamaModel : 'gemini-2.0-flash');
+        onModelChange?.(config.provider, config.model);
         // Auto-open chat window after successful model change
         setTimeout(() => {
           onChatOpen?.();
@@ -140,7 +240,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelChange, onChatOpen
       {/* Current Status */}
       {currentConfig && (
         <div className="text-xs text-gray-600 bg-white/40 p-2 rounded">
-          Current: {currentConfig.provider === 'ollama' ? '🏠' : '☁️'} {currentConfig.model}
+          Current: {getProviderIcon(currentConfig.provider)} {currentConfig.model}
         </div>
       )}
 
@@ -148,72 +248,108 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelChange, onChatOpen
       <div className="space-y-2">
         <label className="text-xs font-medium text-gray-700">Provider</label>
         <div className="flex gap-2">
-          <button
-            onClick={() => setSelectedProvider('gemini')}
-            className={`flex-1 px-3 py-2 rounded text-xs transition-all ${
-              selectedProvider === 'gemini'
-                ? 'bg-blue-500 text-white shadow-md'
-                : 'bg-white/40 text-gray-700 hover:bg-white/60'
-            }`}
-          >
-            ☁️ Gemini (Cloud)
-          </button>
-          <button
-            onClick={() => setSelectedProvider('ollama')}
-            className={`flex-1 px-3 py-2 rounded text-xs transition-all ${
-              selectedProvider === 'ollama'
-                ? 'bg-green-500 text-white shadow-md'
-                : 'bg-white/40 text-gray-700 hover:bg-white/60'
-            }`}
-          >
-            🏠 Ollama (Local)
-          </button>
+          {PROVIDER_OPTIONS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => handleProviderSelect(option.id)}
+              className={`flex-1 px-3 py-2 rounded text-xs transition-all ${
+                selectedProvider === option.id
+                  ? `${option.activeClass} text-white shadow-md`
+                  : 'bg-white/40 text-gray-700 hover:bg-white/60'
+              }`}
+            >
+              {option.icon} {option.label}
+            </button>
+          ))}
         </div>
       </div>
 
       {/* Provider-specific settings */}
-      {selectedProvider === 'gemini' ? (
-        <div className="space-y-2">
-          <label className="text-xs font-medium text-gray-700">Gemini API Key (optional if already set)</label>
-          <input
-            type="password"
-            placeholder="Enter API key to update..."
-            value={geminiApiKey}
-            onChange={(e) => setGeminiApiKey(e.target.value)}
-            className="w-full px-3 py-2 text-xs bg-white/40 border border-white/60 rounded focus:outline-none focus:ring-2 focus:ring-blue-400/60"
-          />
-        </div>
-      ) : (
-        <div className="space-y-2">
+      <div className="space-y-2">
+        {selectedOption.defaultUrl && (
           <div>
-            <label className="text-xs font-medium text-gray-700">Ollama URL</label>
+            <label className="text-xs font-medium text-gray-700">{selectedOption.name} URL</label>
             <input
               type="url"
-              value={ollamaUrl}
-              onChange={(e) => setOllamaUrl(e.target.value)}
+              value={providerUrl || ''}
+              onChange={(e) => setProviderUrls((urls) => ({ ...urls, [selectedProvider]: e.target.value }))}
+              onBlur={() => loadModels()}
               className="w-full px-3 py-2 text-xs bg-white/40 border border-white/60 rounded focus:outline-none focus:ring-2 focus:ring-green-400/60"
             />
           </div>
-          
+        )}
+
+        {selectedOption.apiKeyLabel && (
+          <div>
+            <label className="text-xs font-medium text-gray-700">{selectedOption.apiKeyLabel}</label>
+            <input
+              type="password"
+              placeholder={keyStatus?.masked ? 'Enter a new key to replace the saved one...' : 'Enter API key...'}
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              className="w-full px-3 py-2 text-xs bg-white/40 border border-white/60 rounded focus:outline-none focus:ring-2 focus:ring-blue-400/60"
+            />
+            <div className="flex items-center gap-2 mt-1">
+              <span className="flex-1 text-xs text-gray-600 truncate">
+                {keyStatus?.masked
+                  ? `Saved: ${keyStatus.masked}${keyStatus.source === 'env' ? ' (from .env)' : ''}`
+                  : 'No key saved'}
+              </span>
+              <button
+                onClick={handleSaveKey}
+                disabled={!apiKey}
+                className="px-2 py-1 text-xs bg-white/60 hover:bg-white/80 disabled:opacity-50 rounded transition-all"
+              >
+                Save
+              </button>
+              <button
+                onClick={handleTestKey}
+                disabled={!apiKey && !keyStatus?.masked}
+                className="px-2 py-1 text-xs bg-white/60 hover:bg-white/80 disabled:opacity-50 rounded transition-all"
+              >
+                Test
+              </button>
+              <button
+                onClick={handleDeleteKey}
+                disabled={keyStatus?.source !== 'stored'}
+                className="px-2 py-1 text-xs bg-white/60 hover:bg-white/80 disabled:opacity-50 rounded transition-all"
+              >
+                Delete
+              </button>
+            </div>
+            {keyMessage && (
+              <div className={`mt-1 text-xs ${keyMessage.isError ? 'text-red-600' : 'text-gray-600'}`}>
+                {keyMessage.text}
+              </div>
+            )}
+            {!usingKeychain && (
+              <div className="mt-1 text-xs text-gray-700 bg-orange-100/60 p-2 rounded">
+                ⚠️ No system keychain available. Keys are encrypted with a key file in the app data folder.
+              </div>
+            )}
+          </div>
+        )}
+
+        {selectedProvider !== 'gemini' && (
           <div>
             <div className="flex items-center gap-2">
               <label className="text-xs font-medium text-gray-700">Model</label>
               <button
-                onClick={loadOllamaModels}
+                onClick={() => loadModels()}
                 className="px-2 py-1 text-xs bg-white/60 hover:bg-white/80 rounded transition-all"
                 title="Refresh models"
               >
                 🔄
               </button>
             </div>
-            
-            {availableOllamaModels.length > 0 ? (
+
+            {availableModels.length > 0 ? (
               <select
-                value={selectedOllamaModel}
-                onChange={(e) => setSelectedOllamaModel(e.target.value)}
+                value={selectedModel}
+                onChange={(e) => setSelectedModel(e.target.value)}
                 className="w-full px-3 py-2 text-xs bg-white/40 border border-white/60 rounded focus:outline-none focus:ring-2 focus:ring-green-400/60"
               >
-                {availableOllamaModels.map((model) => (
+                {availableModels.map((model) => (
                   <option key={model} value={model}>
                     {model}
                   </option>
@@ -221,12 +357,18 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelChange, onChatOpen
               </select>
             ) : (
               <div className="text-xs text-gray-600 bg-yellow-100/60 p-2 rounded">
-                No Ollama models found. Make sure Ollama is running and models are installed.
+                No models found. Make sure the {selectedOption.name} server is running and models are installed.
+              </div>
+            )}
+
+            {selectedModelSupportsVision === false && (
+              <div className="mt-2 text-xs text-gray-700 bg-orange-100/60 p-2 rounded">
+                ⚠️ {selectedModel} may not be able to read images. Screenshot analysis needs a vision model such as llava or llama3.2-vision.
               </div>
             )}
           </div>
-        </div>
-      )}
+        )}
+      </div>
 
       {/* Action buttons */}
       <div className="flex gap-2 pt-2">
@@ -251,6 +393,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelChange, onChatOpen
       <div className="text-xs text-gray-600 space-y-1">
         <div>💡 <strong>Gemini:</strong> Fast, cloud-based, requires API key</div>
         <div>💡 <strong>Ollama:</strong> Private, local, requires Ollama installation</div>
+        <div>💡 <strong>OpenAI-compatible:</strong> vLLM, LM Studio or llama.cpp server at a /v1 URL</div>
       </div>
     </div>
   );
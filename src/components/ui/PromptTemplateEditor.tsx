@@ -0,0 +1,305 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PromptOutputFormat, PromptTemplate, PromptTemplateId, PromptVariable } from '../../types/prompts';
+import { CODE_LANGUAGES } from '../../lib/codeLanguages';
+
+const formatSchema = (template: PromptTemplate) =>
+  JSON.stringify(template.schema || template.defaultSchema || {}, null, 2);
+
+const PromptTemplateEditor: React.FC = () => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [variableDescriptions, setVariableDescriptions] = useState<Partial<Record<PromptVariable, string>>>({});
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('system');
+  const [body, setBody] = useState('');
+  const [outputFormat, setOutputFormat] = useState<PromptOutputFormat>('text');
+  const [schemaText, setSchemaText] = useState('');
+  const [preview, setPreview] = useState<string | null>(null);
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Fills {{language}}; empty uses the active profile's language
+  const [codeLanguage, setCodeLanguage] = useState('');
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const selectedIdRef = useRef(selectedId);
+  selectedIdRef.current = selectedId;
+
+  const selected = templates.find((template) => template.id === selectedId);
+  const isDirty = !!selected && (
+    body !== selected.body ||
+    outputFormat !== selected.outputFormat ||
+    (outputFormat === 'json' && schemaText !== formatSchema(selected))
+  );
+
+  const showTemplate = (template: PromptTemplate) => {
+    setBody(template.body);
+    setOutputFormat(template.outputFormat);
+    setSchemaText(formatSchema(template));
+    setPreview(null);
+  };
+
+  const replaceTemplate = (template: PromptTemplate) => {
+    setTemplates((current) => current.map((existing) => (existing.id === template.id ? template : existing)));
+    showTemplate(template);
+  };
+
+  const loadTemplates = () => {
+    window.electronAPI.getPromptTemplates()
+      .then(({ templates, variables }) => {
+        setTemplates(templates);
+        setVariableDescriptions(variables);
+        const first = templates.find((template) => template.id === selectedIdRef.current) || templates[0];
+        if (first) {
+          setSelectedId(first.id);
+          showTemplate(first);
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading prompt templates:', error);
+        setStatus({ text: 'Could not load the prompt templates', isError: true });
+      });
+  };
+
+  useEffect(() => {
+    loadTemplates();
+    // Each profile has its own templates, so reload when another one becomes active
+    let activeProfileId: string | null = null;
+    window.electronAPI.getSettings().then((settings) => {
+      activeProfileId = settings.profiles.active;
+      setCodeLanguage(settings.prompts.language || '');
+    });
+    return window.electronAPI.onSettingsChanged((settings) => {
+      if (activeProfileId !== null && settings.profiles.active !== activeProfileId) {
+        setStatus(null);
+        loadTemplates();
+      }
+      activeProfileId = settings.profiles.active;
+    });
+  }, []);
+
+  const handleCodeLanguageChange = async (language: string) => {
+    setCodeLanguage(language);
+    const result = await window.electronAPI.updateSettings({ prompts: { language } });
+    if (!result.success) {
+      setStatus({ text: result.error, isError: true });
+    }
+  };
+
+  const handleSelect = (id: PromptTemplateId) => {
+    const template = templates.find((candidate) => candidate.id === id);
+    if (!template) return;
+    setSelectedId(id);
+    setStatus(null);
+    showTemplate(template);
+  };
+
+  // Inserts the placeholder at the cursor so variables can be added without typing braces
+  const insertVariable = (variable: PromptVariable) => {
+    const placeholder = variable === 'multipleScreenshots' || variable === 'speakers'
+      ? `{{#${variable}}}{{/${variable}}}`
+      : `{{${variable}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    setBody(body.slice(0, start) + placeholder + body.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handlePreview = async () => {
+    if (preview !== null) {
+      setPreview(null);
+      return;
+    }
+    try {
+      setPreview(await window.electronAPI.previewPromptTemplate(selectedId, body));
+    } catch (error) {
+      setStatus({ text: `Preview failed: ${String(error)}`, isError: true });
+    }
+  };
+
+  const handleSave = async () => {
+    let schema;
+    if (outputFormat === 'json') {
+      try {
+        schema = JSON.parse(schemaText);
+      } catch (error) {
+        setStatus({ text: `The schema is not valid JSON: ${String(error)}`, isError: true });
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await window.electronAPI.updatePromptTemplate(selectedId, { body, outputFormat, schema });
+      if (result.success) {
+        replaceTemplate(result.template);
+        setStatus({ text: 'Template saved', isError: false });
+      } else {
+        setStatus({ text: result.error, isError: true });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    const result = await window.electronAPI.resetPromptTemplate(selectedId);
+    if (result.success) {
+      replaceTemplate(result.template);
+      setStatus({ text: 'Template reset to the built-in version', isError: false });
+    } else {
+      setStatus({ text: result.error, isError: true });
+    }
+  };
+
+  if (!selected) {
+    return (
+      <div className="p-4 bg-white/20 backdrop-blur-md rounded-lg border border-white/30">
+        <div className="animate-pulse text-sm text-gray-600">{status?.text || 'Loading prompt templates...'}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-white/20 backdrop-blur-md rounded-lg border border-white/30 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-800">Prompt Templates</h3>
+        {status && (
+          <div className={`text-xs ${status.isError ? 'text-red-600' : 'text-green-600'}`}>{status.text}</div>
+        )}
+      </div>
+
+      {/* Preferred code language */}
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-xs font-medium text-gray-700">Code language</label>
+        <select
+          value={codeLanguage}
+          onChange={(e) => handleCodeLanguageChange(e.target.value)}
+          className="px-2 py-1 text-xs bg-white/40 border border-white/60 rounded focus:outline-none focus:ring-2 focus:ring-blue-400/60"
+        >
+          <option value="">Profile default</option>
+          {codeLanguage && !CODE_LANGUAGES.some(({ label }) => label === codeLanguage) && (
+            <option value={codeLanguage}>{codeLanguage}</option>
+          )}
+          {CODE_LANGUAGES.map(({ id, label }) => (
+            <option key={id} value={label}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Template selection */}
+      <div className="space-y-1">
+        <select
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value as PromptTemplateId)}
+          className="w-full px-3 py-2 text-xs bg-white/40 border border-white/60 rounded focus:outline-none focus:ring-2 focus:ring-blue-400/60"
+        >
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name}{template.customized ? ' (edited)' : ''}
+            </option>
+          ))}
+        </select>
+        <div className="text-xs text-gray-600">{selected.description}</div>
+      </div>
+
+      {/* Output format */}
+      {selected.formats.length > 1 && (
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-gray-700">Output format</label>
+          <div className="flex gap-2">
+            {selected.formats.map((format) => (
+              <button
+                key={format}
+                onClick={() => setOutputFormat(format)}
+                className={`flex-1 px-3 py-1.5 rounded text-xs transition-all ${
+                  outputFormat === format ? 'bg-blue-500 text-white shadow-md' : 'bg-white/40 text-gray-700 hover:bg-white/60'
+                }`}
+              >
+                {format === 'json' ? 'JSON schema' : 'Free text'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Template body */}
+      <div className="space-y-1">
+        <label className="text-xs font-medium text-gray-700">Template</label>
+        <textarea
+          ref={bodyRef}
+          value={body}
+          onChange={(e) => {
+            setBody(e.target.value);
+            setPreview(null);
+          }}
+          rows={10}
+          spellCheck={false}
+          className="w-full px-3 py-2 text-xs font-mono bg-white/40 border border-white/60 rounded focus:outline-none focus:ring-2 focus:ring-blue-400/60"
+        />
+        <div className="flex flex-wrap gap-1">
+          {selected.variables.map((variable) => (
+            <button
+              key={variable}
+              onClick={() => insertVariable(variable)}
+              title={variableDescriptions[variable]}
+              className="px-2 py-0.5 text-[11px] font-mono bg-white/60 hover:bg-white/80 rounded transition-all"
+            >
+              {`{{${variable}}}`}
+            </button>
+          ))}
+        </div>
+        <div className="text-[11px] text-gray-600">
+          {'Wrap text in {{#name}}...{{/name}} to include it only when a variable is set, or {{^name}}...{{/name}} when it is not.'}
+        </div>
+      </div>
+
+      {/* Schema */}
+      {outputFormat === 'json' && (
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-gray-700">JSON schema</label>
+          <textarea
+            value={schemaText}
+            onChange={(e) => setSchemaText(e.target.value)}
+            rows={6}
+            spellCheck={false}
+            className="w-full px-3 py-2 text-xs font-mono bg-white/40 border border-white/60 rounded focus:outline-none focus:ring-2 focus:ring-blue-400/60"
+          />
+          <div className="text-[11px] text-gray-600">You can add fields; the built-in required fields must stay.</div>
+        </div>
+      )}
+
+      {preview !== null && (
+        <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap text-[11px] text-gray-700 bg-white/40 p-2 rounded">
+          {preview}
+        </pre>
+      )}
+
+      {/* Action buttons */}
+      <div className="flex gap-2 pt-1">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="flex-1 px-3 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white text-xs rounded transition-all shadow-md"
+        >
+          {isSaving ? 'Saving...' : 'Save Template'}
+        </button>
+        <button
+          onClick={handlePreview}
+          className="px-3 py-2 bg-gray-500 hover:bg-gray-600 text-white text-xs rounded transition-all shadow-md"
+        >
+          {preview !== null ? 'Hide Preview' : 'Preview'}
+        </button>
+        <button
+          onClick={handleReset}
+          disabled={!selected.customized}
+          className="px-3 py-2 bg-gray-500 hover:bg-gray-600 disabled:bg-gray-400 text-white text-xs rounded transition-all shadow-md"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { SessionFilter, SessionRecord, SessionSummary } from '../../types/history';
+import { AssistantProfile } from '../../types/profiles';
+import { AppSettings } from '../../types/settings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIODS: Array<{ label: string; days: number | null }> = [
+  { label: 'Any time', days: null },
+  { label: 'Today', days: 1 },
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 }
+];
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const SessionHistory: React.FC = () => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [profiles, setProfiles] = useState<AssistantProfile[]>([]);
+  const [search, setSearch] = useState('');
+  const [profileId, setProfileId] = useState('');
+  const [periodDays, setPeriodDays] = useState<number | null>(null);
+  const [kind, setKind] = useState<SessionFilter['kind'] | ''>('');
+  const [expanded, setExpanded] = useState<SessionRecord | null>(null);
+  const [retention, setRetention] = useState<AppSettings['history'] | null>(null);
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const loadSessions = async () => {
+    try {
+      const filter: SessionFilter = {
+        search: search || undefined,
+        profileId: profileId || undefined,
+        since: periodDays ? Date.now() - periodDays * DAY_MS : undefined,
+        kind: kind || undefined
+      };
+      setSessions(await window.electronAPI.getSessionHistory(filter));
+    } catch (error) {
+      console.error('Error loading session history:', error);
+      setStatus({ text: 'Could not load the history', isError: true });
+    }
+  };
+
+  useEffect(() => {
+    window.electronAPI.getProfiles()
+      .then(({ profiles }) => setProfiles(profiles))
+      .catch((error) => console.error('Error loading profiles:', error));
+    window.electronAPI.getSettings()
+      .then((settings) => setRetention(settings.history))
+      .catch((error) => console.error('Error loading settings:', error));
+  }, []);
+
+  // Searching waits for a pause in typing
+  useEffect(() => {
+    const timer = setTimeout(loadSessions, 250);
+    return () => clearTimeout(timer);
+  }, [search, profileId, periodDays, kind]);
+
+  const toggleSession = async (id: string) => {
+    if (expanded?.id === id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(await window.electronAPI.getSession(id));
+  };
+
+  const handleOpen = async (id: string) => {
+    const result = await window.electronAPI.reopenSession(id);
+    if (!result.success) {
+      setStatus({ text: result.error || 'Could not reopen the session', isError: true });
+    }
+  };
+
+  const handleExport = async (id: string) => {
+    const result = await window.electronAPI.exportSession(id);
+    if (!result.success) {
+      setStatus({ text: result.error, isError: true });
+    } else if (result.filePath) {
+      setStatus({ text: 'Session exported', isError: false });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await window.electronAPI.deleteSession(id);
+    if (expanded?.id === id) setExpanded(null);
+    loadSessions();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete every saved session?')) return;
+    await window.electronAPI.clearSessionHistory();
+    setExpanded(null);
+    loadSessions();
+  };
+
+  const updateRetention = async (patch: Partial<AppSettings['history']>) => {
+    const result = await window.electronAPI.updateSettings({ history: patch });
+    if (result.success) {
+      setRetention(result.settings.history);
+      setStatus(null);
+      loadSessions();
+    } else {
+      setStatus({ text: result.error, isError: true });
+    }
+  };
+
+  const profileName = (id: string) => profiles.find((profile) => profile.id === id)?.name || id;
+
+  return (
+    <div className="p-4 bg-white/20 backdrop-blur-md rounded-lg border border-white/30 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-800">History</h3>
+        {status && (
+          <div className={`text-xs ${status.isError ? 'text-red-600' : 'text-green-600'}`}>{status.text}</div>
+        )}
+      </div>
+
+      {/* Search and filters */}
+      <input
+        type="text"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search problems, solutions, chat and transcripts..."
+        className="w-full px-3 py-2 text-xs bg-white/40 border border-white/60 rounded focus:outline-none focus:ring-2 focus:ring-blue-400/60"
+      />
+      <div className="flex gap-2">
+        <select
+          value={profileId}
+          onChange={(e) => setProfileId(e.target.value)}
+          className="flex-1 px-2 py-1 text-xs bg-white/40 border border-white/60 rounded focus:outline-none"
+        >
+          <option value="">All profiles</option>
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <select
+          value={periodDays ?? ''}
+          onChange={(e) => setPeriodDays(e.target.value ? Number(e.target.value) : null)}
+          className="flex-1 px-2 py-1 text-xs bg-white/40 border border-white/60 rounded focus:outline-none"
+        >
+          {PERIODS.map((period) => (
+            <option key={period.label} value={period.days ?? ''}>{period.label}</option>
+          ))}
+        </select>
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as SessionFilter['kind'] | '')}
+          className="flex-1 px-2 py-1 text-xs bg-white/40 border border-white/60 rounded focus:outline-none"
+        >
+          <option value="">Any content</option>
+          <option value="screenshots">With screenshots</option>
+          <option value="chat">With chat</option>
+          <option value="audio">With audio</option>
+        </select>
+      </div>
+
+      {/* Sessions */}
+      <div className="max-h-72 overflow-y-auto space-y-1.5">
+        {sessions.length === 0 ? (
+          <div className="text-xs text-gray-600 text-center py-4">No saved sessions</div>
+        ) : (
+          sessions.map((session) => (
+            <div key={session.id} className="bg-white/40 rounded p-2 text-xs text-gray-700">
+              <div className="flex items-start justify-between gap-2">
+                <button onClick={() => toggleSession(session.id)} className="text-left flex-1 min-w-0">
+                  <div className="font-medium text-gray-800 truncate">{session.title}</div>
+                  <div className="text-[11px] text-gray-600">
+                    {formatDate(session.updatedAt)} · {profileName(session.profileId)}
+                    {session.screenshotCount > 0 && ` · ${session.screenshotCount} 📷`}
+                    {session.revisionCount > 0 && ` · ${session.revisionCount} solution${session.revisionCount > 1 ? 's' : ''}`}
+                    {session.messageCount > 0 && ` · ${session.messageCount / 2} 💬`}
+                    {session.audioCount > 0 && ` · ${session.audioCount} 🎤`}
+                  </div>
+                </button>
+                <div className="flex gap-1 shrink-0">
+                  {session.hasProblem && (
+                    <button
+                      onClick={() => handleOpen(session.id)}
+                      className="px-2 py-1 bg-blue-500 hover:bg-blue-600 text-white text-[11px] rounded transition-all"
+                    >
+                      Open
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleExport(session.id)}
+                    className="px-2 py-1 bg-gray-500 hover:bg-gray-600 text-white text-[11px] rounded transition-all"
+                  >
+                    Export
+                  </button>
+                  <button
+                    onClick={() => handleDelete(session.id)}
+                    className="px-2 py-1 bg-gray-500 hover:bg-gray-600 text-white text-[11px] rounded transition-all"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {expanded?.id === session.id && (
+                <div className="mt-2 space-y-2 border-t border-white/60 pt-2">
+                  {expanded.problemInfo?.problem_statement && (
+                    <div className="whitespace-pre-wrap max-h-24 overflow-y-auto">{expanded.problemInfo.problem_statement}</div>
+                  )}
+                  {expanded.audioTranscripts.map((transcript) => (
+                    <div key={`${transcript.timestamp}-${transcript.speaker ?? ""}`} className="whitespace-pre-wrap">
+                      🎤 {transcript.speaker && <span className="font-medium">{transcript.speaker === "me" ? "Me" : "Them"}: </span>}
+                      {transcript.text}
+                    </div>
+                  ))}
+                  {expanded.chat.map((message, index) => (
+                    <div key={index} className={message.role === 'user' ? 'font-medium' : 'text-gray-600'}>
+                      {message.role === 'user' ? 'You: ' : 'AI: '}{message.content}
+                    </div>
+                  ))}
+                  {session.providers.length > 0 && (
+                    <div className="text-[11px] text-gray-500">Answered by {session.providers.join(', ')}</div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Retention */}
+      {retention && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={retention.enabled}
+              onChange={(e) => updateRetention({ enabled: e.target.checked })}
+            />
+            Save sessions
+          </label>
+          <label className="flex items-center gap-1">
+            Keep
+            <input
+              type="number"
+              min={1}
+              value={retention.maxSessions}
+              onChange={(e) => updateRetention({ maxSessions: Number(e.target.value) })}
+              className="w-14 px-1 py-0.5 bg-white/40 border border-white/60 rounded"
+            />
+            sessions
+          </label>
+          <label className="flex items-center gap-1">
+            for
+            <input
+              type="number"
+              min={0}
+              value={retention.maxAgeDays}
+              onChange={(e) => updateRetention({ maxAgeDays: Number(e.target.value) })}
+              className="w-12 px-1 py-0.5 bg-white/40 border border-white/60 rounded"
+            />
+            days (0 = forever)
+          </label>
+          <button
+            onClick={handleClear}
+            disabled={sessions.length === 0}
+            className="ml-auto px-2 py-1 bg-red-500 hover:bg-red-600 disabled:bg-gray-400 text-white text-[11px] rounded transition-all"
+          >
+            Clear history
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionHistory;
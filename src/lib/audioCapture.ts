@@ -0,0 +1,101 @@
+// src/lib/audioCapture.ts
+import { VoiceActivityDetector } from "./voiceActivity"
+
+export interface ChunkRecorderOptions {
+  chunkSeconds: number
+  // Ends chunks at pauses and skips silent ones; omitted to send every chunk
+  voiceActivity?: { sensitivity: number; silenceMs: number }
+  onChunk: (blob: Blob, startedAt: number, endedAt: number, endsUtterance: boolean) => void
+}
+
+export interface ChunkRecorder {
+  // Ends the chunk being recorded and starts the next one
+  finish: (endsUtterance: boolean) => void
+  // Stops recording; the last partial chunk is still delivered
+  stop: () => void
+}
+
+/**
+ * Records a stream as a series of chunks of at most `chunkSeconds`. Each chunk
+ * is a separate recording so it can be decoded on its own.
+ */
+export function recordInChunks(stream: MediaStream, options: ChunkRecorderOptions): ChunkRecorder {
+  let stopped = false
+  let recorder: MediaRecorder | null = null
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let finish: (endsUtterance: boolean) => void = () => {}
+  let markSpeech = () => {}
+  const detector = options.voiceActivity
+    ? new VoiceActivityDetector(stream, {
+        ...options.voiceActivity,
+        onSpeechStart: () => markSpeech(),
+        onSpeechEnd: () => finish(true)
+      })
+    : null
+
+  const recordChunk = () => {
+    if (stopped) return
+    const chunks: Blob[] = []
+    const startedAt = Date.now()
+    const current = new MediaRecorder(stream)
+    let endsUtterance = false
+    // Without voice detection every chunk is transcribed
+    let hasSpeech = !detector || detector.isSpeaking()
+    recorder = current
+    markSpeech = () => {
+      hasSpeech = true
+    }
+    finish = (utteranceEnded) => {
+      if (current.state === "inactive") return
+      clearTimeout(timer)
+      endsUtterance = utteranceEnded
+      current.stop()
+      recordChunk()
+    }
+    current.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data)
+    }
+    current.onstop = () => {
+      const blob = new Blob(chunks, { type: chunks[0]?.type || "audio/webm" })
+      // A chunk that ends an utterance is always sent so the main process sees the end
+      if (blob.size > 0 && (hasSpeech || endsUtterance)) options.onChunk(blob, startedAt, Date.now(), endsUtterance)
+    }
+    current.start()
+    timer = setTimeout(() => finish(false), options.chunkSeconds * 1000)
+  }
+
+  recordChunk()
+
+  return {
+    finish: (endsUtterance) => finish(endsUtterance),
+    stop: () => {
+      stopped = true
+      clearTimeout(timer)
+      detector?.stop()
+      if (recorder && recorder.state !== "inactive") recorder.stop()
+    }
+  }
+}
+
+/**
+ * Captures what the computer plays, such as the other side of a call. The main
+ * process grants screen capture with loopback audio (the video is dropped);
+ * where that gives no audio, a PulseAudio "Monitor of ..." input is used on
+ * Linux. Call after microphone access so device labels are readable.
+ */
+export async function getSystemAudioStream(): Promise<MediaStream> {
+  try {
+    const display = await navigator.mediaDevices.getDisplayMedia({ audio: true, video: true })
+    display.getVideoTracks().forEach((track) => track.stop())
+    if (display.getAudioTracks().length > 0) return new MediaStream(display.getAudioTracks())
+  } catch (error) {
+    console.warn("Loopback capture is not available:", error)
+  }
+
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  const monitor = devices.find((device) => device.kind === "audioinput" && /^monitor of/i.test(device.label))
+  if (!monitor) {
+    throw new Error("System audio cannot be captured on this system")
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: { deviceId: { exact: monitor.deviceId } } })
+}
@@ -0,0 +1,85 @@
+// src/lib/codeLanguages.ts
+
+// Languages offered in the picker; `id` is the Prism name used for highlighting
+export const CODE_LANGUAGES = [
+  { id: "python", label: "Python" },
+  { id: "javascript", label: "JavaScript" },
+  { id: "typescript", label: "TypeScript" },
+  { id: "java", label: "Java" },
+  { id: "cpp", label: "C++" },
+  { id: "c", label: "C" },
+  { id: "csharp", label: "C#" },
+  { id: "go", label: "Go" },
+  { id: "rust", label: "Rust" },
+  { id: "kotlin", label: "Kotlin" },
+  { id: "swift", label: "Swift" },
+  { id: "ruby", label: "Ruby" },
+  { id: "php", label: "PHP" },
+  { id: "scala", label: "Scala" },
+  { id: "sql", label: "SQL" },
+  { id: "bash", label: "Bash" }
+] as const
+
+export type CodeLanguageId = (typeof CODE_LANGUAGES)[number]["id"]
+
+// Other names models use for the same languages
+const ALIASES: Record<string, CodeLanguageId> = {
+  py: "python",
+  python3: "python",
+  js: "javascript",
+  node: "javascript",
+  ts: "typescript",
+  "c++": "cpp",
+  cplusplus: "cpp",
+  "c#": "csharp",
+  cs: "csharp",
+  golang: "go",
+  rs: "rust",
+  kt: "kotlin",
+  rb: "ruby",
+  sh: "bash",
+  shell: "bash",
+  postgresql: "sql",
+  mysql: "sql"
+}
+
+export function getLanguageLabel(id: CodeLanguageId): string {
+  return CODE_LANGUAGES.find((language) => language.id === id)?.label || id
+}
+
+/**
+ * Maps a language name as a model writes it ("Python 3", "C++", "golang") to
+ * a picker id, or null if it is not one of the offered languages.
+ */
+export function normalizeLanguage(name: string | null | undefined): CodeLanguageId | null {
+  if (!name) return null
+  const key = name.trim().toLowerCase().replace(/\s*\d+(\.\d+)*$/, "")
+  const match = CODE_LANGUAGES.find((language) => language.id === key || language.label.toLowerCase() === key)
+  return match ? match.id : ALIASES[key] || null
+}
+
+// Checked in order; the first pattern that matches wins, so more specific languages come first
+const DETECTORS: Array<[CodeLanguageId, RegExp]> = [
+  ["cpp", /#include\s*<(iostream|vector|string|algorithm|bits\/)|std::|\bcout\s*<<|\bvector<\w+>/],
+  ["csharp", /\busing System\b|\bConsole\.Write(Line)?\(|\bnamespace\s+\w+/],
+  ["java", /\bpublic\s+(static\s+)?(class|void|int|boolean|String)\b|\bSystem\.out\.print|\bimport java\./],
+  ["swift", /\bfunc\s+\w+\(.*\)\s*->|\bvar\s+\w+\s*:\s*\[?[A-Z]\w*|\bguard\s+let\b/],
+  ["go", /\bpackage main\b|\bfunc\s+(\(\w+\s+\*?\w+\)\s*)?\w+\(|:=\s*/],
+  ["rust", /\bfn\s+\w+\s*(<[^>]*>)?\(|\blet\s+mut\b|\bimpl\b|\bVec<|->\s*Option</],
+  ["kotlin", /\bfun\s+\w+\(|\bval\s+\w+\s*[:=]|\bprintln\(/],
+  ["typescript", /\b(interface|type)\s+\w+\s*[={]|:\s*(number|string|boolean)(\[\])?\s*[,)=;]/],
+  ["javascript", /\b(const|let|var)\s+\w+\s*=|\bfunction\s+\w+\(|=>\s*[{(]|\bconsole\.log\(/],
+  ["php", /<\?php|\$\w+\s*=/],
+  ["ruby", /\bdef\s+\w+(\(.*\))?\s*$[\s\S]*\bend\b|\bputs\s/m],
+  ["python", /\bdef\s+\w+\(.*\)\s*(->\s*[\w\[\], ]+)?:|\bimport\s+\w+|\bprint\(|\bself\b|\belif\b/],
+  ["sql", /\bSELECT\b[\s\S]+\bFROM\b|\bCREATE TABLE\b/i],
+  ["bash", /^#!\/bin\/(ba)?sh|\becho\s+["$]/m],
+  ["c", /\bint\s+main\s*\(|\bprintf\s*\(|\bmalloc\s*\(/]
+]
+
+// Best guess from the code itself, used when the model does not name the language
+export function detectLanguage(code: string | null | undefined): CodeLanguageId | null {
+  if (!code) return null
+  const match = DETECTORS.find(([, pattern]) => pattern.test(code))
+  return match ? match[0] : null
+}
@@ -0,0 +1,33 @@
+// src/lib/shortcuts.ts
+
+const IS_MAC = navigator.userAgent.includes("Mac")
+
+const MAC_KEYS: Record<string, string> = {
+  CommandOrControl: "⌘",
+  CmdOrCtrl: "⌘",
+  Command: "⌘",
+  Cmd: "⌘",
+  Control: "⌃",
+  Ctrl: "⌃",
+  Shift: "⇧",
+  Alt: "⌥",
+  Option: "⌥"
+}
+
+const OTHER_KEYS: Record<string, string> = {
+  CommandOrControl: "Ctrl",
+  CmdOrCtrl: "Ctrl",
+  Control: "Ctrl"
+}
+
+// Display text for an accelerator from settings, e.g. "CommandOrControl+Shift+L" reads "⌘⇧L" on macOS and "Ctrl+Shift+L" elsewhere
+export function formatShortcut(accelerator: string): string {
+  const keys = accelerator.split("+")
+  if (IS_MAC) return keys.map((key) => MAC_KEYS[key] ?? key).join("")
+  return keys.map((key) => OTHER_KEYS[key] ?? key).join("+")
+}
+
+// Appends the shortcut to a hint, or leaves the hint alone when the shortcut is turned off
+export function withShortcut(hint: string, accelerator: string | undefined): string {
+  return accelerator ? `${hint} (${formatShortcut(accelerator)})` : hint
+}
@@ -0,0 +1,88 @@
+// src/lib/voiceActivity.ts
+
+// How often the microphone level is checked
+const FRAME_MS = 50
+// Speech shorter than this (a cough, a click) does not start an utterance
+const MIN_SPEECH_MS = 250
+// Level above the noise floor that counts as speech, at sensitivity 0 and 1
+const LEAST_SENSITIVE_DB = 24
+const MOST_SENSITIVE_DB = 6
+
+export interface VoiceActivityOptions {
+  // 0 to 1; higher counts quieter sound as speech
+  sensitivity: number
+  // Silence after speech that ends an utterance
+  silenceMs: number
+  onSpeechStart?: () => void
+  onSpeechEnd?: () => void
+}
+
+/**
+ * Energy based voice activity detection on a microphone stream. The noise
+ * floor follows the background level, and speech is sound clearly above it;
+ * an utterance ends after `silenceMs` without speech.
+ */
+export class VoiceActivityDetector {
+  private readonly options: VoiceActivityOptions
+  private readonly context: AudioContext
+  private readonly analyser: AnalyserNode
+  private readonly samples: Float32Array<ArrayBuffer>
+  private timer: ReturnType<typeof setInterval> | undefined
+  private noiseFloorDb = -60
+  private speechStartedAt: number | null = null
+  private lastSpeechAt = 0
+  private speaking = false
+
+  constructor(stream: MediaStream, options: VoiceActivityOptions) {
+    this.options = options
+    this.context = new AudioContext()
+    this.analyser = this.context.createAnalyser()
+    this.analyser.fftSize = 2048
+    this.samples = new Float32Array(this.analyser.fftSize)
+    this.context.createMediaStreamSource(stream).connect(this.analyser)
+    // An interval keeps running while the window is hidden, unlike animation frames
+    this.timer = setInterval(() => this.sample(), FRAME_MS)
+  }
+
+  public isSpeaking(): boolean {
+    return this.speaking
+  }
+
+  private sample(): void {
+    this.analyser.getFloatTimeDomainData(this.samples)
+    let sum = 0
+    for (const sample of this.samples) sum += sample * sample
+    const levelDb = 20 * Math.log10(Math.sqrt(sum / this.samples.length) || 1e-8)
+
+    const sensitivity = Math.min(1, Math.max(0, this.options.sensitivity))
+    const thresholdDb = LEAST_SENSITIVE_DB - sensitivity * (LEAST_SENSITIVE_DB - MOST_SENSITIVE_DB)
+    const isSpeech = levelDb > this.noiseFloorDb + thresholdDb
+    const now = Date.now()
+
+    // The floor drops quickly to quiet moments and rises slowly, so speech does not raise it
+    this.noiseFloorDb = levelDb < this.noiseFloorDb
+      ? this.noiseFloorDb * 0.7 + levelDb * 0.3
+      : this.noiseFloorDb * 0.995 + levelDb * 0.005
+
+    if (isSpeech) {
+      this.lastSpeechAt = now
+      this.speechStartedAt ??= now
+      if (!this.speaking && now - this.speechStartedAt >= MIN_SPEECH_MS) {
+        this.speaking = true
+        this.options.onSpeechStart?.()
+      }
+    } else if (this.speaking && now - this.lastSpeechAt >= this.options.silenceMs) {
+      this.speaking = false
+      this.speechStartedAt = null
+      this.options.onSpeechEnd?.()
+    } else if (!this.speaking && now - this.lastSpeechAt >= MIN_SPEECH_MS) {
+      // A short sound followed by quiet was not speech
+      this.speechStartedAt = null
+    }
+  }
+
+  public stop(): void {
+    clearInterval(this.timer)
+    this.context.close().catch((): void => undefined)
+  }
+}
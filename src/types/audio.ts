@@ -1,4 +1,43 @@
 export interface AudioResult {
   text: string;
   timestamp: number;
-} 
\ No newline at end of file
+} 
+
+// "me" is the microphone, "them" the system audio; unset when only the microphone is recorded
+export type Speaker = "me" | "them";
+
+export interface AudioChunk {
+  // Base64 encoded audio
+  data: string;
+  mimeType: string;
+  startedAt: number;
+  endedAt: number;
+  endsUtterance?: boolean;
+  speaker?: Speaker;
+}
+
+export interface TranscriptSegment {
+  id: string;
+  text: string;
+  startedAt: number;
+  endedAt: number;
+  speaker?: Speaker;
+}
+
+export interface LiveTranscriptState {
+  active: boolean;
+  segments: TranscriptSegment[];
+  pendingChunks: number;
+  error: string | null;
+}
+
+export interface VoiceTriggerState {
+  pushToTalk: boolean;
+  lastTriggeredAt: number | null;
+}
+
+export interface VoiceQuestionEvent {
+  streamId: string;
+  message: string;
+  conversationId: string;
+}
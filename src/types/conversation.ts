@@ -0,0 +1,24 @@
+export interface ConversationMessage {
+  role: "user" | "assistant"
+  content: string
+  timestamp: number
+}
+
+export interface Conversation {
+  id: string
+  title: string
+  messages: ConversationMessage[]
+  summary?: string
+  summarizedCount: number
+  parentId?: string
+  createdAt: number
+  updatedAt: number
+}
+
+export interface ConversationInfo {
+  id: string
+  title: string
+  messageCount: number
+  parentId?: string
+  updatedAt: number
+}
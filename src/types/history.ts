@@ -0,0 +1,51 @@
+import { ConversationMessage } from "./conversation"
+import { LlmProviderUsage } from "./llm"
+import { SolutionRevision } from "./solutions"
+
+export interface SessionRecord {
+  id: string
+  title: string
+  profileId: string
+  createdAt: number
+  updatedAt: number
+  screenshots: string[]
+  problemInfo: any | null
+  solutionRevisions: SolutionRevision[]
+  currentSolutionRevision: number | null
+  chat: ConversationMessage[]
+  audioTranscripts: Array<{ text: string; timestamp: number; speaker?: "me" | "them" }>
+  providersUsed: Array<LlmProviderUsage & { timestamp: number }>
+}
+
+export interface SessionSummary {
+  id: string
+  title: string
+  profileId: string
+  createdAt: number
+  updatedAt: number
+  screenshotCount: number
+  revisionCount: number
+  messageCount: number
+  audioCount: number
+  hasProblem: boolean
+  providers: string[]
+}
+
+export interface SessionFilter {
+  search?: string
+  profileId?: string
+  since?: number
+  kind?: "screenshots" | "chat" | "audio"
+}
+
+export type ExportFormat = "markdown" | "json" | "html"
+
+// filePath is null when the save dialog was cancelled
+export type ExportSessionResult =
+  | { success: true; filePath: string | null }
+  | { success: false; error: string }
+
+export interface SessionReopenedEvent {
+  problemInfo: any
+  solution: SolutionRevision | null
+}
@@ -0,0 +1,49 @@
+export type LlmProviderId = "gemini" | "ollama" | "openai-compatible"
+
+export interface LlmConfig {
+  provider: LlmProviderId
+  model: string
+  url?: string
+  supportsVision: boolean
+}
+
+export interface LlmProviderSettings {
+  model?: string
+  url?: string
+  apiKey?: string
+}
+
+export interface ApiKeyStatus {
+  provider: LlmProviderId
+  masked: string | null
+  source: "stored" | "env" | null
+  updatedAt?: number
+}
+
+export type LlmStreamSource = "chat" | "solution"
+
+export interface LlmStreamChunk {
+  streamId: string
+  source: LlmStreamSource
+  chunk: string
+}
+
+export interface LlmStreamDone {
+  streamId: string
+  source: LlmStreamSource
+  text: string
+  cancelled: boolean
+}
+
+export interface LlmStreamError {
+  streamId: string
+  source: LlmStreamSource
+  error: string
+}
+
+export interface LlmProviderUsage {
+  operation: string
+  providerId: LlmProviderId
+  model: string
+  fallback: boolean
+}
@@ -0,0 +1,24 @@
+import { LlmProviderId } from "./llm"
+import { PromptTemplateId, PromptTemplateOverride } from "./prompts"
+
+export type ProfileLayout = "code" | "answer"
+
+export interface AssistantProfile {
+  id: string
+  name: string
+  description: string
+  layout: ProfileLayout
+  provider?: LlmProviderId
+  model?: string
+  language?: string
+  templates?: Partial<Record<PromptTemplateId, PromptTemplateOverride>>
+}
+
+export interface ProfileList {
+  profiles: AssistantProfile[]
+  activeProfileId: string
+}
+
+export type SetProfileResult =
+  | { success: true; profile: AssistantProfile }
+  | { success: false; error: string }
@@ -0,0 +1,53 @@
+export type PromptTemplateId =
+  | "system"
+  | "extract-problem"
+  | "generate-solution"
+  | "debug-solution"
+  | "analyze-image"
+  | "analyze-audio"
+
+export type PromptOutputFormat = "text" | "json"
+
+export type PromptVariable =
+  | "system"
+  | "language"
+  | "problem"
+  | "current"
+  | "history"
+  | "screenshotCount"
+  | "multipleScreenshots"
+  | "schema"
+  | "transcript"
+  | "speakers"
+
+// JSON schema subset accepted for template output
+export type PromptSchema =
+  | { type: "string"; description?: string }
+  | { type: "number"; description?: string }
+  | { type: "boolean"; description?: string }
+  | { type: "array"; items: PromptSchema; description?: string }
+  | { type: "object"; properties: Record<string, PromptSchema>; required?: string[]; description?: string }
+
+export interface PromptTemplate {
+  id: PromptTemplateId
+  name: string
+  description: string
+  variables: PromptVariable[]
+  formats: PromptOutputFormat[]
+  outputFormat: PromptOutputFormat
+  body: string
+  defaultBody: string
+  schema?: PromptSchema
+  defaultSchema?: PromptSchema
+  customized: boolean
+}
+
+export interface PromptTemplateOverride {
+  body?: string
+  outputFormat?: PromptOutputFormat
+  schema?: PromptSchema
+}
+
+export type PromptTemplateResult =
+  | { success: true; template: PromptTemplate }
+  | { success: false; error: string }
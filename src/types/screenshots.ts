@@ -0,0 +1,30 @@
+export type CaptureMode = "full" | "region" | "window" | "lastRegion"
+
+export interface ScreenshotCapture {
+  mode: "full" | "region" | "window"
+  region?: {
+    displayId: number
+    x: number
+    y: number
+    width: number
+    height: number
+  }
+  windowTitle?: string
+  capturedAt: number
+}
+
+export type QueuedFileKind = "image" | "pdf" | "audio" | "text"
+
+// A file the user added to the queue instead of capturing it
+export interface ImportedFile {
+  name: string
+  mimeType: string
+  kind: QueuedFileKind
+  size: number
+}
+
+export interface FileImportResult {
+  paths: string[]
+  // One message per file that was refused
+  errors: string[]
+}
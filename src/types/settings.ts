@@ -0,0 +1,91 @@
+import { LlmProviderId, LlmProviderSettings } from "./llm"
+import { AssistantProfile } from "./profiles"
+
+export type ShortcutAction =
+  | "showWindow"
+  | "toggleWindow"
+  | "takeScreenshot"
+  | "captureRegion"
+  | "captureWindow"
+  | "repeatLastRegion"
+  | "processScreenshots"
+  | "reset"
+  | "moveLeft"
+  | "moveRight"
+  | "moveUp"
+  | "moveDown"
+  | "cycleProfile"
+  | "exportSession"
+  | "toggleLiveCaptions"
+  | "pushToTalk"
+
+export interface AppSettings {
+  version: number
+  llm: {
+    provider: LlmProviderId
+    fallbackProviders: LlmProviderId[]
+    providers: Partial<Record<LlmProviderId, LlmProviderSettings>>
+    retry: {
+      maxRetries: number
+      baseDelayMs: number
+      maxDelayMs: number
+    }
+  }
+  shortcuts: Record<ShortcutAction, string>
+  window: {
+    x?: number
+    y?: number
+  }
+  screenshots: {
+    maxScreenshots: number
+    display: "cursor" | "primary" | number
+  }
+  prompts: {
+    language?: string
+  }
+  profiles: {
+    active: string
+    custom: AssistantProfile[]
+  }
+  history: {
+    enabled: boolean
+    maxSessions: number
+    maxAgeDays: number
+  }
+  ocr: {
+    mode: "off" | "auto" | "always"
+    language: string
+    langPath: string
+  }
+  transcription: {
+    chunkSeconds: number
+    contextMinutes: number
+    systemAudio: boolean
+  }
+  speechToText: {
+    engine: "auto" | "model" | "whisper" | "mock"
+    whisper: {
+      url: string
+      api: "whisper.cpp" | "openai"
+      model: string
+      language: string
+    }
+  }
+  voiceTrigger: {
+    enabled: boolean
+    mode: "question" | "pause"
+    sensitivity: number
+    silenceMs: number
+    cooldownSeconds: number
+  }
+}
+
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends Array<any> ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K]
+}
+
+export type SettingsPatch = DeepPartial<Omit<AppSettings, "version">>
+
+export type SettingsUpdateResult =
+  | { success: true; settings: AppSettings }
+  | { success: false; error: string }
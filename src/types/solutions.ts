@@ -27,4 +27,15 @@ export interface ProblemStatementData {
   test_cases: any[];
   validation_type: string;
   difficulty: string;
-}
\ No newline at end of file
+}
+export interface SolutionRevision {
+  revision: number
+  source: "initial" | "debug"
+  code: string
+  language?: string
+  thoughts: string[]
+  time_complexity?: string
+  space_complexity?: string
+  parentRevision?: number
+  createdAt: number
+}
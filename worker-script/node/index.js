@@ -1,26 +1,59 @@
 const { parentPort } = require('worker_threads');
 
-// Handle messages from the main thread
+// Tesseract worker kept between requests; recreated when the language changes
+let ocrWorker = null;
+let ocrWorkerKey = null;
+// OCR tasks run one after another, so a worker is never created twice or
+// replaced while a recognition is still using it
+let ocrQueue = Promise.resolve();
+
+function enqueueOcr(task) {
+  const run = ocrQueue.then(task);
+  ocrQueue = run.catch(() => {});
+  return run;
+}
+
+// Handle messages from the main thread. Replies echo the request id so the
+// main thread can match them to concurrent requests.
 parentPort.on('message', async (message) => {
+  const { id } = message;
   try {
     // Process the message based on its type
     switch (message.type) {
       case 'process':
         // Add your processing logic here
         const result = await processTask(message.data);
-        parentPort.postMessage({ type: 'result', data: result });
+        parentPort.postMessage({ type: 'result', id, data: result });
+        break;
+
+      case 'ocr':
+        const text = await enqueueOcr(() => recognizeText(message.data));
+        parentPort.postMessage({ type: 'result', id, data: text });
+        break;
+
+      case 'shutdown':
+        await enqueueOcr(async () => {
+          if (ocrWorker) {
+            await ocrWorker.terminate();
+            ocrWorker = null;
+            ocrWorkerKey = null;
+          }
+        });
+        parentPort.postMessage({ type: 'result', id, data: null });
         break;
-      
+
       default:
-        parentPort.postMessage({ 
-          type: 'error', 
-          error: `Unknown message type: ${message.type}` 
+        parentPort.postMessage({
+          type: 'error',
+          id,
+          error: `Unknown message type: ${message.type}`
         });
     }
   } catch (error) {
-    parentPort.postMessage({ 
-      type: 'error', 
-      error: error.message 
+    parentPort.postMessage({
+      type: 'error',
+      id,
+      error: error.message
     });
   }
 });
@@ -33,17 +66,37 @@ async function processTask(data) {
   };
 }
 
+// Language data is read from the local langPath folder only, never downloaded
+async function getOcrWorker({ language, cachePath, langPath, gzip }) {
+  const key = JSON.stringify([language, cachePath, langPath, gzip]);
+  if (ocrWorker && ocrWorkerKey === key) return ocrWorker;
+  if (ocrWorker) await ocrWorker.terminate();
+  ocrWorker = null;
+  ocrWorkerKey = null;
+
+  const { createWorker } = require('tesseract.js');
+  ocrWorker = await createWorker(language, 1, { cachePath, langPath, gzip });
+  ocrWorkerKey = key;
+  return ocrWorker;
+}
+
+async function recognizeText(data) {
+  const worker = await getOcrWorker(data);
+  const { data: result } = await worker.recognize(data.imagePath);
+  return { text: result.text.trim(), confidence: result.confidence };
+}
+
 // Error handling for the worker
 process.on('uncaughtException', (error) => {
-  parentPort.postMessage({ 
-    type: 'error', 
-    error: `Uncaught Exception: ${error.message}` 
+  parentPort.postMessage({
+    type: 'error',
+    error: `Uncaught Exception: ${error.message}`
   });
 });
 
 process.on('unhandledRejection', (reason) => {
-  parentPort.postMessage({ 
-    type: 'error', 
-    error: `Unhandled Rejection: ${reason}` 
+  parentPort.postMessage({
+    type: 'error',
+    error: `Unhandled Rejection: ${reason}`
   });
-}); 
\ No newline at end of file
+});